@@ -26,6 +26,7 @@ module.exports = {
       }),
     };
   }),
+  Notice: jest.fn(),
   Platform: {
     isDesktop: true,
   },
@@ -2,16 +2,15 @@ import { CustomModel, LangChainParams, SetChainOptions } from "@/aiParams";
 import ChainFactory, { ChainType, Document } from "@/chainFactory";
 import { ABORT_REASON, AI_SENDER, BUILTIN_CHAT_MODELS, USER_SENDER } from "@/constants";
 import EncryptionService from "@/encryptionService";
+import { buildSourceCitations, SourceCitation } from "@/search/citations";
+import { createLinkGraph, GRAPH_EXPANSION_MAX_NOTES, LinkGraph } from "@/search/graphExpansion";
 import { HybridRetriever } from "@/search/hybridRetriever";
+import { hasQueryFilters, parseQueryFilters } from "@/search/queryFilters";
+import { QueryRewriter } from "@/search/queryRewriter";
+import { createReranker } from "@/search/reranker";
 import { CopilotSettings } from "@/settings/SettingsPage";
 import { ChatMessage } from "@/sharedState";
-import {
-  extractChatHistory,
-  extractUniqueTitlesFromDocs,
-  formatDateTime,
-  isSupportedChain,
-} from "@/utils";
-import VectorDBManager from "@/vectorDBManager";
+import { extractChatHistory, formatDateTime, isSupportedChain } from "@/utils";
 import VectorStoreManager from "@/VectorStoreManager";
 import {
   ChatPromptTemplate,
@@ -21,16 +20,23 @@ import {
 import { RunnableSequence } from "@langchain/core/runnables";
 import { BaseChatMemory } from "langchain/memory";
 import { MemoryVectorStore } from "langchain/vectorstores/memory";
-import { App, Notice } from "obsidian";
+import { App, MetadataCache, Notice, TFile } from "obsidian";
 import ChatModelManager from "./chatModelManager";
 import EmbeddingsManager from "./embeddingManager";
 import MemoryManager from "./memoryManager";
 import PromptManager from "./promptManager";
+import { ResponseStatsTracker } from "./responseStats";
 
+/**
+ * Chains, memory and chat model of one chat session. Every session has its own
+ * instance, so switching the model or chain in one doesn't change the others.
+ */
 export default class ChainManager {
-  private static chain: RunnableSequence;
-  private static retrievalChain: RunnableSequence;
-  private static retrievedDocuments: Document[] = [];
+  private chain: RunnableSequence;
+  private retrievalChain: RunnableSequence;
+  // Unset while no embedding model is available to search the index with
+  private retriever?: HybridRetriever;
+  private retrievedDocuments: Document[] = [];
 
   private app: App;
   private settings: CopilotSettings;
@@ -58,9 +64,9 @@ export default class ChainManager {
     this.langChainParams = getLangChainParams();
     this.settings = settings;
     this.vectorStoreManager = vectorStoreManager;
-    this.memoryManager = MemoryManager.getInstance(this.getLangChainParams());
+    this.memoryManager = new MemoryManager(this.getLangChainParams());
     this.encryptionService = encryptionService;
-    this.chatModelManager = ChatModelManager.getInstance(
+    this.chatModelManager = new ChatModelManager(
       () => this.getLangChainParams(),
       encryptionService,
       this.settings.activeModels
@@ -96,8 +102,8 @@ export default class ChainManager {
     );
   }
 
-  static storeRetrieverDocuments(documents: Document[]) {
-    ChainManager.retrievedDocuments = documents;
+  private storeRetrieverDocuments(documents: Document[]) {
+    this.retrievedDocuments = documents;
   }
 
   /**
@@ -133,16 +139,93 @@ export default class ChainManager {
   }
 
   /* Create a new chain, or update chain with new model */
-  createChain(chainType: ChainType, options?: SetChainOptions): void {
+  async createChain(chainType: ChainType, options?: SetChainOptions): Promise<void> {
     this.validateChainType(chainType);
     try {
-      this.setChain(chainType, options);
+      await this.setChain(chainType, options);
     } catch (error) {
-      new Notice("Error creating chain:", error);
+      new Notice(`Error creating chain: ${error.message}`);
       console.error("Error creating chain:", error);
     }
   }
 
+  /**
+   * Hybrid retriever over the vault index with the current retrieval settings,
+   * also used by the index inspector and the retrieval eval to test queries.
+   * Only the chat's retriever rewrites questions with the chat history, so test
+   * queries give the same results whatever was said in the chat.
+   */
+  createRetriever(
+    options: {
+      debug?: boolean;
+      maxK?: number;
+      useChatHistory?: boolean;
+      excludePath?: (path: string) => boolean;
+    } = {}
+  ): HybridRetriever | undefined {
+    // The active index may still hold vectors of the previously selected model
+    const embeddingsAPI = this.vectorStoreManager.getQueryEmbeddings();
+    if (!embeddingsAPI) {
+      console.error("Error getting embeddings API. Please check your settings.");
+      return undefined;
+    }
+    const chatModel = this.chatModelManager.getChatModel();
+
+    return new HybridRetriever(
+      this.vectorStoreManager.getDb(),
+      this.app.vault,
+      embeddingsAPI,
+      {
+        minSimilarityScore: 0.3,
+        maxK: options.maxK ?? this.settings.maxSourceChunks,
+        textWeight: this.settings.textSearchWeight,
+        vectorWeight: this.settings.vectorSearchWeight,
+        fusionStrategy: this.settings.hybridFusionStrategy,
+        graphExpansion: {
+          hops: this.settings.graphExpansionHops,
+          hopDecay: this.settings.graphHopDecay,
+          maxNotes: GRAPH_EXPANSION_MAX_NOTES,
+          linkGraph: this.createVaultLinkGraph(),
+        },
+        getChunks: (path) => this.vectorStoreManager.getChunks(path),
+        excludePath: options.excludePath,
+        diversity: {
+          mmrLambda: this.settings.mmrLambda,
+          maxChunksPerNote: this.settings.maxChunksPerNote,
+        },
+        queryRewriter: new QueryRewriter(
+          chatModel,
+          this.settings.queryRewriteMode,
+          this.settings.queryRewritePrompt,
+          options.useChatHistory ? this.memoryManager.getMemory() : undefined
+        ),
+        reranker: createReranker(this.settings.reranker, {
+          llm: chatModel,
+          url: this.settings.rerankApiUrl,
+          model: this.settings.rerankModel,
+          apiKey: this.encryptionService.getDecryptedKey(this.settings.rerankApiKey),
+        }),
+      },
+      options.debug
+    );
+  }
+
+  // getBacklinksForFile is missing from Obsidian's typings, without it backlinks are searched for
+  private createVaultLinkGraph(): LinkGraph {
+    const metadataCache = this.app.metadataCache as MetadataCache & {
+      getBacklinksForFile?: (file: TFile) => { keys(): string[] };
+    };
+    const getBacklinksForFile = metadataCache.getBacklinksForFile?.bind(metadataCache);
+    return createLinkGraph(
+      metadataCache.resolvedLinks,
+      getBacklinksForFile &&
+        ((path) => {
+          const file = this.app.vault.getAbstractFileByPath(path);
+          return file instanceof TFile ? getBacklinksForFile(file).keys() : [];
+        })
+    );
+  }
+
   async setChain(chainType: ChainType, options: SetChainOptions = {}): Promise<void> {
     if (!this.chatModelManager.validateChatModel(this.chatModelManager.getChatModel())) {
       // No need to throw error and trigger multiple Notices to user
@@ -155,7 +238,8 @@ export default class ChainManager {
       this.embeddingsManager = EmbeddingsManager.getInstance(
         () => this.getLangChainParams(),
         this.encryptionService,
-        this.settings.activeEmbeddingModels
+        this.settings.activeEmbeddingModels,
+        this.app
       );
     }
 
@@ -168,20 +252,23 @@ export default class ChainManager {
       case ChainType.LLM_CHAIN: {
         // For initial load of the plugin
         if (options.forceNewCreation) {
-          ChainManager.chain = ChainFactory.createNewLLMChain({
+          this.chain = ChainFactory.createNewLLMChain({
             llm: chatModel,
             memory: memory,
             prompt: options.prompt || chatPrompt,
             abortController: options.abortController,
           }) as RunnableSequence;
         } else {
-          // For navigating back to the plugin view
-          ChainManager.chain = ChainFactory.getLLMChainFromMap({
-            llm: chatModel,
-            memory: memory,
-            prompt: options.prompt || chatPrompt,
-            abortController: options.abortController,
-          }) as RunnableSequence;
+          // For navigating back to the plugin view, the chain factory's cached chain
+          // belongs to whichever session created it last
+          this.chain =
+            this.chain ??
+            (ChainFactory.createNewLLMChain({
+              llm: chatModel,
+              memory: memory,
+              prompt: options.prompt || chatPrompt,
+              abortController: options.abortController,
+            }) as RunnableSequence);
         }
 
         this.setLangChainParam("chainType", ChainType.LLM_CHAIN);
@@ -189,36 +276,24 @@ export default class ChainManager {
       }
 
       case ChainType.VAULT_QA_CHAIN: {
-        const embeddingsAPI = this.embeddingsManager.getEmbeddingsAPI();
-        if (!embeddingsAPI) {
-          console.error("Error getting embeddings API. Please check your settings.");
-          return;
-        }
-
-        const retriever = new HybridRetriever(
-          this.vectorStoreManager.getDb(),
-          this.app.vault,
-          chatModel,
-          embeddingsAPI,
-          {
-            minSimilarityScore: 0.3,
-            maxK: this.settings.maxSourceChunks,
-          },
-          options.debug
-        );
+        // Set before the index loads, so the session is a Vault QA session from the start
+        this.setLangChainParam("chainType", ChainType.VAULT_QA_CHAIN);
+        await this.vectorStoreManager.waitForInitialization();
+        const retriever = this.createRetriever({ debug: options.debug, useChatHistory: true });
+        if (!retriever) return;
+        this.retriever = retriever;
 
         // Create new conversational retrieval chain
-        ChainManager.retrievalChain = ChainFactory.createConversationalRetrievalChain(
+        this.retrievalChain = ChainFactory.createConversationalRetrievalChain(
           {
             llm: chatModel,
-            retriever: retriever,
+            retriever: this.retriever,
             systemMessage: this.getLangChainParams().systemMessage,
           },
-          ChainManager.storeRetrieverDocuments.bind(ChainManager),
+          this.storeRetrieverDocuments.bind(this),
           options.debug
         );
 
-        this.setLangChainParam("chainType", ChainType.VAULT_QA_CHAIN);
         if (options.debug) {
           console.log("New Vault QA chain with hybrid retriever created for entire vault");
           console.log("Set chain:", ChainType.VAULT_QA_CHAIN);
@@ -254,15 +329,15 @@ export default class ChainManager {
       return;
     }
     // Check if chain is initialized properly
-    if (!ChainManager.chain || !isSupportedChain(ChainManager.chain)) {
+    if (!this.chain || !isSupportedChain(this.chain)) {
       console.error(
         "Chain is not initialized properly, re-initializing chain: ",
         this.getLangChainParams().chainType
       );
-      this.setChain(this.getLangChainParams().chainType, this.getLangChainParams().options);
+      await this.setChain(this.getLangChainParams().chainType, this.getLangChainParams().options);
     }
 
-    const { temperature, maxTokens, systemMessage, chatContextTurns, chainType } =
+    const { temperature, maxTokens, systemMessage, chatContextTurns, chainType, modelKey } =
       this.getLangChainParams();
 
     const memory = this.memoryManager.getMemory();
@@ -277,19 +352,22 @@ export default class ChainManager {
           ])
         : chatPrompt;
 
-      this.setChain(chainType, {
+      await this.setChain(chainType, {
         ...this.getLangChainParams().options,
         prompt: effectivePrompt,
       });
     } else {
-      this.setChain(chainType, this.getLangChainParams().options);
+      await this.setChain(chainType, this.getLangChainParams().options);
     }
 
     let fullAIResponse = "";
+    const statsTracker = new ResponseStatsTracker();
+    let sources: SourceCitation[] | undefined;
+    let rewrittenQuery: string | undefined;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const chatModel = (ChainManager.chain as any).last.bound;
+    const chatModel = (this.chain as any).last.bound;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const chatStream = await ChainManager.chain.stream({
+    const chatStream = await this.chain.stream({
       input: userMessage,
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
     } as any);
@@ -309,12 +387,13 @@ export default class ChainManager {
                 `system prompt: ${systemPrompt}\n` +
                 `chat context turns: ${chatContextTurns}\n`
             );
-            console.log("chain RunnableSequence:", ChainManager.chain);
+            console.log("chain RunnableSequence:", this.chain);
             console.log("Chat memory:", memory);
           }
 
           for await (const chunk of chatStream) {
             if (abortController.signal.aborted) break;
+            statsTracker.addChunk(chunk);
             fullAIResponse += chunk.content;
             updateCurrentAiMessage(fullAIResponse);
           }
@@ -331,7 +410,7 @@ export default class ChainManager {
                 `system prompt: ${systemPrompt}\n` +
                 `chat context turns: ${chatContextTurns}\n`
             );
-            console.log("chain RunnableSequence:", ChainManager.chain);
+            console.log("chain RunnableSequence:", this.chain);
             console.log("embedding model:", this.getLangChainParams().embeddingModelKey);
           }
           fullAIResponse = await this.runRetrievalChain(
@@ -339,8 +418,14 @@ export default class ChainManager {
             memory,
             updateCurrentAiMessage,
             abortController,
+            statsTracker,
             { debug }
           );
+          sources = await buildSourceCitations(this.app.vault, this.retrievedDocuments);
+          if (debug) {
+            const searchQuery = this.retriever?.getLastSearchQuery();
+            if (searchQuery && searchQuery !== userMessage.trim()) rewrittenQuery = searchQuery;
+          }
           break;
         default:
           console.error("Chain type not supported:", this.getLangChainParams().chainType);
@@ -367,6 +452,11 @@ export default class ChainManager {
           sender: AI_SENDER,
           isVisible: true,
           timestamp: formatDateTime(new Date()),
+          sources,
+          rewrittenQuery,
+          modelKey,
+          chainType,
+          stats: statsTracker.getStats(),
         });
       }
       updateCurrentAiMessage("");
@@ -379,14 +469,30 @@ export default class ChainManager {
     memory: BaseChatMemory,
     updateCurrentAiMessage: (message: string) => void,
     abortController: AbortController,
+    statsTracker: ResponseStatsTracker,
     options: {
       debug?: boolean;
     } = {}
   ): Promise<string> {
+    if (!this.retriever) {
+      const errorMsg =
+        "Vault QA can't search your vault, the index or the embedding model is not available. Please check your settings.";
+      new Notice(errorMsg);
+      console.error(errorMsg);
+      return "";
+    }
+
+    // Filters like #tag or folder:Meetings scope the search, the LLM only sees the question
+    const { query, filters } = parseQueryFilters(userMessage);
+    this.retriever.setFilters(filters);
+    if (options.debug && hasQueryFilters(filters)) {
+      console.log("Vault QA filters:", filters);
+    }
+
     const memoryVariables = await memory.loadMemoryVariables({});
     const chatHistory = extractChatHistory(memoryVariables);
-    const qaStream = await ChainManager.retrievalChain.stream({
-      question: userMessage,
+    const qaStream = await this.retrievalChain.stream({
+      question: query,
       chat_history: chatHistory,
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
     } as any);
@@ -395,53 +501,19 @@ export default class ChainManager {
 
     for await (const chunk of qaStream) {
       if (abortController.signal.aborted) break;
+      statsTracker.addChunk(chunk);
       fullAIResponse += chunk.content;
       updateCurrentAiMessage(fullAIResponse);
     }
 
     if (options.debug) {
       console.log("Max source chunks:", this.settings.maxSourceChunks);
-      console.log("Retrieved chunks:", ChainManager.retrievedDocuments);
-    }
-
-    // TODO: This only returns unique note titles, but actual retrieved docs are chunks.
-    // That means multiple chunks can be from the same note. A more advanced logic is needed
-    // to show specific chunks in the future. E.g. collapsed note title when clicked,
-    // expand and reveal the chunk
-    if (this.getLangChainParams().chainType === ChainType.VAULT_QA_CHAIN) {
-      const docTitles = extractUniqueTitlesFromDocs(ChainManager.retrievedDocuments);
-      if (docTitles.length > 0) {
-        const markdownLinks = docTitles
-          .map(
-            (title) =>
-              `- [${title}](obsidian://open?vault=${encodeURIComponent(this.app.vault.getName())}&file=${encodeURIComponent(
-                title
-              )})`
-          )
-          .join("\n");
-        fullAIResponse += "\n\n#### Sources:\n" + markdownLinks;
-      }
+      console.log("Retrieved chunks:", this.retrievedDocuments);
     }
 
     return fullAIResponse;
   }
 
-  async indexFile(noteFile: any): Promise<any | undefined> {
-    const embeddingsAPI = this.embeddingsManager.getEmbeddingsAPI();
-    if (!embeddingsAPI) {
-      const errorMsg =
-        "Failed to load file, embedding API is not set correctly, please check your settings.";
-      new Notice(errorMsg);
-      console.error(errorMsg);
-      return;
-    }
-    return await VectorDBManager.indexFile(
-      this.vectorStoreManager.getDb(),
-      embeddingsAPI,
-      noteFile
-    );
-  }
-
   async updateMemoryWithLoadedMessages(messages: ChatMessage[]) {
     await this.memoryManager.clearChatMemory();
     for (let i = 0; i < messages.length; i += 2) {
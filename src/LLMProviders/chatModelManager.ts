@@ -12,8 +12,8 @@ import { Notice } from "obsidian";
 
 export default class ChatModelManager {
   private encryptionService: EncryptionService;
-  private static instance: ChatModelManager;
-  private static chatModel: BaseChatModel;
+  // The model of the chat session this manager belongs to, the model map is shared
+  private chatModel: BaseChatModel;
   private static chatOpenAI: ChatOpenAI;
   private static modelMap: Record<
     string,
@@ -25,7 +25,7 @@ export default class ChatModelManager {
     }
   >;
 
-  private constructor(
+  constructor(
     private getLangChainParams: () => LangChainParams,
     encryptionService: EncryptionService,
     activeModels: CustomModel[]
@@ -34,21 +34,6 @@ export default class ChatModelManager {
     this.buildModelMap(activeModels);
   }
 
-  static getInstance(
-    getLangChainParams: () => LangChainParams,
-    encryptionService: EncryptionService,
-    activeModels: CustomModel[]
-  ): ChatModelManager {
-    if (!ChatModelManager.instance) {
-      ChatModelManager.instance = new ChatModelManager(
-        getLangChainParams,
-        encryptionService,
-        activeModels
-      );
-    }
-    return ChatModelManager.instance;
-  }
-
   private getModelConfig(customModel: CustomModel): ModelConfig {
     const decrypt = (key: string) => this.encryptionService.getDecryptedKey(key);
     const params = this.getLangChainParams();
@@ -192,7 +177,7 @@ export default class ChatModelManager {
   }
 
   getChatModel(): BaseChatModel {
-    return ChatModelManager.chatModel;
+    return this.chatModel;
   }
 
   setChatModel(model: CustomModel): void {
@@ -212,7 +197,7 @@ export default class ChatModelManager {
 
     const modelConfig = this.getModelConfig(model);
 
-    // MUST update it since chatModelManager is a singleton.
+    // MUST update it, the chain manager reads the model key from its params.
     this.getLangChainParams().modelKey = `${model.name}|${model.provider}`;
     new Notice(`Setting model: ${modelConfig.modelName}`);
     try {
@@ -220,7 +205,7 @@ export default class ChatModelManager {
         ...modelConfig,
       });
       // Set the new model
-      ChatModelManager.chatModel = newModelInstance;
+      this.chatModel = newModelInstance;
     } catch (error) {
       console.error(error);
       new Notice(`Error creating model: ${modelKey}`);
@@ -235,6 +220,6 @@ export default class ChatModelManager {
   }
 
   async countTokens(inputStr: string): Promise<number> {
-    return ChatModelManager.chatModel.getNumTokens(inputStr);
+    return this.chatModel.getNumTokens(inputStr);
   }
 }
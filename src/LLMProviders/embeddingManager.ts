@@ -4,11 +4,13 @@ import { EmbeddingModelProviders } from "@/constants";
 import EncryptionService from "@/encryptionService";
 import { CustomError } from "@/error";
 import { ProxyOpenAIEmbeddings } from "@/langchainWrappers";
+import { LocalWasmEmbeddings } from "@/LLMProviders/localWasmEmbeddings";
 import { CohereEmbeddings } from "@langchain/cohere";
 import { Embeddings } from "@langchain/core/embeddings";
 import { GoogleGenerativeAIEmbeddings } from "@langchain/google-genai";
 import { OllamaEmbeddings } from "@langchain/ollama";
 import { OpenAIEmbeddings } from "@langchain/openai";
+import { App } from "obsidian";
 
 export default class EmbeddingManager {
   private encryptionService: EncryptionService;
@@ -27,7 +29,8 @@ export default class EmbeddingManager {
   private constructor(
     private getLangChainParams: () => LangChainParams,
     encryptionService: EncryptionService,
-    activeEmbeddingModels: CustomModel[]
+    activeEmbeddingModels: CustomModel[],
+    private app: App
   ) {
     this.encryptionService = encryptionService;
     this.activeEmbeddingModels = activeEmbeddingModels;
@@ -37,13 +40,15 @@ export default class EmbeddingManager {
   static getInstance(
     getLangChainParams: () => LangChainParams,
     encryptionService: EncryptionService,
-    activeEmbeddingModels: CustomModel[]
+    activeEmbeddingModels: CustomModel[],
+    app: App
   ): EmbeddingManager {
     if (!EmbeddingManager.instance) {
       EmbeddingManager.instance = new EmbeddingManager(
         getLangChainParams,
         encryptionService,
-        activeEmbeddingModels
+        activeEmbeddingModels,
+        app
       );
     }
     return EmbeddingManager.instance;
@@ -85,6 +90,10 @@ export default class EmbeddingManager {
             constructor = ProxyOpenAIEmbeddings;
             apiKey = model.apiKey;
             break;
+          case EmbeddingModelProviders.LOCAL_WASM:
+            constructor = LocalWasmEmbeddings;
+            apiKey = "default-key";
+            break;
           default:
             console.warn(`Unknown provider: ${model.provider} for embedding model: ${model.name}`);
             return;
@@ -120,9 +129,10 @@ export default class EmbeddingManager {
     })[0];
   }
 
-  getEmbeddingsAPI(): Embeddings | undefined {
-    const { embeddingModelKey } = this.getLangChainParams();
-
+  // Embeddings for the selected model, or for another model key, e.g. the one an index was built with
+  getEmbeddingsAPI(
+    embeddingModelKey = this.getLangChainParams().embeddingModelKey
+  ): Embeddings | undefined {
     if (!EmbeddingManager.modelMap.hasOwnProperty(embeddingModelKey)) {
       throw new CustomError(`No embedding model found for: ${embeddingModelKey}`);
     }
@@ -186,6 +196,12 @@ export default class EmbeddingManager {
         openAIApiKey: decrypt(customModel.apiKey || ""),
         openAIEmbeddingProxyBaseUrl: customModel.baseUrl,
       },
+      // The base URL field holds the model folder, relative to the vault root
+      [EmbeddingModelProviders.LOCAL_WASM]: {
+        modelName,
+        modelPath: customModel.baseUrl || modelName,
+        adapter: this.app.vault.adapter,
+      },
     };
 
     const modelKey = `${modelName}|${customModel.provider}`;
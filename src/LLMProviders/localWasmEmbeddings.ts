@@ -0,0 +1,233 @@
+import { WordPieceTokenizer } from "@/LLMProviders/wordPieceTokenizer";
+import { Embeddings, EmbeddingsParams } from "@langchain/core/embeddings";
+import { DataAdapter } from "obsidian";
+import type { InferenceSession } from "onnxruntime-web";
+
+// Texts per model run, larger batches pad more and barely run faster on one CPU thread
+const LOCAL_EMBEDDING_BATCH_SIZE = 8;
+
+// Where a model folder may keep its files, in the layouts sentence-transformers and Optimum export
+const MODEL_FILES = [
+  "model.onnx",
+  "onnx/model.onnx",
+  "model_quantized.onnx",
+  "onnx/model_quantized.onnx",
+];
+const POOLING_CONFIG_FILE = "1_Pooling/config.json";
+// The onnxruntime-web WebAssembly module, 11 MB, so it is read from disk instead of bundled
+const ONNX_WASM_FILE = "ort-wasm-simd-threaded.wasm";
+
+export type PoolingStrategy = "mean" | "cls";
+
+export interface LocalWasmEmbeddingsParams extends EmbeddingsParams {
+  modelName: string;
+  // Vault-relative folder with the ONNX model and its tokenizer
+  modelPath: string;
+  adapter: DataAdapter;
+}
+
+interface LoadedModel {
+  session: InferenceSession;
+  tokenizer: WordPieceTokenizer;
+  pooling: PoolingStrategy;
+}
+
+/**
+ * Pool the token embeddings of each text into one vector, skipping padding.
+ *
+ * @param {Float32Array} data token embeddings of shape [batch, tokens, dimensions]
+ */
+export function poolEmbeddings(
+  data: Float32Array,
+  dims: readonly number[],
+  attentionMask: number[][],
+  pooling: PoolingStrategy
+): number[][] {
+  const [batchSize, tokenCount, dimensions] = dims;
+  const vectors: number[][] = [];
+  for (let b = 0; b < batchSize; b++) {
+    const vector = new Array<number>(dimensions).fill(0);
+    const offset = b * tokenCount * dimensions;
+    if (pooling === "cls") {
+      for (let d = 0; d < dimensions; d++) vector[d] = data[offset + d];
+    } else {
+      let tokens = 0;
+      for (let t = 0; t < tokenCount; t++) {
+        if (!attentionMask[b][t]) continue;
+        tokens++;
+        for (let d = 0; d < dimensions; d++) vector[d] += data[offset + t * dimensions + d];
+      }
+      for (let d = 0; d < dimensions; d++) vector[d] /= Math.max(tokens, 1);
+    }
+    vectors.push(vector);
+  }
+  return vectors;
+}
+
+// Scale to unit length, so the dot product equals the cosine similarity
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+/**
+ * Set up onnxruntime-web with its WebAssembly module from the first folder that has
+ * it. Obsidian only installs main.js of a plugin, so users copy the file themselves.
+ */
+async function loadOnnxRuntime(adapter: DataAdapter, folders: string[]) {
+  const ort = await import("onnxruntime-web");
+  if (!ort.env.wasm.wasmBinary) {
+    let wasmPath: string | undefined;
+    for (const folder of folders) {
+      if (await adapter.exists(`${folder}/${ONNX_WASM_FILE}`)) {
+        wasmPath = `${folder}/${ONNX_WASM_FILE}`;
+        break;
+      }
+    }
+    if (!wasmPath) {
+      throw new Error(
+        `No ${ONNX_WASM_FILE} found in ${folders.join(" or ")}, copy it from the onnxruntime-web package`
+      );
+    }
+    ort.env.wasm.wasmBinary = await adapter.readBinary(wasmPath);
+  }
+  // Threads need a cross-origin isolated page, which Obsidian is not
+  ort.env.wasm.numThreads = 1;
+  return ort;
+}
+
+/**
+ * Sentence embeddings from a small ONNX model, e.g. all-MiniLM-L6-v2 or
+ * bge-small-en-v1.5, run on the CPU through WebAssembly inside Obsidian. The
+ * model folder holds model.onnx and tokenizer.json (or vocab.txt), as exported
+ * by sentence-transformers or Optimum.
+ */
+export class LocalWasmEmbeddings extends Embeddings {
+  // Loading a model takes seconds, so it is shared by every instance using the same folder
+  private static models = new Map<string, Promise<LoadedModel>>();
+  // The plugin's folder, the other place the WebAssembly module is looked for
+  static pluginDir: string | undefined;
+
+  modelName: string;
+  private modelPath: string;
+  private adapter: DataAdapter;
+
+  constructor(fields: LocalWasmEmbeddingsParams) {
+    super(fields);
+    this.modelName = fields.modelName;
+    this.modelPath = fields.modelPath.replace(/\/+$/, "");
+    this.adapter = fields.adapter;
+  }
+
+  private async findFile(candidates: string[]): Promise<string | undefined> {
+    for (const candidate of candidates) {
+      const path = `${this.modelPath}/${candidate}`;
+      if (await this.adapter.exists(path)) return path;
+    }
+    return undefined;
+  }
+
+  private async loadTokenizer(): Promise<WordPieceTokenizer> {
+    const tokenizerJsonPath = await this.findFile(["tokenizer.json"]);
+    if (tokenizerJsonPath) {
+      return WordPieceTokenizer.fromTokenizerJson(await this.adapter.read(tokenizerJsonPath));
+    }
+    const vocabPath = await this.findFile(["vocab.txt"]);
+    if (!vocabPath) {
+      throw new Error(`No tokenizer.json or vocab.txt found in ${this.modelPath}`);
+    }
+    const configPath = await this.findFile(["tokenizer_config.json"]);
+    const config = configPath ? JSON.parse(await this.adapter.read(configPath)) : {};
+    return WordPieceTokenizer.fromVocabTxt(await this.adapter.read(vocabPath), {
+      lowercase: config.do_lower_case ?? true,
+      stripAccents: config.strip_accents ?? config.do_lower_case ?? true,
+    });
+  }
+
+  // sentence-transformers records the pooling in a config file, mean pooling is the common default
+  private async loadPooling(): Promise<PoolingStrategy> {
+    const configPath = await this.findFile([POOLING_CONFIG_FILE]);
+    if (!configPath) return "mean";
+    const config = JSON.parse(await this.adapter.read(configPath));
+    return config.pooling_mode_cls_token ? "cls" : "mean";
+  }
+
+  private async loadModel(): Promise<LoadedModel> {
+    const modelFile = await this.findFile(MODEL_FILES);
+    if (!modelFile) {
+      throw new Error(`No ONNX model found in ${this.modelPath}, expected ${MODEL_FILES[0]}`);
+    }
+    const ort = await loadOnnxRuntime(
+      this.adapter,
+      [this.modelPath, LocalWasmEmbeddings.pluginDir].filter((dir): dir is string => !!dir)
+    );
+    const session = await ort.InferenceSession.create(
+      new Uint8Array(await this.adapter.readBinary(modelFile)),
+      { executionProviders: ["wasm"] }
+    );
+    console.log(`Loaded local embedding model ${this.modelName} from ${modelFile}.`);
+    return { session, tokenizer: await this.loadTokenizer(), pooling: await this.loadPooling() };
+  }
+
+  private getModel(): Promise<LoadedModel> {
+    let model = LocalWasmEmbeddings.models.get(this.modelPath);
+    if (!model) {
+      model = this.loadModel();
+      // Let the next call retry, e.g. after the missing files were added
+      model.catch(() => LocalWasmEmbeddings.models.delete(this.modelPath));
+      LocalWasmEmbeddings.models.set(this.modelPath, model);
+    }
+    return model;
+  }
+
+  private async embedBatch(texts: string[]): Promise<number[][]> {
+    const { session, tokenizer, pooling } = await this.getModel();
+    const { Tensor } = await import("onnxruntime-web");
+    const { inputIds, attentionMask } = tokenizer.encodeBatch(texts);
+    const shape = [texts.length, inputIds[0].length];
+    const toTensor = (rows: number[][]) =>
+      new Tensor(
+        "int64",
+        BigInt64Array.from(rows.flat(), (value) => BigInt(value)),
+        shape
+      );
+
+    const inputs: Record<string, InstanceType<typeof Tensor>> = {
+      input_ids: toTensor(inputIds),
+      attention_mask: toTensor(attentionMask),
+      token_type_ids: toTensor(inputIds.map((row) => row.map(() => 0))),
+    };
+    // Not every export takes token type ids
+    const feeds = Object.fromEntries(
+      session.inputNames.filter((name) => name in inputs).map((name) => [name, inputs[name]])
+    );
+    const outputs = await session.run(feeds);
+    const output =
+      outputs["sentence_embedding"] ??
+      outputs["last_hidden_state"] ??
+      outputs[session.outputNames[0]];
+    const data = output.data as Float32Array;
+    // Some exports pool inside the model already
+    const vectors =
+      output.dims.length === 2
+        ? texts.map((_, i) =>
+            Array.from(data.subarray(i * output.dims[1], (i + 1) * output.dims[1]))
+          )
+        : poolEmbeddings(data, output.dims, attentionMask, pooling);
+    return vectors.map(normalizeVector);
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += LOCAL_EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(i, i + LOCAL_EMBEDDING_BATCH_SIZE);
+      embeddings.push(...(await this.caller.call(() => this.embedBatch(batch))));
+    }
+    return embeddings;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [embedding] = await this.embedDocuments([text]);
+    return embedding;
+  }
+}
@@ -1,21 +1,14 @@
 import { LangChainParams } from "@/aiParams";
 import { BaseChatMemory, BufferWindowMemory } from "langchain/memory";
 
+// Chat memory of one chat session
 export default class MemoryManager {
-  private static instance: MemoryManager;
   private memory: BaseChatMemory;
 
-  private constructor(private langChainParams: LangChainParams) {
+  constructor(private langChainParams: LangChainParams) {
     this.initMemory();
   }
 
-  static getInstance(langChainParams: LangChainParams): MemoryManager {
-    if (!MemoryManager.instance) {
-      MemoryManager.instance = new MemoryManager(langChainParams);
-    }
-    return MemoryManager.instance;
-  }
-
   private initMemory(): void {
     this.memory = new BufferWindowMemory({
       k: this.langChainParams.chatContextTurns * 2,
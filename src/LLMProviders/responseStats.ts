@@ -0,0 +1,48 @@
+import { UsageMetadata } from "@langchain/core/messages";
+
+// Token counts and timing of one answer, recorded on the AI message
+export interface ResponseStats {
+  // Reported by the provider, missing for providers that don't report usage when streaming
+  promptTokens?: number;
+  completionTokens?: number;
+  // Milliseconds from sending the question to the first token and to the end of the answer
+  timeToFirstToken?: number;
+  latency: number;
+}
+
+/**
+ * Follows a streamed answer. Providers report usage on different chunks, e.g. the
+ * prompt tokens on the first and the completion tokens on the last, so the counts
+ * of all chunks are added up.
+ */
+export class ResponseStatsTracker {
+  private startedAt: number;
+  private firstTokenAt?: number;
+  private promptTokens?: number;
+  private completionTokens?: number;
+
+  constructor(private now: () => number = Date.now) {
+    this.startedAt = now();
+  }
+
+  addChunk(chunk: { content?: unknown; usage_metadata?: UsageMetadata }) {
+    if (this.firstTokenAt === undefined && chunk.content) {
+      this.firstTokenAt = this.now();
+    }
+    const usage = chunk.usage_metadata;
+    if (usage) {
+      this.promptTokens = (this.promptTokens ?? 0) + (usage.input_tokens ?? 0);
+      this.completionTokens = (this.completionTokens ?? 0) + (usage.output_tokens ?? 0);
+    }
+  }
+
+  getStats(): ResponseStats {
+    return {
+      promptTokens: this.promptTokens,
+      completionTokens: this.completionTokens,
+      timeToFirstToken:
+        this.firstTokenAt === undefined ? undefined : this.firstTokenAt - this.startedAt,
+      latency: this.now() - this.startedAt,
+    };
+  }
+}
@@ -0,0 +1,202 @@
+// Longest input a BERT-style model accepts, longer texts are truncated
+const DEFAULT_MAX_LENGTH = 512;
+
+export interface WordPieceTokenizerOptions {
+  vocab: Map<string, number>;
+  lowercase: boolean;
+  stripAccents: boolean;
+  unkToken: string;
+  clsToken: string;
+  sepToken: string;
+  padToken: string;
+  continuingSubwordPrefix: string;
+  maxInputCharsPerWord: number;
+  // Including the [CLS] and [SEP] tokens
+  maxLength: number;
+}
+
+export interface EncodedBatch {
+  // One row per text, padded to the longest text in the batch
+  inputIds: number[][];
+  attentionMask: number[][];
+}
+
+const DEFAULT_OPTIONS: Omit<WordPieceTokenizerOptions, "vocab"> = {
+  lowercase: true,
+  stripAccents: true,
+  unkToken: "[UNK]",
+  clsToken: "[CLS]",
+  sepToken: "[SEP]",
+  padToken: "[PAD]",
+  continuingSubwordPrefix: "##",
+  maxInputCharsPerWord: 100,
+  maxLength: DEFAULT_MAX_LENGTH,
+};
+
+function isPunctuation(char: string): boolean {
+  const code = char.charCodeAt(0);
+  // BERT treats every non-alphanumeric ASCII symbol as punctuation, e.g. "$" and "^"
+  if ((code >= 33 && code <= 47) || (code >= 58 && code <= 64)) return true;
+  if ((code >= 91 && code <= 96) || (code >= 123 && code <= 126)) return true;
+  return /\p{P}/u.test(char);
+}
+
+function isCjk(code: number): boolean {
+  return (
+    (code >= 0x4e00 && code <= 0x9fff) ||
+    (code >= 0x3400 && code <= 0x4dbf) ||
+    (code >= 0x20000 && code <= 0x2a6df) ||
+    (code >= 0xf900 && code <= 0xfaff) ||
+    (code >= 0x2f800 && code <= 0x2fa1f)
+  );
+}
+
+/**
+ * The WordPiece tokenizer of BERT-style sentence embedding models like MiniLM,
+ * BGE and E5, so they can run without a tokenizer library.
+ */
+export class WordPieceTokenizer {
+  private options: WordPieceTokenizerOptions;
+
+  constructor(options: Partial<WordPieceTokenizerOptions> & { vocab: Map<string, number> }) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Read the tokenizer.json that Hugging Face models ship with.
+   */
+  static fromTokenizerJson(json: string): WordPieceTokenizer {
+    const config = JSON.parse(json);
+    const model = config.model ?? {};
+    if (model.type !== "WordPiece") {
+      throw new Error(
+        `Unsupported tokenizer type ${model.type}, only WordPiece (BERT-style) tokenizers are supported.`
+      );
+    }
+    const lowercase = config.normalizer?.lowercase ?? true;
+    return new WordPieceTokenizer({
+      vocab: new Map(Object.entries(model.vocab as Record<string, number>)),
+      lowercase,
+      // null means "strip accents if lowercasing", as in BERT
+      stripAccents: config.normalizer?.strip_accents ?? lowercase,
+      unkToken: model.unk_token ?? DEFAULT_OPTIONS.unkToken,
+      continuingSubwordPrefix:
+        model.continuing_subword_prefix ?? DEFAULT_OPTIONS.continuingSubwordPrefix,
+      maxInputCharsPerWord: model.max_input_chars_per_word ?? DEFAULT_OPTIONS.maxInputCharsPerWord,
+      maxLength: Math.min(config.truncation?.max_length ?? DEFAULT_MAX_LENGTH, DEFAULT_MAX_LENGTH),
+    });
+  }
+
+  /**
+   * Read a vocab.txt with one token per line, the line number is the token id.
+   */
+  static fromVocabTxt(
+    text: string,
+    options: Partial<Omit<WordPieceTokenizerOptions, "vocab">> = {}
+  ): WordPieceTokenizer {
+    const vocab = new Map<string, number>();
+    text.split(/\r?\n/).forEach((token, id) => {
+      if (token) vocab.set(token, id);
+    });
+    return new WordPieceTokenizer({ ...options, vocab });
+  }
+
+  get maxLength(): number {
+    return this.options.maxLength;
+  }
+
+  private normalize(text: string): string {
+    let normalized = "";
+    for (const char of text) {
+      const code = char.codePointAt(0) ?? 0;
+      if (code === 0 || code === 0xfffd || /[\p{Cc}\p{Cf}]/u.test(char)) {
+        // Tabs and newlines are control characters too but separate words
+        if (/\s/.test(char)) normalized += " ";
+        continue;
+      }
+      // Every CJK character is a word of its own
+      normalized += isCjk(code) ? ` ${char} ` : /\s/.test(char) ? " " : char;
+    }
+    if (this.options.lowercase) normalized = normalized.toLowerCase();
+    if (this.options.stripAccents) {
+      normalized = normalized.normalize("NFD").replace(/\p{Mn}/gu, "");
+    }
+    return normalized;
+  }
+
+  // Split on whitespace, with every punctuation character as a word of its own
+  private preTokenize(text: string): string[] {
+    const words: string[] = [];
+    for (const chunk of text.split(" ")) {
+      let word = "";
+      for (const char of chunk) {
+        if (isPunctuation(char)) {
+          if (word) words.push(word);
+          words.push(char);
+          word = "";
+        } else {
+          word += char;
+        }
+      }
+      if (word) words.push(word);
+    }
+    return words;
+  }
+
+  // Greedy longest-match-first split of one word into vocabulary pieces
+  private wordPiece(word: string): string[] {
+    const { vocab, unkToken, continuingSubwordPrefix, maxInputCharsPerWord } = this.options;
+    const chars = Array.from(word);
+    if (chars.length > maxInputCharsPerWord) return [unkToken];
+
+    const pieces: string[] = [];
+    let start = 0;
+    while (start < chars.length) {
+      let end = chars.length;
+      let piece: string | null = null;
+      while (start < end) {
+        const candidate =
+          (start > 0 ? continuingSubwordPrefix : "") + chars.slice(start, end).join("");
+        if (vocab.has(candidate)) {
+          piece = candidate;
+          break;
+        }
+        end--;
+      }
+      // A word with any unknown part is unknown as a whole
+      if (piece === null) return [unkToken];
+      pieces.push(piece);
+      start = end;
+    }
+    return pieces;
+  }
+
+  tokenize(text: string): string[] {
+    return this.preTokenize(this.normalize(text)).flatMap((word) => this.wordPiece(word));
+  }
+
+  private getId(token: string): number {
+    return this.options.vocab.get(token) ?? this.options.vocab.get(this.options.unkToken) ?? 0;
+  }
+
+  // Token ids with [CLS] and [SEP] around them, truncated to the model's maximum length
+  encode(text: string): number[] {
+    const tokens = this.tokenize(text).slice(0, this.options.maxLength - 2);
+    return [this.options.clsToken, ...tokens, this.options.sepToken].map((token) =>
+      this.getId(token)
+    );
+  }
+
+  encodeBatch(texts: string[]): EncodedBatch {
+    const encoded = texts.map((text) => this.encode(text));
+    const length = Math.max(...encoded.map((ids) => ids.length));
+    const padId = this.getId(this.options.padToken);
+    return {
+      inputIds: encoded.map((ids) => [...ids, ...Array(length - ids.length).fill(padId)]),
+      attentionMask: encoded.map((ids) => [
+        ...Array(ids.length).fill(1),
+        ...Array(length - ids.length).fill(0),
+      ]),
+    };
+  }
+}
@@ -1,32 +1,108 @@
 import { LangChainParams } from "@/aiParams";
+import EmbeddingCache from "@/embeddingCache";
 import EncryptionService from "@/encryptionService";
 import { CustomError } from "@/error";
 import EmbeddingsManager from "@/LLMProviders/embeddingManager";
+import DocumentPathIndex from "@/search/documentPathIndex";
+import { createEmbeddingBatches } from "@/search/embeddingBatches";
+import {
+  EmbeddingModelInfo,
+  findEmbeddingModelKey,
+  isIndexBuiltWith,
+} from "@/search/indexMigration";
+import { loadIndexRules, toIndexRuleFile } from "@/search/indexRules";
+import { getIndexStatus, IndexStatus } from "@/search/indexStatus";
+import { FILTER_SCHEMA, getFolderFilterValues } from "@/search/queryFilters";
+import { getMeanVector, RelatedChunk } from "@/search/relatedNotes";
+import ShardedIndexStore, {
+  FileHashRecord,
+  INDEX_FORMAT_VERSION,
+  IndexManifest,
+} from "@/search/shardedIndexStore";
+import {
+  ExtractedSection,
+  getExtractedText,
+  getTextExtractor,
+  isIndexedFileType,
+} from "@/search/textExtractors";
 import { CopilotSettings } from "@/settings/SettingsPage";
-import { areEmbeddingModelsSame, getNotesFromTags, isPathInList } from "@/utils";
-import VectorDBManager from "@/vectorDBManager";
+import VectorDBManager, { OramaDocument } from "@/vectorDBManager";
 import { Embeddings } from "@langchain/core/embeddings";
-import { create, load, Orama, remove, removeMultiple, save, search } from "@orama/orama";
+import {
+  count,
+  create,
+  getByID,
+  insertMultiple,
+  load,
+  Orama,
+  removeMultiple,
+  search,
+} from "@orama/orama";
 import { MD5 } from "crypto-js";
-import { App, Notice } from "obsidian";
-import { VAULT_VECTOR_STORE_STRATEGY } from "./constants";
+import { App, getAllTags, Notice, TFile } from "obsidian";
+import { EVENT_NAMES, VAULT_VECTOR_STORE_STRATEGY } from "./constants";
+
+// Documents fetched per search when paging through the whole index
+const INDEX_PAGE_SIZE = 1000;
+// Embedding groups between saves of an index built for a new model, so a restart loses little work
+const MIGRATION_SAVE_INTERVAL = 20;
+
+// One file in the index inspector
+export interface IndexedFileInfo {
+  path: string;
+  chunkCount: number;
+  embeddingModel: string;
+  // Modification time of the file when it was indexed, and when it was indexed
+  mtime?: number;
+  indexedAt?: number;
+  status: IndexStatus;
+}
+
+// An index in memory, with what is needed to save it incrementally
+interface VectorIndex {
+  db: Orama<any>;
+  store: ShardedIndexStore;
+  fileHashes: Record<string, FileHashRecord>;
+  pathIndex: DocumentPathIndex;
+  // Shards on disk and their document counts, as of the last save
+  savedShards: Record<string, number>;
+  dirtyShards: Set<string>;
+  rewriteAllShards: boolean;
+  // Shards that could not be loaded, their notes are embedded again
+  damagedShards: Set<string>;
+  // Model the embeddings were made with, undefined for an empty legacy index
+  embeddingModel?: string;
+  embeddingModelKey?: string;
+}
 
 class VectorStoreManager {
   private app: App;
   private settings: CopilotSettings;
   private encryptionService: EncryptionService;
-  private oramaDb: Orama<any>;
+  // The index Vault QA searches
+  private index: VectorIndex;
+  // Index being built for a newly selected embedding model, swapped in once complete
+  private shadowIndex: VectorIndex | null = null;
+  private embeddingCache: EmbeddingCache;
   private dbPath: string;
+  private vectorLengths = new Map<string, number>();
   private embeddingsManager: EmbeddingsManager;
   private getLangChainParams: () => LangChainParams;
+  // Dispatches INDEX_SAVED after each save, e.g. of changes the background indexer made
+  indexEmitter = new EventTarget();
 
+  private isIndexingVault = false;
   private isIndexingPaused = false;
   private isIndexingCancelled = false;
   private currentIndexingNotice: Notice | null = null;
   private indexNoticeMessage: HTMLSpanElement | null = null;
   private indexedCount = 0;
   private totalFilesToIndex = 0;
-  private initializationPromise: Promise<void>;
+  private embeddedChunkCount = 0;
+  // Set while the indexing notice reports on a new index for this model
+  private migrationModel: string | null = null;
+  // Started by the first caller that needs the index, see waitForInitialization
+  private initializationPromise: Promise<void> | null = null;
   constructor(
     app: App,
     settings: CopilotSettings,
@@ -39,35 +115,83 @@ class VectorStoreManager {
     this.getLangChainParams = getLangChainParams;
 
     this.dbPath = this.getDbPath();
+    this.embeddingCache = new EmbeddingCache(
+      this.app,
+      `${this.app.vault.configDir}/copilot-embedding-cache-${this.getVaultIdentifier()}`
+    );
     this.embeddingsManager = EmbeddingsManager.getInstance(
       this.getLangChainParams,
       this.encryptionService,
-      this.settings.activeEmbeddingModels
+      this.settings.activeEmbeddingModels,
+      this.app
     );
 
-    // Initialize the database asynchronously
-    this.initializationPromise = this.initializeDB()
-      .then((db) => {
-        this.oramaDb = db;
-        console.log("Copilot database initialized successfully.");
-
-        // Perform any operations that depend on the initialized database here
-        this.performPostInitializationTasks();
-      })
-      .catch((error) => {
-        console.error("Failed to initialize Copilot database:", error);
-      });
+    this.loadIfNeededOnStartup();
 
     // Initialize the rate limiter
     VectorDBManager.initialize({
       getEmbeddingRequestsPerSecond: () => this.settings.embeddingRequestsPerSecond,
+      getChunkSize: () => this.settings.chunkSize,
+      getChunkOverlap: () => this.settings.chunkOverlap,
+      getEmbeddingBatchSize: () => this.settings.embeddingBatchSize,
+      getEmbeddingBatchTokenLimit: () => this.settings.embeddingBatchTokenLimit,
       debug: this.settings.debug,
+      embeddingCache: this.embeddingCache,
     });
   }
 
+  /**
+   * The index is loaded lazily, on first use, so sessions that never use Vault QA
+   * never read it. It is loaded right away when it will be needed anyway: to index
+   * the vault on startup, or to resume a model migration cut short by a restart.
+   */
+  private async loadIfNeededOnStartup() {
+    const resumesMigration =
+      (await this.app.vault.adapter
+        .exists(`${this.getShadowDbPath()}/manifest.json`)
+        .catch(() => false)) ||
+      (await this.app.vault.adapter.exists(this.getSwapMarkerPath()).catch(() => false));
+    if (
+      resumesMigration ||
+      this.settings.indexVaultToVectorStore === VAULT_VECTOR_STORE_STRATEGY.ON_STARTUP
+    ) {
+      await this.waitForInitialization();
+    }
+  }
+
+  private async initialize(): Promise<void> {
+    try {
+      await this.embeddingCache.load();
+      this.index = await this.initializeDB();
+      console.log("Copilot database initialized successfully.");
+
+      // Perform any operations that depend on the initialized database here, they wait for it
+      this.performPostInitializationTasks();
+    } catch (error) {
+      console.error("Failed to initialize Copilot database:", error);
+    }
+  }
+
   private async performPostInitializationTasks() {
-    // Optionally index the vault on startup
-    if (this.settings.indexVaultToVectorStore === VAULT_VECTOR_STORE_STRATEGY.ON_STARTUP) {
+    // Exclusions may have changed since the last session
+    try {
+      await this.purgeExcludedFiles();
+    } catch (err) {
+      console.error("Error removing excluded files from the vector store:", err);
+    }
+    if (this.settings.indexVaultToVectorStore !== VAULT_VECTOR_STORE_STRATEGY.NEVER) {
+      try {
+        await this.reembedDamagedShards();
+      } catch (err) {
+        console.error("Error embedding the notes of damaged index shards again:", err);
+      }
+    }
+    // Optionally index the vault on startup. A model migration cut short by a restart
+    // is always resumed, the user started it already.
+    if (
+      this.shadowIndex ||
+      this.settings.indexVaultToVectorStore === VAULT_VECTOR_STORE_STRATEGY.ON_STARTUP
+    ) {
       try {
         await this.indexVaultToVectorStore();
       } catch (err) {
@@ -77,8 +201,41 @@ class VectorStoreManager {
     }
   }
 
+  // Notes of shards left out on load, e.g. because a save was interrupted
+  private async reembedDamagedShards() {
+    const damagedShards = this.index.damagedShards;
+    if (damagedShards.size === 0) return;
+    const files = this.getIndexableFiles().filter((file) =>
+      damagedShards.has(ShardedIndexStore.getShardId(file.path))
+    );
+    const reembeddedCount = await this.reindexFilesIfChanged(files);
+    damagedShards.clear();
+    await this.saveDB();
+    console.log(`Embedded ${reembeddedCount} notes of damaged index shards again.`);
+  }
+
   private getDbPath(): string {
-    return `${this.app.vault.configDir}/copilot-index-${this.getVaultIdentifier()}.json`;
+    return `${this.app.vault.configDir}/copilot-index-${this.getVaultIdentifier()}`;
+  }
+
+  // Where the index for a new embedding model is built
+  private getShadowDbPath(): string {
+    return `${this.getDbPath()}-next`;
+  }
+
+  // Where the index replaced by a model migration is kept until the user deletes it
+  private getPreviousDbPath(): string {
+    return `${this.getDbPath()}-previous`;
+  }
+
+  // Written while the new index replaces the active one, see finishInterruptedSwap
+  private getSwapMarkerPath(): string {
+    return `${this.getDbPath()}-swap.json`;
+  }
+
+  // Indexes used to be saved as one JSON file, they are migrated to shards on load
+  private getLegacyDbPath(): string {
+    return `${this.getDbPath()}.json`;
   }
 
   private createDynamicSchema(vectorLength: number) {
@@ -94,11 +251,13 @@ class VectorStoreManager {
       mtime: "number",
       tags: "string[]",
       extension: "string",
+      ...FILTER_SCHEMA,
     };
   }
 
-  private async initializeDB(): Promise<Orama<any>> {
+  private async initializeDB(): Promise<VectorIndex> {
     this.dbPath = this.getDbPath();
+    const store = new ShardedIndexStore(this.app, this.dbPath);
     // Ensure the config directory exists
     const configDir = this.app.vault.configDir;
     if (!(await this.app.vault.adapter.exists(configDir))) {
@@ -106,41 +265,76 @@ class VectorStoreManager {
       await this.app.vault.adapter.mkdir(configDir);
     }
 
+    await this.finishInterruptedSwap();
+    this.shadowIndex = await this.loadShadowIndex();
     try {
-      if (await this.app.vault.adapter.exists(this.dbPath)) {
-        // Load existing database
-        const savedDb = await this.app.vault.adapter.read(this.dbPath);
-        const parsedDb = JSON.parse(savedDb);
-
-        // Create a new database with the same schema as the saved one
-        const schema = parsedDb.schema;
-        const newDb = await create({ schema });
-
-        // Load the data into the new database
-        await load(newDb, parsedDb);
-
-        console.log(`Loaded existing Orama database for ${this.dbPath} from disk.`);
-        return newDb;
-      } else {
-        // Create new database
-        return await this.createNewDb();
+      const manifest = await store.readManifest();
+      if (manifest) {
+        return await this.loadShardedDb(store, manifest);
+      }
+      const legacyDbPath = this.getLegacyDbPath();
+      if (await this.app.vault.adapter.exists(legacyDbPath)) {
+        return await this.migrateLegacyDb(store, legacyDbPath);
       }
+      // Create new database
+      return await this.createNewDb(store);
     } catch (error) {
       console.error(`Error initializing Orama database:`, error);
-      return await this.createNewDb();
+      return await this.createNewDb(store);
     }
   }
 
-  private async createNewDb(): Promise<Orama<any>> {
-    const embeddingInstance = this.embeddingsManager.getEmbeddingsAPI();
-    if (!embeddingInstance) {
-      throw new CustomError("Embedding instance not found.");
+  /**
+   * Complete a swap of the new index that Obsidian closed in the middle of. Without
+   * the marker the new index is still swapped in when the active index is gone,
+   * it is all there is to search.
+   */
+  private async finishInterruptedSwap(): Promise<void> {
+    const adapter = this.app.vault.adapter;
+    const markerPath = this.getSwapMarkerPath();
+    const store = new ShardedIndexStore(this.app, this.dbPath);
+    const shadowStore = new ShardedIndexStore(this.app, this.getShadowDbPath());
+    const hasMarker = await adapter.exists(markerPath);
+    const hasIndex =
+      (await adapter.exists(`${store.dirPath}/manifest.json`)) ||
+      (await adapter.exists(this.getLegacyDbPath()));
+    const hasShadowIndex = await adapter.exists(`${shadowStore.dirPath}/manifest.json`);
+    if (!hasMarker && (hasIndex || !hasShadowIndex)) return;
+
+    try {
+      if (hasShadowIndex) {
+        if (hasIndex) {
+          const previousStore = new ShardedIndexStore(this.app, this.getPreviousDbPath());
+          await previousStore.removeAll();
+          await store.moveTo(previousStore.dirPath);
+        } else {
+          // Shards without a manifest can't be loaded anyway
+          await store.removeAll();
+        }
+        await shadowStore.moveTo(store.dirPath);
+        console.log("Finished swapping in the new Copilot index.");
+      }
+      if (hasMarker) await adapter.remove(markerPath);
+    } catch (error) {
+      console.error("Error finishing the swap of the new Copilot index:", error);
     }
+  }
 
-    const vectorLength = await this.getVectorLength(embeddingInstance);
-    const schema = this.createDynamicSchema(vectorLength);
+  // A model migration that was still running when Obsidian closed
+  private async loadShadowIndex(): Promise<VectorIndex | null> {
+    const store = new ShardedIndexStore(this.app, this.getShadowDbPath());
+    try {
+      const manifest = await store.readManifest();
+      return manifest ? await this.loadShardedDb(store, manifest) : null;
+    } catch (error) {
+      console.error("Error loading the index being built for the new embedding model:", error);
+      await store.removeAll();
+      return null;
+    }
+  }
 
-    const db = await create({
+  private async createDb(schema: Record<string, any>): Promise<Orama<any>> {
+    return await create({
       schema,
       components: {
         tokenizer: {
@@ -149,43 +343,413 @@ class VectorStoreManager {
         },
       },
     });
+  }
+
+  private createIndex(
+    db: Orama<any>,
+    store: ShardedIndexStore,
+    embeddingModel?: string,
+    embeddingModelKey?: string
+  ): VectorIndex {
+    return {
+      db,
+      store,
+      fileHashes: {},
+      pathIndex: new DocumentPathIndex(),
+      savedShards: {},
+      dirtyShards: new Set(),
+      rewriteAllShards: false,
+      damagedShards: new Set(),
+      embeddingModel,
+      // Indexes saved before the key was recorded only know the model name
+      embeddingModelKey:
+        embeddingModelKey ??
+        findEmbeddingModelKey(this.settings.activeEmbeddingModels, embeddingModel),
+    };
+  }
+
+  /**
+   * Load the index one shard at a time, yielding between shards so a large index
+   * doesn't freeze the UI while Obsidian starts.
+   *
+   * A shard that can't be read, or that a save didn't finish, is left out. Its notes
+   * lose their content hashes, so they are embedded again, and the shard is rewritten
+   * on the next save. The rest of the index is kept.
+   */
+  private async loadShardedDb(
+    store: ShardedIndexStore,
+    manifest: IndexManifest
+  ): Promise<VectorIndex> {
+    const db = await this.createDb(manifest.schema);
+    const index = this.createIndex(db, store, manifest.embeddingModel, manifest.embeddingModelKey);
+    index.savedShards = { ...manifest.shards };
+    index.damagedShards = await store.readPendingShards();
+    for (const [shardId, docCount] of Object.entries(manifest.shards)) {
+      if (index.damagedShards.has(shardId)) continue;
+      try {
+        const docs = await store.readShard(shardId, manifest.vectorLength);
+        if (docs.length !== docCount) {
+          throw new Error(`Expected ${docCount} documents, found ${docs.length}`);
+        }
+        await insertMultiple(db, docs, 500);
+        docs.forEach((doc) => index.pathIndex.add(doc.path, doc.id));
+        index.embeddingModel ??= docs[0]?.embeddingModel;
+      } catch (error) {
+        console.error(`Error loading index shard ${shardId} from ${store.dirPath}:`, error);
+        index.damagedShards.add(shardId);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    index.embeddingModelKey ??= findEmbeddingModelKey(
+      this.settings.activeEmbeddingModels,
+      index.embeddingModel
+    );
+    index.fileHashes = manifest.fileHashes ?? {};
+    for (const path of Object.keys(index.fileHashes)) {
+      if (index.damagedShards.has(ShardedIndexStore.getShardId(path))) {
+        delete index.fileHashes[path];
+      }
+    }
+    index.damagedShards.forEach((shardId) => index.dirtyShards.add(shardId));
+    if (index.damagedShards.size > 0) {
+      console.warn(
+        `Left out ${index.damagedShards.size} damaged shards of ${store.dirPath}, their notes will be embedded again.`
+      );
+    }
+
     console.log(
-      `Created new Orama database for ${this.dbPath}. ` +
-        `Embedding model: ${EmbeddingsManager.getModelName(embeddingInstance)} with vector length ${vectorLength}.`
+      `Loaded existing Orama database for ${store.dirPath} from ${Object.keys(manifest.shards).length} shards.`
     );
-    return db;
+    return index;
+  }
+
+  private async migrateLegacyDb(
+    store: ShardedIndexStore,
+    legacyDbPath: string
+  ): Promise<VectorIndex> {
+    const savedDb = await this.app.vault.adapter.read(legacyDbPath);
+    const parsedDb = JSON.parse(savedDb);
+
+    // Create a new database with the same schema as the saved one
+    const newDb = await this.createDb(parsedDb.schema);
+
+    // Load the data into the new database
+    await load(newDb, parsedDb);
+    const sample = await search(newDb, { term: "", limit: 1 });
+    const index = this.createIndex(newDb, store, sample.hits[0]?.document.embeddingModel as string);
+    index.fileHashes = parsedDb.fileHashes ?? {};
+    await this.rebuildPathIndex(index);
+
+    index.rewriteAllShards = true;
+    if (await this.saveIndex(index)) {
+      await this.app.vault.adapter.remove(legacyDbPath);
+      console.log(`Migrated Orama database from ${legacyDbPath} to ${store.dirPath}.`);
+    }
+    return index;
+  }
+
+  private async createNewDb(store: ShardedIndexStore): Promise<VectorIndex> {
+    const embeddingInstance = this.embeddingsManager.getEmbeddingsAPI();
+    if (!embeddingInstance) {
+      throw new CustomError("Embedding instance not found.");
+    }
+
+    const vectorLength = await this.getVectorLength(embeddingInstance);
+    const schema = this.createDynamicSchema(vectorLength);
+    const embeddingModel = EmbeddingsManager.getModelName(embeddingInstance);
+
+    const db = await this.createDb(schema);
+    const index = this.createIndex(
+      db,
+      store,
+      embeddingModel,
+      this.getLangChainParams().embeddingModelKey
+    );
+    console.log(
+      `Created new Orama database for ${store.dirPath}. ` +
+        `Embedding model: ${embeddingModel} with vector length ${vectorLength}.`
+    );
+    return index;
   }
 
   private async getVectorLength(embeddingInstance: Embeddings): Promise<number> {
+    // Embedding a sample text costs a request, the length only changes with the model
+    const modelName = EmbeddingsManager.getModelName(embeddingInstance);
+    const knownLength = this.vectorLengths.get(modelName);
+    if (knownLength) return knownLength;
     const sampleText = "Sample text for embedding";
     const sampleEmbedding = await embeddingInstance.embedQuery(sampleText);
+    this.vectorLengths.set(modelName, sampleEmbedding.length);
     return sampleEmbedding.length;
   }
 
-  private async ensureCorrectSchema(db: Orama<any>, embeddingInstance: Embeddings): Promise<void> {
-    const currentVectorLength = await this.getVectorLength(embeddingInstance);
-    const dbSchema = db.schema;
+  private getIndexModelInfo(index: VectorIndex): EmbeddingModelInfo {
+    return {
+      embeddingModelKey: index.embeddingModelKey,
+      embeddingModel: index.embeddingModel,
+      vectorLength: ShardedIndexStore.getVectorLength(index.db.schema),
+    };
+  }
 
-    if (dbSchema.embedding !== `vector[${currentVectorLength}]`) {
-      console.log(
-        `Schema mismatch detected. Rebuilding database with new vector length: ${currentVectorLength}`
-      );
-      await this.clearVectorStore();
+  /**
+   * The index new embeddings go to. That is the active index, unless it was built
+   * with another embedding model. Then a new index is built next to it and swapped
+   * in once complete, while Vault QA keeps searching the old one.
+   *
+   * @return {VectorIndex | null} null if the model changed and startMigration is false
+   */
+  private async getIndexToUpdate(
+    embeddingInstance: Embeddings,
+    startMigration: boolean
+  ): Promise<VectorIndex | null> {
+    const current: EmbeddingModelInfo = {
+      embeddingModelKey: this.getLangChainParams().embeddingModelKey,
+      embeddingModel: EmbeddingsManager.getModelName(embeddingInstance),
+      vectorLength: await this.getVectorLength(embeddingInstance),
+    };
+    // Checked first, the active index may match too, e.g. one just created empty
+    if (this.shadowIndex && isIndexBuiltWith(this.getIndexModelInfo(this.shadowIndex), current)) {
+      return this.shadowIndex;
+    }
+    // Switched back to the model of the active index, or the new index was built for
+    // a model selected in between
+    if (this.shadowIndex) await this.discardShadowIndex();
+    if (isIndexBuiltWith(this.getIndexModelInfo(this.index), current)) {
+      return this.index;
     }
+    // Nothing to keep serving, so the empty index is replaced right away
+    if ((await count(this.index.db)) === 0) {
+      const store = this.index.store;
+      this.index = await this.createNewDb(store);
+      // Drops shards that were left out as damaged, they hold the other model's vectors
+      await store.removeAll();
+      return this.index;
+    }
+    if (!startMigration) return null;
+
+    this.shadowIndex =
+      (await this.restorePreviousIndex(current)) ??
+      (await this.createNewDb(new ShardedIndexStore(this.app, this.getShadowDbPath())));
+    // Saved right away, so the migration resumes after a restart
+    await this.saveIndex(this.shadowIndex);
+    new Notice(
+      `Embedding model changed to ${current.embeddingModel}. Copilot is building a new index in the background, Vault QA keeps using the current index until it is complete.`
+    );
+    console.log(
+      `Embedding model changed from ${this.index.embeddingModel} to ${current.embeddingModel}, building a new index.`
+    );
+    return this.shadowIndex;
   }
 
-  private async saveDB() {
+  /**
+   * Reuse the index kept from before the last migration if it was built with the
+   * selected model, e.g. after switching back to it. Only notes edited since then
+   * need new embeddings.
+   */
+  private async restorePreviousIndex(current: EmbeddingModelInfo): Promise<VectorIndex | null> {
+    const previousStore = new ShardedIndexStore(this.app, this.getPreviousDbPath());
     try {
-      const rawData = await save(this.oramaDb);
-      const dataToSave = {
-        schema: this.oramaDb.schema,
-        ...rawData,
-      };
-      await this.app.vault.adapter.write(this.dbPath, JSON.stringify(dataToSave));
-      console.log(`Saved Orama database to ${this.dbPath}.`);
+      const manifest = await previousStore.readManifest();
+      if (
+        !manifest?.embeddingModel ||
+        !isIndexBuiltWith(
+          { embeddingModel: manifest.embeddingModel, vectorLength: manifest.vectorLength },
+          current
+        )
+      ) {
+        return null;
+      }
+      const store = await previousStore.moveTo(this.getShadowDbPath());
+      console.log(`Reusing the previous Copilot index built with ${manifest.embeddingModel}.`);
+      return await this.loadShardedDb(store, manifest);
+    } catch (error) {
+      console.error("Error restoring the previous Copilot index:", error);
+      return null;
+    }
+  }
+
+  private async discardShadowIndex(): Promise<void> {
+    if (!this.shadowIndex) return;
+    console.log(`Discarding the new index for ${this.shadowIndex.embeddingModel}.`);
+    await this.shadowIndex.store.removeAll();
+    this.shadowIndex = null;
+  }
+
+  /**
+   * Catch the new index up with notes edited or deleted while it was built, then
+   * make it the active index. The replaced index stays on disk until the user deletes it.
+   */
+  private async swapInShadowIndex(embeddingInstance: Embeddings): Promise<void> {
+    const shadowIndex = this.shadowIndex;
+    if (!shadowIndex) return;
+    const files = this.getIndexableFiles();
+    const excludedFiles = await this.getExcludedFiles();
+    await this.indexChangedFiles(
+      shadowIndex,
+      files.filter((file) => !excludedFiles.has(file.path)),
+      embeddingInstance
+    );
+    const filePaths = new Set(files.map((file) => file.path));
+    for (const path of shadowIndex.pathIndex.getPaths()) {
+      if (!filePaths.has(path)) await this.removeDocsFrom(shadowIndex, path);
+    }
+    // Both indexes are saved with their models recorded before they change places
+    if (!(await this.saveIndex(shadowIndex)) || !(await this.saveIndex(this.index))) {
+      new Notice("Error saving the new Copilot index. Check the console for details.");
+      return;
+    }
+
+    const previousStore = new ShardedIndexStore(this.app, this.getPreviousDbPath());
+    await previousStore.removeAll();
+    const previousModel = this.index.embeddingModel;
+    // Swapping takes two renames, the marker lets the next start finish an interrupted swap
+    await this.app.vault.adapter.write(
+      this.getSwapMarkerPath(),
+      JSON.stringify({ from: previousModel, to: shadowIndex.embeddingModel })
+    );
+    this.index.store = await this.index.store.moveTo(previousStore.dirPath);
+    shadowIndex.store = await shadowIndex.store.moveTo(this.dbPath);
+    await this.app.vault.adapter.remove(this.getSwapMarkerPath());
+    this.index = shadowIndex;
+    this.shadowIndex = null;
+    console.log(`Swapped in the new index for ${shadowIndex.embeddingModel}.`);
+
+    const frag = document.createDocumentFragment();
+    frag.createEl("div", {
+      text: `Vault QA now uses the new index for ${shadowIndex.embeddingModel}. The index for ${previousModel} is kept in case you switch back.`,
+    });
+    const deleteButton = frag.createEl("button", { text: "Delete old index" });
+    const notice = new Notice(frag, 0);
+    deleteButton.addEventListener("click", async (event) => {
+      event.stopPropagation();
+      notice.hide();
+      await this.deletePreviousIndex();
+    });
+  }
+
+  // Delete the index kept from before the last embedding model change
+  public async deletePreviousIndex(): Promise<void> {
+    try {
+      await new ShardedIndexStore(this.app, this.getPreviousDbPath()).removeAll();
+      new Notice("Previous Copilot index deleted.");
+    } catch (error) {
+      console.error("Error deleting the previous Copilot index:", error);
+      new Notice("An error occurred while deleting the previous Copilot index.");
+    }
+  }
+
+  // The indexes that file changes apply to, including one being built for a new model
+  private getIndexes(): VectorIndex[] {
+    return this.shadowIndex ? [this.index, this.shadowIndex] : [this.index];
+  }
+
+  // Page through the whole index to map every path to its chunk ids
+  private async rebuildPathIndex(index: VectorIndex): Promise<void> {
+    index.pathIndex.clear();
+    const total = await count(index.db);
+    for (let offset = 0; offset < total; offset += INDEX_PAGE_SIZE) {
+      const result = await search(index.db, { term: "", limit: INDEX_PAGE_SIZE, offset });
+      for (const hit of result.hits) {
+        index.pathIndex.add(hit.document.path, hit.id);
+      }
+    }
+  }
+
+  private markPathsDirty(index: VectorIndex, paths: Iterable<string>) {
+    for (const path of paths) {
+      index.dirtyShards.add(ShardedIndexStore.getShardId(path));
+    }
+  }
+
+  /**
+   * The documents of the given shards, or of every shard if null. Documents are
+   * looked up by id through the path index, so saving a few changed notes doesn't
+   * go through the whole index.
+   */
+  private getDocsByShard(
+    index: VectorIndex,
+    shardIds: Set<string> | null
+  ): Map<string, OramaDocument[]> {
+    const docsByShard = new Map<string, OramaDocument[]>();
+    for (const path of index.pathIndex.getPaths()) {
+      const shardId = ShardedIndexStore.getShardId(path);
+      if (shardIds && !shardIds.has(shardId)) continue;
+      const docs = index.pathIndex
+        .getIds(path)
+        .map((id) => getByID(index.db, id) as OramaDocument | undefined)
+        .filter((doc): doc is OramaDocument => doc !== undefined);
+      docsByShard.set(shardId, [...(docsByShard.get(shardId) ?? []), ...docs]);
+    }
+    return docsByShard;
+  }
+
+  /**
+   * Save an index, rewriting only the shards that contain changed notes.
+   *
+   * @return {boolean} whether the index was saved
+   */
+  private async saveIndex(index: VectorIndex): Promise<boolean> {
+    try {
+      const schema = index.db.schema;
+      const vectorLength = ShardedIndexStore.getVectorLength(schema);
+      const docsByShard = this.getDocsByShard(
+        index,
+        index.rewriteAllShards ? null : index.dirtyShards
+      );
+      const shardsToWrite = index.rewriteAllShards
+        ? new Set([...Object.keys(index.savedShards), ...docsByShard.keys()])
+        : new Set(index.dirtyShards);
+
+      // Listed until the manifest is saved, so a load after an interrupted save drops them
+      if (shardsToWrite.size > 0) await index.store.writePendingShards(shardsToWrite);
+      for (const shardId of shardsToWrite) {
+        const docs = docsByShard.get(shardId) ?? [];
+        if (docs.length > 0) {
+          await index.store.writeShard(shardId, docs, vectorLength);
+          index.savedShards[shardId] = docs.length;
+        } else {
+          await index.store.removeShard(shardId);
+          delete index.savedShards[shardId];
+        }
+      }
+
+      await index.store.writeManifest({
+        version: INDEX_FORMAT_VERSION,
+        schema,
+        vectorLength,
+        shards: index.savedShards,
+        fileHashes: index.fileHashes,
+        embeddingModel: index.embeddingModel,
+        embeddingModelKey: index.embeddingModelKey,
+      });
+      await index.store.clearPendingShards();
+      console.log(
+        `Saved Orama database to ${index.store.dirPath}, ${shardsToWrite.size} shards rewritten.`
+      );
+      index.dirtyShards.clear();
+      index.rewriteAllShards = false;
+      return true;
     } catch (error) {
-      console.error(`Error saving Orama database to ${this.dbPath}:`, error);
+      console.error(`Error saving Orama database to ${index.store.dirPath}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Save the index, and the index being built for a new embedding model if there is one.
+   *
+   * @return {boolean} whether everything was saved
+   */
+  public async saveDB(): Promise<boolean> {
+    // Nothing can have changed in an index that was never loaded
+    if (!this.index) return true;
+    let saved = true;
+    for (const index of this.getIndexes()) {
+      saved = (await this.saveIndex(index)) && saved;
     }
+    await this.embeddingCache.save();
+    this.indexEmitter.dispatchEvent(new Event(EVENT_NAMES.INDEX_SAVED));
+    return saved;
   }
 
   private getVaultIdentifier(): string {
@@ -194,13 +758,57 @@ class VectorStoreManager {
   }
 
   public getDb(): Orama<any> {
-    return this.oramaDb;
+    // Unset when loading failed, e.g. without an embedding model to create an index for
+    if (!this.index) {
+      throw new CustomError(
+        "The Copilot index is not loaded. Check the console for the error that stopped it from loading."
+      );
+    }
+    return this.index.db;
+  }
+
+  /**
+   * Embeddings for searching the active index. While an index for a newly selected
+   * model is built that is still the previous model, whose vectors the index holds.
+   */
+  public getQueryEmbeddings(): Embeddings | undefined {
+    const indexModelKey = this.index?.embeddingModelKey;
+    if (indexModelKey && indexModelKey !== this.getLangChainParams().embeddingModelKey) {
+      try {
+        return this.embeddingsManager.getEmbeddingsAPI(indexModelKey);
+      } catch (error) {
+        console.error(`Error creating ${indexModelKey} embeddings to search the index:`, error);
+      }
+    }
+    return this.embeddingsManager.getEmbeddingsAPI();
   }
 
   public getEmbeddingsManager(): EmbeddingsManager {
     return this.embeddingsManager;
   }
 
+  /**
+   * Embed a query and texts that aren't indexed notes, e.g. saved conversations, with
+   * the embeddings of the index. The texts go through the same batching, rate limit
+   * and embedding cache as notes.
+   */
+  public async embedForSearch(
+    query: string,
+    texts: string[]
+  ): Promise<{ queryVector: number[]; vectors: (number[] | undefined)[] }> {
+    const embeddingsAPI = this.getQueryEmbeddings();
+    if (!embeddingsAPI) {
+      throw new CustomError("Embedding instance not found.");
+    }
+    // Only the cache is needed, not the index
+    await this.embeddingCache.load();
+    const embeddingModel = EmbeddingsManager.getModelName(embeddingsAPI);
+    const vectors = await VectorDBManager.embedTexts(embeddingsAPI, embeddingModel, texts);
+    await this.embeddingCache.save();
+    const queryVector = await embeddingsAPI.embedQuery(query);
+    return { queryVector, vectors };
+  }
+
   public pauseIndexing() {
     this.isIndexingPaused = true;
     this.updateIndexingNoticeMessage();
@@ -214,7 +822,10 @@ class VectorStoreManager {
   private updateIndexingNoticeMessage() {
     if (this.indexNoticeMessage) {
       const status = this.isIndexingPaused ? " (Paused)" : "";
-      this.indexNoticeMessage.textContent = `Copilot is indexing your vault...\n${this.indexedCount}/${this.totalFilesToIndex} files processed.${status}\nExclusions: ${
+      const action = this.migrationModel
+        ? `Copilot is building a new index for ${this.migrationModel}...`
+        : "Copilot is indexing your vault...";
+      this.indexNoticeMessage.textContent = `${action}\n${this.indexedCount}/${this.totalFilesToIndex} files processed, ${this.embeddedChunkCount} chunks embedded.${status}\nExclusions: ${
         this.settings.qaExclusions ? this.settings.qaExclusions : "None"
       }`;
     }
@@ -247,38 +858,46 @@ class VectorStoreManager {
     return new Notice(frag, 0);
   }
 
+  // Paths of the vault files the include and exclude rules or the indexed file types keep out
   private async getExcludedFiles(): Promise<Set<string>> {
-    const excludedFiles = new Set<string>();
-
-    if (this.settings.qaExclusions) {
-      const exclusions = this.settings.qaExclusions.split(",").map((item) => item.trim());
-
-      for (const exclusion of exclusions) {
-        if (exclusion.startsWith("#")) {
-          // Tag-based exclusion
-          const tagName = exclusion.slice(1);
-          const taggedFiles = await getNotesFromTags(this.app.vault, [tagName]);
-          taggedFiles.forEach((file) => excludedFiles.add(file.path));
-        } else if (exclusion.startsWith("*")) {
-          // File-extension-based exclusion
-          const extensionName = exclusion.slice(1);
-          this.app.vault.getFiles().forEach((file) => {
-            if (file.name.toLowerCase().contains(extensionName.toLowerCase())) {
-              excludedFiles.add(file.path);
-            }
-          });
-        } else {
-          // Path-based exclusion
-          this.app.vault.getFiles().forEach((file) => {
-            if (isPathInList(file.path, exclusion)) {
-              excludedFiles.add(file.path);
-            }
-          });
-        }
+    const rules = await loadIndexRules(this.app, this.settings);
+    return new Set(
+      this.app.vault
+        .getFiles()
+        .filter(
+          (file) => !this.isIndexableFile(file) || !rules.isIndexed(toIndexRuleFile(this.app, file))
+        )
+        .map((file) => file.path)
+    );
+  }
+
+  /**
+   * Remove indexed files that the rules exclude now, e.g. after a new exclusion
+   * or a tag that is excluded was added to a note.
+   *
+   * @return {number} the number of files removed from the index
+   */
+  private async removeExcludedFiles(excludedFiles: Set<string>): Promise<number> {
+    const removedPaths = new Set<string>();
+    for (const index of this.getIndexes()) {
+      const pathsToRemove = Object.keys(index.fileHashes).filter((path) => excludedFiles.has(path));
+      for (const path of pathsToRemove) {
+        await this.removeDocsFrom(index, path);
+        delete index.fileHashes[path];
+        removedPaths.add(path);
       }
     }
+    if (removedPaths.size > 0) {
+      console.log("Copilot index: Removed excluded files:", [...removedPaths].join(", "));
+    }
+    return removedPaths.size;
+  }
 
-    return excludedFiles;
+  public async purgeExcludedFiles(): Promise<number> {
+    await this.waitForInitialization();
+    const removedCount = await this.removeExcludedFiles(await this.getExcludedFiles());
+    if (removedCount > 0) await this.saveDB();
+    return removedCount;
   }
 
   public async getAllNonExcludedNotesContent(): Promise<string> {
@@ -296,85 +915,322 @@ class VectorStoreManager {
     return allContent;
   }
 
+  public isIndexingInProgress(): boolean {
+    return this.isIndexingVault;
+  }
+
+  // Notes plus the other file types turned on in the settings, e.g. PDFs and canvases
+  public isIndexableFile(file: TFile): boolean {
+    return isIndexedFileType(file.extension, this.settings.qaExtraFileTypes);
+  }
+
+  private getIndexableFiles(): TFile[] {
+    return this.app.vault.getFiles().filter((file) => this.isIndexableFile(file));
+  }
+
+  /**
+   * Extract the text of a file if it changed since it was last embedded,
+   * or return null if the recorded content hash still matches.
+   */
+  private async getSectionsIfChanged(
+    index: VectorIndex,
+    file: TFile,
+    legacyLatestMtime: number,
+    overwrite?: boolean
+  ): Promise<ExtractedSection[] | null> {
+    const record = index.fileHashes[file.path];
+    // Same mtime as last time, no need to even read the file
+    if (!overwrite && record && record.mtime === file.stat.mtime) return null;
+
+    const extractor = getTextExtractor(file.extension);
+    if (!extractor) return null;
+    const sections = await extractor.extract(file, this.app.vault);
+    if (overwrite) return sections;
+
+    const hash = VectorDBManager.getDocHash(getExtractedText(sections));
+    if (record) {
+      if (record.hash !== hash) return sections;
+      // Touched but not changed, e.g. restored from a backup
+      record.mtime = file.stat.mtime;
+      return null;
+    }
+
+    if (legacyLatestMtime && file.stat.mtime <= legacyLatestMtime) {
+      // Indexed before content hashes were recorded, seed the hash instead of re-embedding
+      index.fileHashes[file.path] = { hash, mtime: file.stat.mtime };
+      return null;
+    }
+    return sections;
+  }
+
+  /**
+   * Group files so that each group fills about one embedding request,
+   * its chunks are then embedded together.
+   */
+  private groupFilesForEmbedding(fileSections: ExtractedSection[][]): number[][] {
+    return createEmbeddingBatches(
+      fileSections.map((sections) => getExtractedText(sections)),
+      this.settings.embeddingBatchSize,
+      this.settings.embeddingBatchTokenLimit
+    );
+  }
+
+  private async indexFileGroup(
+    index: VectorIndex,
+    files: TFile[],
+    fileSections: ExtractedSection[][],
+    embeddingInstance: Embeddings,
+    onChunksEmbedded?: (count: number) => void
+  ): Promise<void> {
+    const filesToSave = files.map((file, i) => {
+      const fileMetadata = this.app.metadataCache.getFileCache(file);
+      return {
+        title: file.basename,
+        path: file.path,
+        sections: fileSections[i],
+        embeddingModel: EmbeddingsManager.getModelName(embeddingInstance),
+        ctime: file.stat.ctime,
+        mtime: file.stat.mtime,
+        // Inline and frontmatter tags, with the leading #
+        tags: fileMetadata ? (getAllTags(fileMetadata) ?? []) : [],
+        extension: file.extension,
+        metadata: fileMetadata?.frontmatter ?? {},
+      };
+    });
+    // Old chunks stay until the new ones are embedded, so a failed request keeps the files indexed
+    const { savedDocs, incompletePaths } = await VectorDBManager.indexFiles(
+      index.db,
+      embeddingInstance,
+      filesToSave,
+      onChunksEmbedded
+    );
+    this.markPathsDirty(
+      index,
+      files.map((file) => file.path)
+    );
+    for (const file of files) {
+      const newIds = new Set(
+        savedDocs.filter((doc) => doc.path === file.path).map((doc) => doc.id)
+      );
+      // Chunk ids are content hashes, so chunks of the previous version would otherwise linger
+      const staleIds = index.pathIndex.removePath(file.path).filter((id) => !newIds.has(id));
+      if (staleIds.length > 0) await removeMultiple(index.db, staleIds, 500);
+      newIds.forEach((id) => index.pathIndex.add(file.path, id));
+    }
+    files.forEach((file, i) => {
+      // Without a hash the file is embedded again on the next index
+      if (incompletePaths.has(file.path)) {
+        console.warn(`Some chunks of ${file.path} were not embedded, it will be retried.`);
+        delete index.fileHashes[file.path];
+        return;
+      }
+      index.fileHashes[file.path] = {
+        hash: VectorDBManager.getDocHash(getExtractedText(fileSections[i])),
+        mtime: file.stat.mtime,
+      };
+    });
+  }
+
+  /**
+   * Re-embed the files whose content changed since they were last added to an index.
+   *
+   * @return {number} the number of files that were re-embedded
+   */
+  private async indexChangedFiles(
+    index: VectorIndex,
+    files: TFile[],
+    embeddingInstance: Embeddings
+  ): Promise<number> {
+    const changedFiles: TFile[] = [];
+    const fileSections: ExtractedSection[][] = [];
+    for (const file of files) {
+      const sections = await this.getSectionsIfChanged(index, file, 0);
+      if (sections === null) continue;
+      changedFiles.push(file);
+      fileSections.push(sections);
+    }
+
+    for (const group of this.groupFilesForEmbedding(fileSections)) {
+      await this.indexFileGroup(
+        index,
+        group.map((i) => changedFiles[i]),
+        group.map((i) => fileSections[i]),
+        embeddingInstance
+      );
+    }
+    return changedFiles.length;
+  }
+
+  /**
+   * Re-embed the given notes if their content changed since they were last indexed.
+   * Used by the background indexer, so it shows no indexing notice.
+   *
+   * Files that are excluded now are removed from the index instead. While a new
+   * index is built for a changed embedding model, the new index is updated. If the
+   * model changed and no new index is built yet, nothing is embedded until the next
+   * full index starts one.
+   *
+   * @return {number} the number of files that were re-embedded or removed
+   */
+  public async reindexFilesIfChanged(files: TFile[]): Promise<number> {
+    await this.waitForInitialization();
+    const embeddingInstance = this.embeddingsManager.getEmbeddingsAPI();
+    if (!embeddingInstance) {
+      throw new CustomError("Embedding instance not found.");
+    }
+
+    const excludedFiles = await this.getExcludedFiles();
+    const removedCount = await this.removeExcludedFiles(
+      new Set(files.map((file) => file.path).filter((path) => excludedFiles.has(path)))
+    );
+    const index = await this.getIndexToUpdate(embeddingInstance, false);
+    if (!index) return removedCount;
+
+    const changedCount = await this.indexChangedFiles(
+      index,
+      files.filter((file) => !excludedFiles.has(file.path)),
+      embeddingInstance
+    );
+    return changedCount + removedCount;
+  }
+
+  public async removeFileFromIndex(filePath: string): Promise<void> {
+    await this.waitForInitialization();
+    for (const index of this.getIndexes()) {
+      await this.removeDocsFrom(index, filePath);
+      delete index.fileHashes[filePath];
+    }
+  }
+
+  /**
+   * Move the chunks of a renamed file to its new path without re-embedding them.
+   *
+   * @return {boolean} whether the file had chunks to move
+   */
+  public async renameFileInIndex(file: TFile, oldPath: string): Promise<boolean> {
+    await this.waitForInitialization();
+    let renamed = false;
+    for (const index of this.getIndexes()) {
+      renamed = (await this.renameFileIn(index, file, oldPath)) || renamed;
+    }
+    return renamed;
+  }
+
+  private async renameFileIn(index: VectorIndex, file: TFile, oldPath: string): Promise<boolean> {
+    const hashRecord = index.fileHashes[oldPath];
+    delete index.fileHashes[oldPath];
+    const ids = index.pathIndex.removePath(oldPath);
+    if (ids.length === 0) return false;
+
+    const docs = ids
+      .map((id) => getByID(index.db, id) as OramaDocument | undefined)
+      .filter((doc): doc is OramaDocument => doc !== undefined);
+    // Whatever was indexed at the new path is replaced, as the file itself was
+    await this.removeDocsFrom(index, file.path);
+    this.markPathsDirty(index, [oldPath, file.path]);
+    await removeMultiple(index.db, ids, 500);
+
+    const movedDocs = docs.map((doc) => {
+      // The chunk header names the note, the embedding keeps the old name until the note changes
+      const content = doc.content.replace(/^\[\[.*?\]\]/, () => `[[${file.basename}]]`);
+      return {
+        ...doc,
+        id: VectorDBManager.getChunkId(file.path, content),
+        title: file.basename,
+        path: file.path,
+        extension: file.extension,
+        content,
+        folders: getFolderFilterValues(file.path),
+      };
+    });
+    await insertMultiple(index.db, movedDocs, 500);
+    movedDocs.forEach((doc) => index.pathIndex.add(doc.path, doc.id));
+    if (hashRecord) index.fileHashes[file.path] = hashRecord;
+    return true;
+  }
+
+  /**
+   * Embed every new or changed file. After a change of embedding model this builds
+   * a new index in the background instead, Vault QA keeps searching the current one
+   * until the new one is complete and swapped in. An interrupted build resumes where
+   * it stopped.
+   *
+   * @return {number} the number of files embedded
+   */
   public async indexVaultToVectorStore(overwrite?: boolean): Promise<number> {
     await this.waitForInitialization();
     let rateLimitNoticeShown = false;
+    this.isIndexingVault = true;
 
     try {
       const embeddingInstance = this.embeddingsManager.getEmbeddingsAPI();
       if (!embeddingInstance) {
         throw new CustomError("Embedding instance not found.");
       }
-      await this.ensureCorrectSchema(this.oramaDb, embeddingInstance);
-
-      const singleDoc = await search(this.getDb(), {
-        term: "",
-        limit: 1,
-      });
-
-      let prevEmbeddingModel: string | undefined;
-
-      if (singleDoc.hits.length > 0) {
-        const oramaDocSample = singleDoc.hits[0];
-        if (
-          typeof oramaDocSample === "object" &&
-          oramaDocSample !== null &&
-          "document" in oramaDocSample
-        ) {
-          const document = oramaDocSample.document as { embeddingModel?: string };
-          prevEmbeddingModel = document.embeddingModel;
-        }
-      }
-
-      if (prevEmbeddingModel) {
-        const currEmbeddingModel = EmbeddingsManager.getModelName(embeddingInstance);
-
-        if (!areEmbeddingModelsSame(prevEmbeddingModel, currEmbeddingModel)) {
-          // Model has changed, reinitialize DB
-          await this.initializeDB();
-          overwrite = true;
-          new Notice("Detected change in embedding model. Rebuilding vector store from scratch.");
-          console.log("Detected change in embedding model. Rebuilding vector store from scratch.");
-        }
-      } else {
-        console.log("No previous embedding model found in the database.");
-      }
-
-      const latestMtime = await VectorDBManager.getLatestFileMtime(this.oramaDb);
+      const index = (await this.getIndexToUpdate(embeddingInstance, true)) as VectorIndex;
+      const isMigrating = index === this.shadowIndex;
+      this.migrationModel = isMigrating ? (index.embeddingModel ?? null) : null;
+
+      // Indexes saved before content hashes were recorded fall back to the latest mtime once
+      const legacyLatestMtime =
+        !isMigrating && Object.keys(index.fileHashes).length === 0
+          ? await VectorDBManager.getLatestFileMtime(index.db)
+          : 0;
       // Initialize indexing state
       this.isIndexingPaused = false;
       this.isIndexingCancelled = false;
 
       const excludedFiles = await this.getExcludedFiles();
+      const removedCount = await this.removeExcludedFiles(excludedFiles);
 
-      const files = this.app.vault
-        .getMarkdownFiles()
-        .filter((file) => {
-          if (!latestMtime || overwrite) return true;
-          return file.stat.mtime > latestMtime;
-        })
-        .filter((file) => !excludedFiles.has(file.path));
-
-      const fileContents: string[] = await Promise.all(
-        files.map((file) => this.app.vault.cachedRead(file))
-      );
-      const fileMetadatas = files.map((file) => this.app.metadataCache.getFileCache(file));
+      const errors: string[] = [];
+      const files: TFile[] = [];
+      const fileSections: ExtractedSection[][] = [];
+      for (const file of this.getIndexableFiles()) {
+        if (excludedFiles.has(file.path)) continue;
+        try {
+          const sections = await this.getSectionsIfChanged(
+            index,
+            file,
+            legacyLatestMtime,
+            overwrite
+          );
+          if (sections !== null) {
+            files.push(file);
+            fileSections.push(sections);
+          }
+        } catch (err) {
+          // e.g. a damaged PDF, the rest of the vault can still be indexed
+          console.error(`Error extracting text from ${file.path}:`, err);
+          errors.push(`Error reading file: ${file.path}`);
+        }
+      }
 
       const totalFiles = files.length;
       if (totalFiles === 0) {
+        if (errors.length > 0) console.log("Indexing Errors:", errors.join("\n"));
+        if (isMigrating) {
+          // A resumed build that had already embedded everything
+          await this.swapInShadowIndex(embeddingInstance);
+          return 0;
+        }
+        if (removedCount > 0) await this.saveDB();
         new Notice("Copilot vault index is up-to-date.");
         return 0;
       }
 
       this.indexedCount = 0;
       this.totalFilesToIndex = totalFiles;
+      this.embeddedChunkCount = 0;
 
       this.currentIndexingNotice = this.createIndexingNotice();
 
-      const errors: string[] = [];
-      for (let index = 0; index < files.length; index++) {
+      let indexedGroupCount = 0;
+      let isComplete = true;
+      for (const group of this.groupFilesForEmbedding(fileSections)) {
         if (this.isIndexingCancelled) {
           // Handle cancellation if required
+          isComplete = false;
           break;
         }
 
@@ -383,27 +1239,28 @@ class VectorStoreManager {
           await new Promise((resolve) => setTimeout(resolve, 100));
         }
 
-        const file = files[index];
+        const groupFiles = group.map((i) => files[i]);
 
         try {
-          const fileToSave = {
-            title: file.basename,
-            path: file.path,
-            content: fileContents[index],
-            embeddingModel: EmbeddingsManager.getModelName(embeddingInstance),
-            ctime: file.stat.ctime,
-            mtime: file.stat.mtime,
-            tags: fileMetadatas[index]?.tags ?? [], // Assuming tags are in the metadata
-            extension: file.extension,
-            metadata: fileMetadatas[index]?.frontmatter ?? {},
-          };
-          await VectorDBManager.indexFile(this.oramaDb, embeddingInstance, fileToSave);
-
-          this.indexedCount++;
+          await this.indexFileGroup(
+            index,
+            groupFiles,
+            group.map((i) => fileSections[i]),
+            embeddingInstance,
+            (count) => {
+              this.embeddedChunkCount += count;
+              this.updateIndexingNoticeMessage();
+            }
+          );
+
+          this.indexedCount += groupFiles.length;
           this.updateIndexingNoticeMessage();
+          if (isMigrating && ++indexedGroupCount % MIGRATION_SAVE_INTERVAL === 0) {
+            await this.saveIndex(index);
+          }
         } catch (err) {
-          console.error("Error indexing file:", err);
-          errors.push(`Error indexing file: ${file.basename}`);
+          console.error("Error indexing files:", err);
+          groupFiles.forEach((file) => errors.push(`Error indexing file: ${file.basename}`));
 
           // Check if the error is a 429 (Too Many Requests) error
           if (
@@ -429,12 +1286,22 @@ class VectorStoreManager {
             // Display the error message as a notice
             new Notice(errorMessage, 8000);
             rateLimitNoticeShown = true;
+            isComplete = false;
             // Break the loop to stop further indexing attempts
             break;
           }
         }
       }
 
+      // A new index is only swapped in without gaps, otherwise the next run resumes it
+      if (isMigrating && isComplete && errors.length === 0) {
+        await this.swapInShadowIndex(embeddingInstance);
+      } else if (isMigrating) {
+        new Notice(
+          "The new Copilot index is not complete yet. Vault QA keeps using the current index, index the vault again to resume."
+        );
+      }
+
       // Hide the notice after completion
       setTimeout(() => {
         this.currentIndexingNotice?.hide();
@@ -463,13 +1330,20 @@ class VectorStoreManager {
         );
       }
       return 0;
+    } finally {
+      this.isIndexingVault = false;
     }
   }
 
   public async clearVectorStore(): Promise<void> {
+    await this.waitForInitialization();
     try {
+      // A new index for another model would be rebuilt from scratch anyway
+      await this.discardShadowIndex();
       // Create a new, empty database instance
-      this.oramaDb = await this.createNewDb();
+      const store = this.index.store;
+      this.index = await this.createNewDb(store);
+      await store.removeAll();
 
       // Save the new, empty database
       await this.saveDB();
@@ -482,40 +1356,41 @@ class VectorStoreManager {
     }
   }
 
+  public async clearEmbeddingCache(): Promise<void> {
+    await this.embeddingCache.clear();
+    new Notice("Embedding cache cleared.");
+  }
+
   public async garbageCollectVectorStore(): Promise<void> {
+    await this.waitForInitialization();
     try {
-      const files = this.app.vault.getMarkdownFiles();
-      const filePaths = new Set(files.map((file) => file.path));
-      // Get all documents in the database
-      const result = await search(this.oramaDb, {
-        term: "",
-        limit: 10000,
-      });
+      const filePaths = new Set(this.getIndexableFiles().map((file) => file.path));
+      let removedCount = 0;
+      for (const index of this.getIndexes()) {
+        // Rebuilt from the whole index, in case it ever drifted from the documents
+        await this.rebuildPathIndex(index);
+        const pathsToRemove = index.pathIndex.getPaths().filter((path) => !filePaths.has(path));
+        // Hashes of files that are gone but had no chunks, e.g. empty notes
+        for (const path of Object.keys(index.fileHashes)) {
+          if (!filePaths.has(path)) delete index.fileHashes[path];
+        }
+        if (pathsToRemove.length === 0) continue;
 
-      // Identify docs to remove
-      const docsToRemove = result.hits.filter((hit) => !filePaths.has(hit.document.path));
+        console.log(
+          "Copilot index: Docs to remove during garbage collection:",
+          pathsToRemove.join(", ")
+        );
+        for (const path of pathsToRemove) {
+          await this.removeDocsFrom(index, path);
+        }
+        removedCount += pathsToRemove.length;
+      }
 
-      if (docsToRemove.length === 0) {
+      if (removedCount === 0) {
         new Notice("No documents to remove during garbage collection.");
         return;
       }
 
-      console.log(
-        "Copilot index: Docs to remove during garbage collection:",
-        Array.from(new Set(docsToRemove.map((hit) => hit.document.path))).join(", ")
-      );
-
-      if (docsToRemove.length === 1) {
-        await remove(this.oramaDb, docsToRemove[0].id);
-      } else {
-        await removeMultiple(
-          this.oramaDb,
-          docsToRemove.map((hit) => hit.id),
-          500
-        );
-        new Notice(`Removed stale documents during garbage collection.`);
-      }
-
       await this.saveDB();
 
       new Notice("Local vector store garbage collected successfully.");
@@ -526,33 +1401,122 @@ class VectorStoreManager {
     }
   }
 
+  // Remove exactly the chunks of one file
   public async removeDocs(filePath: string) {
-    // Handle file deletion
+    await this.waitForInitialization();
+    for (const index of this.getIndexes()) {
+      await this.removeDocsFrom(index, filePath);
+    }
+  }
+
+  private async removeDocsFrom(index: VectorIndex, filePath: string) {
     try {
-      const searchResult = await search(this.oramaDb, {
-        term: filePath,
-        properties: ["path"],
-        tolerance: 1,
-      });
-      if (searchResult.hits.length > 0) {
-        await removeMultiple(
-          this.oramaDb,
-          searchResult.hits.map((hit) => hit.id),
-          500
-        );
+      const ids = index.pathIndex.removePath(filePath);
+      if (ids.length > 0) {
+        this.markPathsDirty(index, [filePath]);
+        await removeMultiple(index.db, ids, 500);
       }
     } catch (err) {
-      console.error("Error deleting document from local Copilotindex:", err);
+      console.error("Error deleting document from local Copilot index:", err);
     }
   }
 
+  // The chunks of one file, in the order they were indexed
+  public getChunks(path: string): OramaDocument[] {
+    return this.index.pathIndex
+      .getIds(path)
+      .map((id) => getByID(this.index.db, id) as OramaDocument | undefined)
+      .filter((doc): doc is OramaDocument => doc !== undefined);
+  }
+
+  /**
+   * Chunks of other notes closest to a note. Searches once, with the mean of the
+   * note's vectors already in the index, so switching notes embeds nothing and a
+   * long note costs no more than a short one.
+   *
+   * @return {RelatedChunk[] | null} the chunks, or null if the note is not indexed
+   */
+  public async findRelatedChunks(
+    path: string,
+    limit: number,
+    minSimilarity: number
+  ): Promise<RelatedChunk[] | null> {
+    await this.waitForInitialization();
+    const sourceChunks = this.getChunks(path).filter((chunk) => chunk.embedding?.length);
+    if (sourceChunks.length === 0) return null;
+
+    const results = await search(this.index.db, {
+      mode: "vector",
+      vector: {
+        value: getMeanVector(sourceChunks.map((chunk) => chunk.embedding)),
+        property: "embedding",
+      },
+      similarity: minSimilarity,
+      // The note's own chunks are among the hits and dropped later
+      limit: limit + sourceChunks.length,
+      includeVectors: false,
+    });
+    return results.hits.map((hit) => ({
+      chunk: hit.document as RelatedChunk["chunk"],
+      score: hit.score,
+    }));
+  }
+
+  /**
+   * Every indexed file plus the indexable files that are missing from the index,
+   * with their index status.
+   */
+  public async getIndexedFiles(): Promise<IndexedFileInfo[]> {
+    await this.waitForInitialization();
+    const excludedFiles = await this.getExcludedFiles();
+    const files = new Map(this.getIndexableFiles().map((file) => [file.path, file]));
+    const paths = new Set([...this.index.pathIndex.getPaths(), ...files.keys()]);
+
+    const infos: IndexedFileInfo[] = [];
+    for (const path of paths) {
+      const chunks = this.getChunks(path);
+      const excluded = excludedFiles.has(path);
+      // Excluded files only matter while they still have chunks in the index
+      if (excluded && chunks.length === 0) continue;
+      const indexedMtime = this.index.fileHashes[path]?.mtime ?? chunks[0]?.mtime;
+      infos.push({
+        path,
+        chunkCount: chunks.length,
+        embeddingModel: chunks[0]?.embeddingModel ?? "",
+        mtime: indexedMtime,
+        indexedAt:
+          chunks.length > 0 ? Math.max(...chunks.map((chunk) => chunk.created_at)) : undefined,
+        status: getIndexStatus({
+          fileMtime: files.get(path)?.stat.mtime,
+          indexedMtime,
+          chunkCount: chunks.length,
+          excluded,
+        }),
+      });
+    }
+    return infos;
+  }
+
+  // Re-chunk and re-embed one file even if it didn't change, unchanged chunks come from the embedding cache
+  public async reindexFile(file: TFile): Promise<void> {
+    await this.waitForInitialization();
+    for (const index of this.getIndexes()) {
+      delete index.fileHashes[file.path];
+    }
+    await this.reindexFilesIfChanged([file]);
+    await this.saveDB();
+  }
+
+  // Load the index if no one needed it yet, and wait until it is loaded
   public async waitForInitialization() {
+    this.initializationPromise ??= this.initialize();
     await this.initializationPromise;
   }
 
   // Test query to retrieve record by id from the database
   public async getDocById(id: string): Promise<any | undefined> {
-    const result = await search(this.oramaDb, {
+    await this.waitForInitialization();
+    const result = await search(this.index.db, {
       term: id,
       properties: ["id"],
       limit: 1,
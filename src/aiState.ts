@@ -32,7 +32,7 @@ export function useAIState(
   };
 
   const setChain = (newChain: ChainType, options?: SetChainOptions) => {
-    chainManager.setChain(newChain, options);
+    chainManager.createChain(newChain, options);
     setCurrentChain(newChain);
   };
 
@@ -1,10 +1,8 @@
 import { BaseLanguageModel } from "@langchain/core/language_models/base";
-import { StringOutputParser } from "@langchain/core/output_parsers";
 import { ChatPromptTemplate, PromptTemplate } from "@langchain/core/prompts";
 import { BaseRetriever } from "@langchain/core/retrievers";
-import { RunnablePassthrough, RunnableSequence } from "@langchain/core/runnables";
+import { RunnableSequence } from "@langchain/core/runnables";
 import { BaseChatMemory } from "langchain/memory";
-import { formatDocumentsAsString } from "langchain/util/document";
 
 export interface LLMChainInput {
   llm: BaseLanguageModel;
@@ -44,6 +42,13 @@ type ConversationalRetrievalQAChainInput = {
   chat_history: [string, string][];
 };
 
+export function formatChatHistory(chatHistory: [string, string][]): string {
+  const formattedDialogueTurns = chatHistory.map(
+    (dialogueTurn) => `Human: ${dialogueTurn[0]}\nAssistant: ${dialogueTurn[1]}`
+  );
+  return formattedDialogueTurns.join("\n");
+}
+
 // Issue where conversational retrieval chain gives rephrased question
 // when streaming: https://github.com/hwchase17/langchainjs/issues/754#issuecomment-1540257078
 // Temp workaround triggers CORS issue 'refused to set header user-agent'
@@ -131,75 +136,50 @@ class ChainFactory {
   ): RunnableSequence {
     const { llm, retriever, systemMessage } = args;
 
-    // NOTE: This is a tricky part of the Conversational RAG. Weaker models may fail this instruction
-    // and lose the follow up question altogether.
-    const condenseQuestionTemplate = `Given the following conversation and a follow up question,
-    summarize the conversation as context and keep the follow up question unchanged, in its original language.
-    If the follow up question is unrelated to its preceding messages, return this follow up question directly.
-    If it is related, then combine the summary and the follow up question to construct a standalone question.
-    Make sure to keep any [[]] wrapped note titles in the question unchanged.
-
-    Chat History:
-    {chat_history}
-    Follow Up Input: {question}
-    Standalone question:`;
-    const CONDENSE_QUESTION_PROMPT = PromptTemplate.fromTemplate(condenseQuestionTemplate);
-
+    // Follow-up questions are made standalone by the retriever's QueryRewriter for search,
+    // the answer prompt gets the chat history itself.
     const answerTemplate = `{system_message}
 
-Answer the question with as detailed as possible based only on the following context:
+Answer the question with as detailed as possible based only on the following context.
+Each source in the context starts with a number in square brackets. When you use a source,
+cite it inline with its number, e.g. [1] or [2][3]. Do not make up source numbers.
+
 {context}
 
+Chat History:
+{chat_history}
+
 Question: {question}
 `;
     const ANSWER_PROMPT = PromptTemplate.fromTemplate(answerTemplate);
 
-    const formatChatHistory = (chatHistory: [string, string][]) => {
-      const formattedDialogueTurns = chatHistory.map(
-        (dialogueTurn) => `Human: ${dialogueTurn[0]}\nAssistant: ${dialogueTurn[1]}`
-      );
-      return formattedDialogueTurns.join("\n");
-    };
-
-    const standaloneQuestionChain = RunnableSequence.from([
-      {
-        question: (input: ConversationalRetrievalQAChainInput) => {
-          if (debug) console.log("Input Question: ", input.question);
-          return input.question;
-        },
-        chat_history: (input: ConversationalRetrievalQAChainInput) => {
-          const formattedChatHistory = formatChatHistory(input.chat_history);
-          if (debug) console.log("Formatted Chat History: ", formattedChatHistory);
-          return formattedChatHistory;
-        },
-      },
-      CONDENSE_QUESTION_PROMPT,
-      llm,
-      new StringOutputParser(),
-      (output) => {
-        if (debug) console.log("Standalone Question: ", output);
-        return output;
-      },
-    ]);
-
     const formatDocumentsAsStringAndStore = async (documents: Document[]) => {
       // Store or log documents for debugging
       onDocumentsRetrieved(documents);
-      return formatDocumentsAsString(documents);
+      // Number the chunks so the answer can cite them, matching buildSourceCitations
+      return documents.map((doc, i) => `[${i + 1}] ${doc.pageContent}`).join("\n\n");
     };
 
     const answerChain = RunnableSequence.from([
       {
-        context: retriever.pipe(formatDocumentsAsStringAndStore),
-        question: new RunnablePassthrough(),
+        context: RunnableSequence.from([
+          (input: ConversationalRetrievalQAChainInput) => {
+            if (debug) console.log("Input Question: ", input.question);
+            return input.question;
+          },
+          retriever,
+          formatDocumentsAsStringAndStore,
+        ]),
+        question: (input: ConversationalRetrievalQAChainInput) => input.question,
+        chat_history: (input: ConversationalRetrievalQAChainInput) =>
+          formatChatHistory(input.chat_history),
         system_message: () => systemMessage,
       },
       ANSWER_PROMPT,
       llm,
     ]);
 
-    const conversationalRetrievalQAChain = standaloneQuestionChain.pipe(answerChain);
-    return conversationalRetrievalQAChain as RunnableSequence;
+    return answerChain as RunnableSequence;
   }
 }
 
@@ -0,0 +1,90 @@
+import ChainManager from "@/LLMProviders/chainManager";
+import { ChainType } from "@/chainFactory";
+import { EVENT_NAMES, USER_SENDER } from "@/constants";
+import SharedState from "@/sharedState";
+import { useEffect, useState } from "react";
+
+const SESSION_TITLE_LENGTH = 40;
+
+/**
+ * One conversation of the chat views. A session owns its history and its chain
+ * manager, which holds its memory, chain type and model, so several sessions can
+ * be open side by side, e.g. a Vault QA session next to a writing session.
+ */
+export default class ChatSession {
+  readonly sharedState = new SharedState();
+  // The answer being generated lives here, so it keeps streaming while the view shows another session
+  readonly emitter = new EventTarget();
+  // Stops the answer being generated in this session
+  abortController: AbortController | null = null;
+  loading = false;
+  currentAiMessage = "";
+
+  constructor(
+    readonly id: number,
+    readonly chainManager: ChainManager
+  ) {}
+
+  setAbortController(abortController: AbortController | null) {
+    this.abortController = abortController;
+    this.notifyUpdated();
+  }
+
+  setLoading(loading: boolean) {
+    this.loading = loading;
+    this.notifyUpdated();
+  }
+
+  setCurrentAiMessage(message: string) {
+    this.currentAiMessage = message;
+    this.notifyUpdated();
+  }
+
+  private notifyUpdated() {
+    this.emitter.dispatchEvent(new Event(EVENT_NAMES.CHAT_SESSION_UPDATED));
+  }
+
+  getChainType(): ChainType {
+    return this.chainManager.getLangChainParams().chainType;
+  }
+
+  // The start of the first question, or a number while the session is empty
+  getTitle(): string {
+    const firstQuestion = this.sharedState.chatHistory.find(
+      (message) => message.sender === USER_SENDER && message.isVisible
+    );
+    if (!firstQuestion) return `Chat ${this.id}`;
+    const title = firstQuestion.message.replace(/\s+/g, " ").trim();
+    return title.length > SESSION_TITLE_LENGTH
+      ? `${title.slice(0, SESSION_TITLE_LENGTH - 1)}…`
+      : title;
+  }
+}
+
+export interface ChatSessionProgress {
+  abortController: AbortController | null;
+  loading: boolean;
+  currentAiMessage: string;
+}
+
+function getProgress(session: ChatSession): ChatSessionProgress {
+  const { abortController, loading, currentAiMessage } = session;
+  return { abortController, loading, currentAiMessage };
+}
+
+// The session's answer in progress, updated while it streams
+export function useChatSessionProgress(session: ChatSession): ChatSessionProgress {
+  const [progress, setProgress] = useState(() => getProgress(session));
+
+  useEffect(() => {
+    const handleUpdated = () => setProgress(getProgress(session));
+    session.emitter.addEventListener(EVENT_NAMES.CHAT_SESSION_UPDATED, handleUpdated);
+    // The session may have changed between the first render and subscribing
+    handleUpdated();
+    return () => {
+      session.emitter.removeEventListener(EVENT_NAMES.CHAT_SESSION_UPDATED, handleUpdated);
+    };
+  }, [session]);
+
+  return progress;
+}
@@ -1,45 +1,217 @@
 import { AI_SENDER, USER_SENDER } from "@/constants";
-import { ChatMessage } from "@/sharedState";
+import { formatCitationsAsMarkdown } from "@/search/citations";
+import SharedState, { ChatMessage, ChatMessageNode, ChatTreeSnapshot } from "@/sharedState";
 import { stringToFormattedDateTime } from "@/utils";
 import MemoryManager from "./LLMProviders/memoryManager";
 
-export function parseChatContent(content: string): ChatMessage[] {
+// A message parsed from a saved chat, with the 1-based number of the message it replies to
+export interface ParsedChatMessage {
+  message: ChatMessage;
+  parentNumber: number | null;
+}
+
+// Starts the section of a branch that is an alternative to an earlier message of the note
+const ALTERNATIVE_HEADER_REGEX = /^#### Alternative to message (\d+)$/;
+
+// Version of the data block saved with chat notes, bump it when the snapshot changes shape
+export const CHAT_DATA_VERSION = 1;
+const CHAT_DATA_FENCE = "```copilot-chat-data";
+
+interface ChatData extends ChatTreeSnapshot {
+  version: number;
+}
+
+export function formatChatMessage(message: ChatMessage): string {
+  return `**${message.sender}**: ${message.message}${formatCitationsAsMarkdown(message.sources ?? [])}\n[Timestamp: ${message.timestamp?.display}]`;
+}
+
+/**
+ * The visible messages of a conversation tree, each attached to its nearest visible
+ * ancestor. Hidden prompts are skipped, so regenerated answers are siblings.
+ */
+export function getVisibleTree(nodes: ChatMessageNode[]): ChatMessageNode[] {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const visibleParent = (parentId: string | null): string | null => {
+    let parent = parentId === null ? undefined : byId.get(parentId);
+    while (parent && !parent.message.isVisible) {
+      parent = parent.parentId === null ? undefined : byId.get(parent.parentId);
+    }
+    return parent?.id ?? null;
+  };
+  return nodes
+    .filter((node) => node.message.isVisible)
+    .map((node) => ({ ...node, parentId: visibleParent(node.parentId) }));
+}
+
+/**
+ * Write a conversation with all its branches. The active branch comes first as a
+ * plain chat, then every other branch in a section naming the message it is an
+ * alternative to. Messages are numbered in the order they are written, and other
+ * branches follow their latest replies.
+ */
+export function formatChatTree(nodes: ChatMessageNode[], activePathIds: string[]): string {
+  const children = new Map<string | null, ChatMessageNode[]>();
+  for (const node of nodes) {
+    children.set(node.parentId, [...(children.get(node.parentId) ?? []), node]);
+  }
+  const activeIds = new Set(activePathIds);
+  const numbers = new Map<string, number>();
+  const sections: string[] = [];
+  const pending: { alternativeTo: ChatMessageNode; start: ChatMessageNode }[] = [];
+
+  const writeBranch = (start: ChatMessageNode) => {
+    const branch: ChatMessageNode[] = [];
+    let node: ChatMessageNode | undefined = start;
+    while (node) {
+      branch.push(node);
+      numbers.set(node.id, numbers.size + 1);
+      const replies: ChatMessageNode[] = children.get(node.id) ?? [];
+      node = replies.find((reply) => activeIds.has(reply.id)) ?? replies[replies.length - 1];
+    }
+    for (const written of branch) {
+      for (const sibling of children.get(written.parentId) ?? []) {
+        const queued = pending.some((entry) => entry.start.id === sibling.id);
+        if (!numbers.has(sibling.id) && !queued) {
+          pending.push({ alternativeTo: written, start: sibling });
+        }
+      }
+    }
+    return branch.map((entry) => formatChatMessage(entry.message)).join("\n\n");
+  };
+
+  const roots = children.get(null) ?? [];
+  const firstRoot = roots.find((root) => activeIds.has(root.id)) ?? roots[0];
+  if (!firstRoot) return "";
+  sections.push(writeBranch(firstRoot));
+  while (pending.length > 0) {
+    const { alternativeTo, start } = pending.shift() as (typeof pending)[number];
+    if (numbers.has(start.id)) continue;
+    const header = `#### Alternative to message ${numbers.get(alternativeTo.id)}`;
+    sections.push(`${header}\n\n${writeBranch(start)}`);
+  }
+  return sections.join("\n\n");
+}
+
+/**
+ * Read a saved chat with its branches. Messages of the first section reply to the
+ * message before them, the first message of an alternative section replies to the
+ * same message as the one it is an alternative to.
+ */
+export function parseChatTree(content: string): ParsedChatMessage[] {
   const lines = content.split("\n");
-  const messages: ChatMessage[] = [];
+  const messages: ParsedChatMessage[] = [];
   let currentSender = "";
   let currentMessage = "";
   let currentTimestamp = "";
+  let currentParent: number | null = null;
+  // Parent of the next message that starts
+  let nextParent: number | null = null;
 
-  for (const line of lines) {
-    if (line.startsWith("**user**:") || line.startsWith("**ai**:")) {
-      if (currentSender && currentMessage) {
-        messages.push({
+  const pushMessage = () => {
+    if (currentSender && currentMessage) {
+      messages.push({
+        message: {
           sender: currentSender === USER_SENDER ? USER_SENDER : AI_SENDER,
           message: currentMessage.trim(),
           isVisible: true,
           timestamp: currentTimestamp ? stringToFormattedDateTime(currentTimestamp) : null,
-        });
-      }
+        },
+        parentNumber: currentParent,
+      });
+      nextParent = messages.length;
+    }
+    currentSender = "";
+    currentMessage = "";
+  };
+
+  for (const line of lines) {
+    const alternativeMatch = line.match(ALTERNATIVE_HEADER_REGEX);
+    if (alternativeMatch) {
+      pushMessage();
+      const alternativeTo = messages[parseInt(alternativeMatch[1], 10) - 1];
+      nextParent = alternativeTo ? alternativeTo.parentNumber : null;
+    } else if (line.startsWith("**user**:") || line.startsWith("**ai**:")) {
+      pushMessage();
       currentSender = line.startsWith("**user**:") ? USER_SENDER : AI_SENDER;
       currentMessage = line.substring(line.indexOf(":") + 1).trim();
       currentTimestamp = "";
+      currentParent = nextParent;
     } else if (line.startsWith("[Timestamp:")) {
       currentTimestamp = line.substring(11, line.length - 1).trim();
     } else {
       currentMessage += "\n" + line;
     }
   }
+  pushMessage();
+
+  return messages;
+}
+
+/**
+ * The data block saved at the end of a chat note. It holds the whole tree as JSON
+ * on a single line, so no message content can end the block early.
+ */
+export function formatChatData(snapshot: ChatTreeSnapshot): string {
+  const data: ChatData = { version: CHAT_DATA_VERSION, ...snapshot };
+  return [CHAT_DATA_FENCE, JSON.stringify(data), "```"].join("\n");
+}
 
-  if (currentSender && currentMessage) {
-    messages.push({
-      sender: currentSender === USER_SENDER ? USER_SENDER : AI_SENDER,
-      message: currentMessage.trim(),
-      isVisible: true,
-      timestamp: currentTimestamp ? stringToFormattedDateTime(currentTimestamp) : null,
-    });
+/**
+ * Split a chat note into its markdown and the tree of its data block. The last
+ * block counts, a message quoting a block comes before it. Notes saved before the
+ * data block existed, or with a block that can't be read, only have markdown.
+ */
+export function parseChatData(content: string): {
+  markdown: string;
+  snapshot: ChatTreeSnapshot | null;
+} {
+  const lines = content.split("\n");
+  const start = lines.map((line) => line.trim()).lastIndexOf(CHAT_DATA_FENCE);
+  if (start === -1) return { markdown: content, snapshot: null };
+
+  const markdown = lines.slice(0, start).join("\n").trimEnd();
+  try {
+    const data = JSON.parse(lines[start + 1] ?? "") as ChatData;
+    if (data.version > CHAT_DATA_VERSION) {
+      console.warn(
+        `Chat data version ${data.version} is newer than this plugin, loading the text.`
+      );
+      return { markdown, snapshot: null };
+    }
+    if (!Array.isArray(data.nodes) || typeof data.activeChildIds !== "object") {
+      throw new Error("The chat data has no message tree.");
+    }
+    return { markdown, snapshot: { nodes: data.nodes, activeChildIds: data.activeChildIds } };
+  } catch (error) {
+    console.error("Error reading the chat data, loading the text instead:", error);
+    return { markdown, snapshot: null };
   }
+}
 
-  return messages;
+/**
+ * Replace the conversation in the shared state with a saved chat. Notes with a
+ * data block are restored exactly, older notes are read from their markdown with
+ * the branch that was active when they were saved active again.
+ *
+ * @return {ChatMessage[]} the messages of the active branch
+ */
+export function loadChatTree(sharedState: SharedState, content: string): ChatMessage[] {
+  const { markdown, snapshot } = parseChatData(content);
+  if (snapshot) {
+    sharedState.restoreSnapshot(snapshot);
+    return sharedState.getMessages();
+  }
+
+  const parsed = parseChatTree(markdown);
+  sharedState.clearChatHistory();
+  const ids: string[] = [];
+  for (const { message, parentNumber } of parsed) {
+    ids.push(sharedState.addMessage(message, parentNumber === null ? null : ids[parentNumber - 1]));
+  }
+  // Each branch was written following the first reply written after it, selecting
+  // in reverse makes that reply active again and the first section the active branch
+  [...ids].reverse().forEach((id) => sharedState.selectBranch(id));
+  return sharedState.getMessages();
 }
 
 export async function updateChatMemory(
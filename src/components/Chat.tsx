@@ -1,6 +1,7 @@
-import ChainManager from "@/LLMProviders/chainManager";
 import { useAIState } from "@/aiState";
-import { updateChatMemory } from "@/chatUtils";
+import { ChainType } from "@/chainFactory";
+import ChatSession, { useChatSessionProgress } from "@/chatSession";
+import { formatChatData, formatChatTree, getVisibleTree, updateChatMemory } from "@/chatUtils";
 import ChatSessionIcons from "@/components/ChatComponents/ChatSessionIcons";
 import ChatInputFollowup from "@/components/ChatComponents/ChatInputFollowup";
 import ChatInputTop from "@/components/ChatComponents/ChatInputTop";
@@ -11,7 +12,7 @@ import { CustomPromptProcessor } from "@/customPromptProcessor";
 import { getAIResponse } from "@/langchainStream";
 import CopilotPlugin from "@/main";
 import { CopilotSettings } from "@/settings/SettingsPage";
-import SharedState, { ChatMessage, useSharedState } from "@/sharedState";
+import { BranchInfo, ChatMessage, useSharedState } from "@/sharedState";
 import {
   createChangeToneSelectionPrompt,
   createTranslateSelectionPrompt,
@@ -42,38 +43,41 @@ interface CreateEffectOptions {
 
 // Interface for Chat component props
 interface ChatProps {
-  sharedState: SharedState;
+  session: ChatSession;
   settings: CopilotSettings;
-  chainManager: ChainManager;
   emitter: EventTarget;
   defaultSaveFolder: string;
   onSaveChat: (saveAsNote: () => Promise<void>) => void;
   updateUserMessageHistory: (newMessage: string) => void;
   plugin: CopilotPlugin;
   debug: boolean;
+  onSwitchSession: (sessionId: number) => void;
+  onNewSession: (chainType: ChainType) => void;
+  onCloseSession: () => void;
 }
 
 // Main Chat component
 const Chat: React.FC<ChatProps> = ({
-  sharedState,
+  session,
   settings,
-  chainManager,
   emitter,
   defaultSaveFolder,
   onSaveChat,
   updateUserMessageHistory,
   plugin,
   debug,
+  onSwitchSession,
+  onNewSession,
+  onCloseSession,
 }) => {
+  const { sharedState, chainManager } = session;
   // State hooks for managing chat state
-  const [chatHistory, addMessage, clearMessages] = useSharedState(sharedState);
+  const [chatHistory, addMessage, clearMessages, syncMessages] = useSharedState(sharedState);
   const [currentModelKey, setModelKey, currentChain, setChain, clearChatMemory] =
     useAIState(chainManager);
-  const [currentAiMessage, setCurrentAiMessage] = useState("");
   const [inputMessageTop, setInputMessageTop] = useState(""); // Separate state for ChatInputTop
   const [inputMessageBottom, setInputMessageBottom] = useState(""); // Separate state for ChatInput
-  const [abortController, setAbortController] = useState<AbortController | null>(null);
-  const [loading, setLoading] = useState(false);
+  const [chatSessions, setChatSessions] = useState<ChatSession[]>(plugin.chatSessions);
   const [historyIndex, setHistoryIndex] = useState(-1);
   const [chatIsVisible, setChatIsVisible] = useState(false);
 
@@ -90,6 +94,37 @@ const Chat: React.FC<ChatProps> = ({
     };
   }, []);
 
+  // The answer in progress belongs to the session, so it outlives switching sessions in the view
+  const { abortController, loading, currentAiMessage } = useChatSessionProgress(session);
+  const setAbortController = (controller: AbortController | null) => {
+    session.setAbortController(controller);
+  };
+  const setLoading = (value: boolean) => {
+    session.setLoading(value);
+  };
+  const setCurrentAiMessage = (message: string) => {
+    session.setCurrentAiMessage(message);
+  };
+
+  // Effect to follow sessions opened and closed in other chat views
+  useEffect(() => {
+    const handleSessionsChanged = () => {
+      setChatSessions([...plugin.chatSessions]);
+    };
+    plugin.chatSessionEmitter.addEventListener(
+      EVENT_NAMES.CHAT_SESSIONS_CHANGED,
+      handleSessionsChanged
+    );
+
+    // Cleanup function
+    return () => {
+      plugin.chatSessionEmitter.removeEventListener(
+        EVENT_NAMES.CHAT_SESSIONS_CHANGED,
+        handleSessionsChanged
+      );
+    };
+  }, []);
+
   // Context for accessing the app instance
   const app = plugin.app || useContext(AppContext);
 
@@ -115,8 +150,28 @@ const Chat: React.FC<ChatProps> = ({
       return;
     }
 
+    if (isNewInteraction) {
+      // Clear chat history and memory for new interaction
+      clearMessages();
+      clearChatMemory();
+    }
+
+    // Add to user message history
+    updateUserMessageHistory(messageToSend);
+    setHistoryIndex(-1);
+
+    // Clear only the bottom input
+    if (!isNewInteraction) {
+      setInputMessageBottom("");
+    }
+
+    await sendUserMessage(messageToSend);
+  };
+
+  // Add a user message and its processed prompt to the active branch and get the AI response
+  const sendUserMessage = async (messageToSend: string) => {
     const customPromptProcessor = CustomPromptProcessor.getInstance(app.vault, settings);
-    
+
     const processedUserMessage = await customPromptProcessor.processCustomPrompt(
       messageToSend,
       "",
@@ -139,28 +194,13 @@ const Chat: React.FC<ChatProps> = ({
       timestamp: timestamp,
     };
 
-    if (isNewInteraction) {
-      // Clear chat history and memory for new interaction
-      clearMessages();
-      clearChatMemory();
-    }
-
     // Add user message to chat history
     addMessage(userMessage);
     addMessage(promptMessageHidden);
 
-    // Add to user message history
-    updateUserMessageHistory(messageToSend);
-    setHistoryIndex(-1);
-
-    // Clear only the bottom input
-    if (!isNewInteraction) {
-      setInputMessageBottom("");
-    }
-
     // Display running dots to indicate loading
     setLoading(true);
-    
+
     const newAbortController = new AbortController();
     setAbortController(newAbortController);
 
@@ -216,13 +256,11 @@ const Chat: React.FC<ChatProps> = ({
     // Get the epoch of the first message
     const firstMessageEpoch = visibleMessages[0].timestamp?.epoch || Date.now();
 
-    // Format the chat content
-    const chatContent = visibleMessages
-      .map(
-        (message) =>
-          `**${message.sender}**: ${message.message}\n[Timestamp: ${message.timestamp?.display}]`
-      )
-      .join("\n\n");
+    // Format the chat content, the active branch first and then the alternatives
+    const chatContent = formatChatTree(
+      getVisibleTree(sharedState.getAllNodes()),
+      sharedState.getActivePath().map((node) => node.id)
+    );
 
     try {
       // Check if the default folder exists or create it
@@ -257,11 +295,14 @@ const Chat: React.FC<ChatProps> = ({
       const noteContentWithTimestamp = `---
 epoch: ${firstMessageEpoch}
 modelKey: ${currentModelKey}
+chainType: ${currentChain}
 tags:
   - ${settings.defaultConversationTag}
 ---
 
-${chatContent}`;
+${chatContent}
+
+${formatChatData(sharedState.getSnapshot())}`;
 
       // Check if the file already exists
       const existingFile = app.vault.getAbstractFileByPath(noteFileName);
@@ -320,39 +361,41 @@ ${chatContent}`;
     }
   };
 
-  // Function to regenerate a message
+  // Rebuild the chain's memory from the active branch up to a message
+  const rebuildMemory = async (messages: ChatMessage[]) => {
+    const completed = [...messages];
+    // A trailing question without an answer is about to be asked again
+    while (completed.length > 0 && completed[completed.length - 1].sender === USER_SENDER) {
+      completed.pop();
+    }
+    await updateChatMemory(completed, chainManager.memoryManager);
+  };
+
+  // Function to regenerate a message, the previous answer is kept as a branch
   const handleRegenerate = async (messageIndex: number) => {
+    const path = sharedState.getActivePath();
     const lastUserMessageIndex = messageIndex - 1;
 
-    if (lastUserMessageIndex < 0 || chatHistory[lastUserMessageIndex].sender !== USER_SENDER) {
+    if (lastUserMessageIndex < 0 || path[lastUserMessageIndex].message.sender !== USER_SENDER) {
       new Notice("Cannot regenerate the first message or a user message.");
       return;
     }
 
     // Get the last user message
-    const lastUserMessage = chatHistory[lastUserMessageIndex];
+    const lastUserNode = path[lastUserMessageIndex];
+    const previousAnswer = path[messageIndex];
 
-    // Remove all messages after the AI message to regenerate
-    const newChatHistory = chatHistory.slice(0, messageIndex);
-    clearMessages();
-    newChatHistory.forEach(addMessage);
+    // New messages go next to the AI message to regenerate
+    sharedState.branchBefore(previousAnswer.id);
+    syncMessages();
 
-    // Update the chain's memory with the new chat history
-    chainManager.memoryManager.clearChatMemory();
-    for (let i = 0; i < newChatHistory.length; i += 2) {
-      const userMsg = newChatHistory[i];
-      const aiMsg = newChatHistory[i + 1];
-      if (userMsg && aiMsg) {
-        await chainManager.memoryManager
-          .getMemory()
-          .saveContext({ input: userMsg.message }, { output: aiMsg.message });
-      }
-    }
+    // Update the chain's memory with the messages before it
+    await rebuildMemory(path.slice(0, messageIndex).map((node) => node.message));
 
     setLoading(true);
     try {
       const regeneratedResponse = await chainManager.runChain(
-        lastUserMessage.message,
+        lastUserNode.message.message,
         new AbortController(),
         setCurrentAiMessage,
         addMessage,
@@ -365,34 +408,48 @@ ${chatContent}`;
       console.error("Error regenerating message:", error);
       new Notice("Failed to regenerate message. Please try again.");
     } finally {
+      // Go back to the previous answer if no new one was added
+      if (!sharedState.getActivePath().some((node) => node.parentId === lastUserNode.id)) {
+        sharedState.selectBranch(previousAnswer.id);
+        syncMessages();
+      }
       setLoading(false);
     }
   };
 
-  // Function to edit a message
+  // Function to edit a message, the edited message starts a new branch
   const handleEdit = async (messageIndex: number, newMessage: string) => {
-    const oldMessage = chatHistory[messageIndex].message;
+    const node = sharedState.getActivePath()[messageIndex];
 
     // Check if the message has actually changed
-    if (oldMessage === newMessage) {
+    if (node.message.message === newMessage) {
       return; // Exit the function if the message hasn't changed
     }
 
-    const newChatHistory = [...chatHistory];
-    newChatHistory[messageIndex].message = newMessage;
-    clearMessages();
-    newChatHistory.forEach(addMessage);
+    sharedState.branchBefore(node.id);
+    syncMessages();
 
-    // Update the chain's memory with the new chat history
-    await updateChatMemory(newChatHistory, chainManager.memoryManager);
-
-    // Trigger regeneration of the AI message if the edited message was from the user
-    if (
-      newChatHistory[messageIndex].sender === USER_SENDER &&
-      messageIndex < newChatHistory.length - 1
-    ) {
-      handleRegenerate(messageIndex + 1);
-    }
+    // Update the chain's memory with the messages before the edited one
+    await rebuildMemory(sharedState.getMessages());
+
+    await sendUserMessage(newMessage);
+  };
+
+  // Function to show another alternative of a regenerated or edited message
+  const handleSwitchBranch = async (messageIndex: number, offset: number) => {
+    const node = sharedState.getActivePath()[messageIndex];
+    sharedState.switchBranch(node.id, offset);
+    syncMessages();
+
+    // Update the chain's memory with the newly active branch
+    await updateChatMemory(sharedState.getMessages(), chainManager.memoryManager);
+  };
+
+  // Alternatives of a message, null when it has none
+  const getBranchInfo = (messageIndex: number): BranchInfo | null => {
+    const node = sharedState.getActivePath()[messageIndex];
+    const branchInfo = node ? sharedState.getBranchInfo(node.id) : null;
+    return branchInfo && branchInfo.count > 1 ? branchInfo : null;
   };
 
   // Effect to handle token counting on selection
@@ -576,13 +633,11 @@ ${chatContent}`;
 
   // Function to delete a message
   const handleDelete = async (messageIndex: number) => {
-    const newChatHistory = [...chatHistory];
-    newChatHistory.splice(messageIndex, 1);
-    clearMessages();
-    newChatHistory.forEach(addMessage);
+    sharedState.deleteMessage(sharedState.getActivePath()[messageIndex].id);
+    syncMessages();
 
     // Update the chain's memory with the new chat history
-    await updateChatMemory(newChatHistory, chainManager.memoryManager);
+    await updateChatMemory(sharedState.getMessages(), chainManager.memoryManager);
   };
 
   return (
@@ -594,6 +649,11 @@ ${chatContent}`;
         <ChatSessionIcons
           currentModelKey={currentModelKey}
           setCurrentModelKey={setModelKey}
+          sessions={chatSessions}
+          currentSessionId={session.id}
+          onSwitchSession={onSwitchSession}
+          onNewSession={onNewSession}
+          onCloseSession={onCloseSession}
           onNewChat={async (openNote: boolean) => {
             handleStopGenerating(ABORT_REASON.NEW_CHAT);
             if (settings.autosaveChat && chatHistory.length > 0) {
@@ -638,6 +698,8 @@ ${chatContent}`;
         onRegenerate={handleRegenerate}
         onEdit={handleEdit}
         onDelete={handleDelete}
+        getBranchInfo={getBranchInfo}
+        onSwitchBranch={loading ? undefined : handleSwitchBranch}
       />
       <div className="bottom-container">
 
@@ -1,5 +1,5 @@
 import ChatSingleMessage from "@/components/ChatComponents/ChatSingleMessage";
-import { ChatMessage } from "@/sharedState";
+import { BranchInfo, ChatMessage } from "@/sharedState";
 import { App } from "obsidian";
 import React, { useEffect, useState } from "react";
 
@@ -12,6 +12,8 @@ interface ChatMessagesProps {
   onRegenerate: (messageIndex: number) => void;
   onEdit: (messageIndex: number, newMessage: string) => void;
   onDelete: (messageIndex: number) => void;
+  getBranchInfo?: (messageIndex: number) => BranchInfo | null;
+  onSwitchBranch?: (messageIndex: number, offset: number) => void;
 }
 
 const ChatMessages: React.FC<ChatMessagesProps> = ({
@@ -23,6 +25,8 @@ const ChatMessages: React.FC<ChatMessagesProps> = ({
   onRegenerate,
   onEdit,
   onDelete,
+  getBranchInfo,
+  onSwitchBranch,
 }) => {
   const [loadingDots, setLoadingDots] = useState("");
 
@@ -67,6 +71,8 @@ const ChatMessages: React.FC<ChatMessagesProps> = ({
               onRegenerate={() => onRegenerate(index)}
               onEdit={(newMessage) => onEdit(index, newMessage)}
               onDelete={() => onDelete(index)}
+              branchInfo={getBranchInfo?.(index)}
+              onSwitchBranch={onSwitchBranch && ((offset: number) => onSwitchBranch(index, offset))}
             />
           )
       )}
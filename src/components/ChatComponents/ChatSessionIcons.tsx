@@ -1,4 +1,5 @@
 import { CustomModel, SetChainOptions } from "@/aiParams";
+import ChatSession from "@/chatSession";
 import { CopilotPlusModal } from "@/components/CopilotPlusModal";
 import { SimilarNotesModal } from "@/components/SimilarNotesModal";
 import { AI_SENDER, VAULT_VECTOR_STORE_STRATEGY } from "@/constants";
@@ -22,6 +23,11 @@ import { stringToChainType } from "@/utils";
 interface ChatSessionIconsProps {
   currentModelKey: string;
   setCurrentModelKey: (modelKey: string) => void;
+  sessions: ChatSession[];
+  currentSessionId: number;
+  onSwitchSession: (sessionId: number) => void;
+  onNewSession: (chainType: ChainType) => void;
+  onCloseSession: () => void;
   onNewChat: (openNote: boolean) => void;
   onRefreshVaultContext: () => void;
   onFindSimilarNotes: (content: string, activeFilePath: string) => Promise<any>;
@@ -32,9 +38,21 @@ interface ChatSessionIconsProps {
   debug?: boolean;
 }
 
+// Values of the session switcher entries that start a session instead of switching to one
+const NEW_SESSION_OPTIONS: Record<string, ChainType> = {
+  "new-chat": ChainType.LLM_CHAIN,
+  "new-vault-qa": ChainType.VAULT_QA_CHAIN,
+};
+const CLOSE_SESSION_OPTION = "close-session";
+
 const ChatSessionIcons: React.FC<ChatSessionIconsProps> = ({
   currentModelKey,
   setCurrentModelKey,
+  sessions,
+  currentSessionId,
+  onSwitchSession,
+  onNewSession,
+  onCloseSession,
   onNewChat,
   onRefreshVaultContext,
   onFindSimilarNotes,
@@ -51,6 +69,17 @@ const ChatSessionIcons: React.FC<ChatSessionIconsProps> = ({
     setCurrentModelKey(selectedModelKey);
   };
 
+  const handleSessionChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = event.target.value;
+    if (value in NEW_SESSION_OPTIONS) {
+      onNewSession(NEW_SESSION_OPTIONS[value]);
+    } else if (value === CLOSE_SESSION_OPTION) {
+      onCloseSession();
+    } else {
+      onSwitchSession(Number(value));
+    }
+  };
+
   const handleFindSimilarNotes = async () => {
     const activeFile = app.workspace.getActiveFile();
     if (!activeFile) {
@@ -65,6 +94,26 @@ const ChatSessionIcons: React.FC<ChatSessionIconsProps> = ({
 
   return (
     <div className="chat-session-icons-container">
+      <div className="chat-icon-selection-tooltip">
+        <div className="select-wrapper">
+          <select
+            className="chat-icon-selection session-select"
+            value={currentSessionId}
+            onChange={handleSessionChange}
+          >
+            {sessions.map((session) => (
+              <option key={session.id} value={session.id}>
+                {session.getTitle()}
+                {session.getChainType() === ChainType.VAULT_QA_CHAIN ? " (Vault QA)" : ""}
+              </option>
+            ))}
+            <option value="new-chat">+ New chat session</option>
+            <option value="new-vault-qa">+ New Vault QA session</option>
+            <option value={CLOSE_SESSION_OPTION}>× Close this session</option>
+          </select>
+          <span className="tooltip-text">Session Selection</span>
+        </div>
+      </div>
       <div className="chat-icon-selection-tooltip">
         <div className="select-wrapper">
           <select
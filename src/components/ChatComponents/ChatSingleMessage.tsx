@@ -1,5 +1,7 @@
-import { ChatMessage } from "@/sharedState";
+import { BranchInfo, ChatMessage } from "@/sharedState";
 import { ChatButtons } from "@/components/ChatComponents/ChatButtons";
+import MessageDetails from "@/components/ChatComponents/MessageDetails";
+import SourceCitations from "@/components/ChatComponents/SourceCitations";
 import { USER_SENDER } from "@/constants";
 import { App, Component, MarkdownRenderer } from "obsidian";
 import React, { useEffect, useRef, useState } from "react";
@@ -12,6 +14,9 @@ interface ChatSingleMessageProps {
   onRegenerate?: () => void;
   onEdit?: (newMessage: string) => void;
   onDelete: () => void;
+  // Set when the message has alternatives from regenerating or editing
+  branchInfo?: BranchInfo | null;
+  onSwitchBranch?: (offset: number) => void;
 }
 
 const ChatSingleMessage: React.FC<ChatSingleMessageProps> = ({
@@ -22,6 +27,8 @@ const ChatSingleMessage: React.FC<ChatSingleMessageProps> = ({
   onRegenerate,
   onEdit,
   onDelete,
+  branchInfo,
+  onSwitchBranch,
 }) => {
   const [isCopied, setIsCopied] = useState<boolean>(false);
   const [isEditing, setIsEditing] = useState<boolean>(false);
@@ -137,9 +144,37 @@ const ChatSingleMessage: React.FC<ChatSingleMessageProps> = ({
             <div ref={contentRef}></div>
           )}
         </div>
+        {message.rewrittenQuery && (
+          <div className="rewritten-query">Searched for: {message.rewrittenQuery}</div>
+        )}
+        {message.sources && message.sources.length > 0 && (
+          <SourceCitations sources={message.sources} app={app} />
+        )}
+        {!isStreaming && <MessageDetails message={message} />}
       </div>
       {!isStreaming && (
         <div className="message-buttons-wrapper">
+          {branchInfo && (
+            <div className="message-branch-nav">
+              <button
+                onClick={() => onSwitchBranch?.(-1)}
+                disabled={!onSwitchBranch || branchInfo.index === 0}
+                title="Previous version"
+              >
+                ‹
+              </button>
+              <span>
+                {branchInfo.index + 1}/{branchInfo.count}
+              </span>
+              <button
+                onClick={() => onSwitchBranch?.(1)}
+                disabled={!onSwitchBranch || branchInfo.index === branchInfo.count - 1}
+                title="Next version"
+              >
+                ›
+              </button>
+            </div>
+          )}
           <ChatButtons
             message={message}
             onCopy={copyToClipboard}
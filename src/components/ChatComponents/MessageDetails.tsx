@@ -0,0 +1,81 @@
+import { ChainType } from "@/chainFactory";
+import { ChatMessage } from "@/sharedState";
+import React, { useState } from "react";
+
+interface MessageDetailsProps {
+  message: ChatMessage;
+}
+
+const CHAIN_LABELS: Record<string, string> = {
+  [ChainType.LLM_CHAIN]: "Chat",
+  [ChainType.VAULT_QA_CHAIN]: "Vault QA",
+  [ChainType.COPILOT_PLUS]: "Copilot Plus",
+};
+
+function formatDuration(ms?: number): string {
+  if (ms === undefined) return "-";
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function formatTokens(tokens?: number): string {
+  return tokens === undefined ? "not reported" : String(tokens);
+}
+
+// Collapsed footer of an AI message with the model that wrote it, expands to usage and timing
+const MessageDetails: React.FC<MessageDetailsProps> = ({ message }) => {
+  const [expanded, setExpanded] = useState(false);
+  const { modelKey, chainType, stats, sources } = message;
+  if (!modelKey && !stats) return null;
+
+  const [modelName, provider] = (modelKey ?? "").split("|");
+  const summary = [modelName, stats && formatDuration(stats.latency)].filter(Boolean).join(" · ");
+
+  return (
+    <div className="message-details">
+      <div className="message-details-summary" onClick={() => setExpanded(!expanded)}>
+        {expanded ? "▾" : "▸"} {summary}
+      </div>
+      {expanded && (
+        <table className="message-details-table">
+          <tbody>
+            <tr>
+              <td>Model</td>
+              <td>{provider ? `${modelName} (${provider})` : modelName || "-"}</td>
+            </tr>
+            <tr>
+              <td>Mode</td>
+              <td>{chainType ? (CHAIN_LABELS[chainType] ?? chainType) : "-"}</td>
+            </tr>
+            <tr>
+              <td>Prompt tokens</td>
+              <td>{formatTokens(stats?.promptTokens)}</td>
+            </tr>
+            <tr>
+              <td>Completion tokens</td>
+              <td>{formatTokens(stats?.completionTokens)}</td>
+            </tr>
+            <tr>
+              <td>First token</td>
+              <td>{formatDuration(stats?.timeToFirstToken)}</td>
+            </tr>
+            <tr>
+              <td>Total time</td>
+              <td>{formatDuration(stats?.latency)}</td>
+            </tr>
+            {sources && sources.length > 0 && (
+              <tr>
+                <td>Retrieved</td>
+                <td>
+                  {sources.length} chunks from {new Set(sources.map((source) => source.path)).size}{" "}
+                  notes
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default MessageDetails;
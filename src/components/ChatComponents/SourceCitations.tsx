@@ -0,0 +1,55 @@
+import { getCitationLabel, getCitationLinkText, SourceCitation } from "@/search/citations";
+import { App } from "obsidian";
+import React, { useState } from "react";
+
+interface SourceCitationsProps {
+  sources: SourceCitation[];
+  app: App;
+}
+
+const SourceCitations: React.FC<SourceCitationsProps> = ({ sources, app }) => {
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+
+  const openCitation = (citation: SourceCitation) => {
+    // The line is the most precise target, heading and block links are the fallback
+    if (citation.line !== undefined) {
+      app.workspace.openLinkText(citation.path, "", false, {
+        eState: { line: citation.line },
+      });
+    } else {
+      app.workspace.openLinkText(getCitationLinkText(citation), "", false);
+    }
+  };
+
+  const handleClick = (citation: SourceCitation) => {
+    if (expandedIndex === citation.index) {
+      setExpandedIndex(null);
+      return;
+    }
+    setExpandedIndex(citation.index);
+    openCitation(citation);
+  };
+
+  return (
+    <div className="source-citations">
+      <div className="source-citations-title">Sources</div>
+      {sources.map((citation) => (
+        <div key={citation.index} className="source-citation-item">
+          <div
+            className="source-citation-label"
+            onClick={() => handleClick(citation)}
+            title={citation.path}
+          >
+            <span className="source-citation-index">[{citation.index}]</span>
+            {getCitationLabel(citation)}
+          </div>
+          {expandedIndex === citation.index && (
+            <div className="source-citation-content">{citation.content}</div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SourceCitations;
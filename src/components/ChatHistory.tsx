@@ -0,0 +1,383 @@
+import { CHAT_ARCHIVE_FOLDER } from "@/constants";
+import CopilotPlugin from "@/main";
+import {
+  buildChatHistoryEntry,
+  ChatHistoryEntry,
+  ChatHistoryFilters,
+  filterChatHistory,
+  getChatEmbeddingText,
+  matchesKeywords,
+  scoreBySimilarity,
+  sortChatHistory,
+} from "@/search/chatHistory";
+import { formatDateTime } from "@/utils";
+import { App, normalizePath, Notice, TAbstractFile, TFile } from "obsidian";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+
+const PREVIEW_LENGTH = 160;
+const MAX_SEMANTIC_RESULTS = 20;
+
+interface ChatHistoryProps {
+  app: App;
+  plugin: CopilotPlugin;
+}
+
+type SearchMode = "keyword" | "semantic";
+
+function getPreview(text: string): string {
+  const preview = text.replace(/\s+/g, " ").trim();
+  return preview.length > PREVIEW_LENGTH ? preview.slice(0, PREVIEW_LENGTH) + "…" : preview;
+}
+
+// Model keys are "name|provider"
+function getModelName(modelKey: string): string {
+  return modelKey.split("|")[0];
+}
+
+const ChatHistory: React.FC<ChatHistoryProps> = ({ app, plugin }) => {
+  const [entries, setEntries] = useState<ChatHistoryEntry[] | null>(null);
+  const [query, setQuery] = useState("");
+  const [mode, setMode] = useState<SearchMode>("keyword");
+  // Similarity by path from the last semantic search, null until one ran
+  const [scores, setScores] = useState<Map<string, number> | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [filters, setFilters] = useState<ChatHistoryFilters>({
+    tag: "",
+    model: "",
+    showArchived: false,
+  });
+  const [pinned, setPinned] = useState<string[]>(plugin.settings.pinnedChatPaths);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const folder = plugin.settings.defaultSaveFolder;
+  const archiveFolder = normalizePath(`${folder}/${CHAT_ARCHIVE_FOLDER}`);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      const files = await plugin.getChatHistoryFiles();
+      const loaded = await Promise.all(
+        files.map(async (file) =>
+          buildChatHistoryEntry(
+            { path: file.path, basename: file.basename, ctime: file.stat.ctime },
+            await app.vault.cachedRead(file),
+            app.metadataCache.getFileCache(file)?.frontmatter,
+            file.path.startsWith(`${archiveFolder}/`)
+          )
+        )
+      );
+      setEntries(loaded);
+      // Moved or deleted conversations can't stay selected
+      const paths = new Set(loaded.map((entry) => entry.path));
+      setSelected((prev) => new Set([...prev].filter((path) => paths.has(path))));
+    } catch (error) {
+      console.error("Error loading chat history:", error);
+      new Notice("Error loading chat history. Check the console for details.");
+      setEntries([]);
+    }
+  }, [app, plugin, archiveFolder]);
+
+  useEffect(() => {
+    loadEntries();
+    // Follow conversations saved, moved or deleted while the view is open
+    const isChatNote = (file: TAbstractFile, oldPath?: string) =>
+      [file.path, oldPath].some((path) => path?.startsWith(`${folder}/`));
+    const changedRef = app.metadataCache.on("changed", (file) => isChatNote(file) && loadEntries());
+    const vaultRefs = [
+      app.vault.on("delete", (file) => isChatNote(file) && loadEntries()),
+      app.vault.on("rename", (file, oldPath) => isChatNote(file, oldPath) && loadEntries()),
+    ];
+    return () => {
+      app.metadataCache.offref(changedRef);
+      vaultRefs.forEach((ref) => app.vault.offref(ref));
+    };
+  }, [app, folder, loadEntries]);
+
+  const filtered = useMemo(() => filterChatHistory(entries ?? [], filters), [entries, filters]);
+
+  const visible = useMemo(() => {
+    if (mode === "semantic" && scores) {
+      return filtered
+        .filter((entry) => scores.has(entry.path))
+        .sort((a, b) => (scores.get(b.path) ?? 0) - (scores.get(a.path) ?? 0))
+        .slice(0, MAX_SEMANTIC_RESULTS);
+    }
+    return sortChatHistory(
+      filtered.filter((entry) => matchesKeywords(entry, query)),
+      pinned
+    );
+  }, [filtered, mode, scores, query, pinned]);
+
+  const tags = useMemo(
+    () => Array.from(new Set((entries ?? []).flatMap((entry) => entry.tags))).sort(),
+    [entries]
+  );
+  const models = useMemo(
+    () => Array.from(new Set((entries ?? []).flatMap((entry) => entry.models))).sort(),
+    [entries]
+  );
+
+  const runSemanticSearch = async () => {
+    if (!query.trim()) {
+      setScores(null);
+      return;
+    }
+    setSearching(true);
+    try {
+      // Only the conversations the filters keep are embedded
+      const { queryVector, vectors } = await plugin.vectorStoreManager.embedForSearch(
+        query,
+        filtered.map(getChatEmbeddingText)
+      );
+      setScores(scoreBySimilarity(filtered, vectors, queryVector));
+    } catch (error) {
+      console.error("Error searching chat history:", error);
+      new Notice("Error searching chat history. Check the console for details.");
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const getFile = (path: string): TFile | null => {
+    const file = app.vault.getAbstractFileByPath(path);
+    return file instanceof TFile ? file : null;
+  };
+
+  const savePinned = async (paths: string[]) => {
+    setPinned(paths);
+    plugin.settings.pinnedChatPaths = paths;
+    await plugin.saveSettings();
+  };
+
+  const togglePin = (path: string) =>
+    savePinned(pinned.includes(path) ? pinned.filter((p) => p !== path) : [...pinned, path]);
+
+  const toggleSelected = (path: string) => {
+    const next = new Set(selected);
+    if (next.has(path)) {
+      next.delete(path);
+    } else {
+      next.add(path);
+    }
+    setSelected(next);
+    setConfirmDelete(false);
+  };
+
+  const allVisibleSelected =
+    visible.length > 0 && visible.every((entry) => selected.has(entry.path));
+
+  const toggleSelectAll = () => {
+    setSelected(allVisibleSelected ? new Set() : new Set(visible.map((entry) => entry.path)));
+    setConfirmDelete(false);
+  };
+
+  // Archived conversations move to the archive subfolder, restored ones back to the conversation folder
+  const moveSelected = async (archive: boolean) => {
+    const targetFolder = archive ? archiveFolder : normalizePath(folder);
+    let nextPinned = pinned;
+    let skipped = 0;
+    try {
+      if (archive && !app.vault.getAbstractFileByPath(targetFolder)) {
+        await app.vault.createFolder(targetFolder);
+      }
+      for (const path of selected) {
+        const file = getFile(path);
+        if (!file) continue;
+        const newPath = normalizePath(`${targetFolder}/${file.name}`);
+        if (newPath === path) continue;
+        if (app.vault.getAbstractFileByPath(newPath)) {
+          skipped++;
+          continue;
+        }
+        await app.fileManager.renameFile(file, newPath);
+        nextPinned = nextPinned.map((p) => (p === path ? newPath : p));
+      }
+    } catch (error) {
+      console.error("Error moving chat history:", error);
+      new Notice("Error moving conversations. Check the console for details.");
+    }
+    if (nextPinned !== pinned) await savePinned(nextPinned);
+    if (skipped > 0) {
+      new Notice(`${skipped} conversations were not moved, a note with the same name exists.`);
+    }
+    setSelected(new Set());
+  };
+
+  const deleteSelected = async () => {
+    if (!confirmDelete) {
+      setConfirmDelete(true);
+      return;
+    }
+    setConfirmDelete(false);
+    try {
+      for (const path of selected) {
+        const file = getFile(path);
+        if (file) await app.vault.trash(file, true);
+      }
+    } catch (error) {
+      console.error("Error deleting chat history:", error);
+      new Notice("Error deleting conversations. Check the console for details.");
+    }
+    const remainingPinned = pinned.filter((path) => !selected.has(path));
+    if (remainingPinned.length !== pinned.length) await savePinned(remainingPinned);
+    setSelected(new Set());
+  };
+
+  const loadConversation = (path: string) => {
+    const file = getFile(path);
+    if (file) plugin.loadChatHistory(file);
+  };
+
+  const selectedArchived = (entries ?? []).some(
+    (entry) => entry.archived && selected.has(entry.path)
+  );
+
+  return (
+    <div className="chat-history">
+      <div className="chat-history-row">
+        <input
+          className="chat-history-query"
+          type="text"
+          placeholder={mode === "keyword" ? "Search conversations" : "Describe the conversation"}
+          value={query}
+          onChange={(event) => {
+            setQuery(event.target.value);
+            if (mode === "semantic") setScores(null);
+          }}
+          onKeyDown={(event) => {
+            if (event.key === "Enter" && mode === "semantic") runSemanticSearch();
+          }}
+        />
+        <select
+          value={mode}
+          onChange={(event) => {
+            setMode(event.target.value as SearchMode);
+            setScores(null);
+          }}
+        >
+          <option value="keyword">Keyword</option>
+          <option value="semantic">Semantic</option>
+        </select>
+        {mode === "semantic" && (
+          <button disabled={searching} onClick={runSemanticSearch}>
+            {searching ? "Searching..." : "Search"}
+          </button>
+        )}
+      </div>
+      <div className="chat-history-row">
+        <select
+          value={filters.tag}
+          onChange={(event) => setFilters({ ...filters, tag: event.target.value })}
+        >
+          <option value="">All tags</option>
+          {tags.map((tag) => (
+            <option key={tag} value={tag}>
+              #{tag}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.model}
+          onChange={(event) => setFilters({ ...filters, model: event.target.value })}
+        >
+          <option value="">All models</option>
+          {models.map((model) => (
+            <option key={model} value={model}>
+              {getModelName(model)}
+            </option>
+          ))}
+        </select>
+        <label>
+          <input
+            type="checkbox"
+            checked={filters.showArchived}
+            onChange={(event) => setFilters({ ...filters, showArchived: event.target.checked })}
+          />{" "}
+          Show archived
+        </label>
+      </div>
+      <div className="chat-history-row">
+        <label className="chat-history-select-all">
+          <input type="checkbox" checked={allVisibleSelected} onChange={toggleSelectAll} />{" "}
+          {selected.size > 0 ? `${selected.size} selected` : "Select all"}
+        </label>
+        <button disabled={selected.size === 0} onClick={() => moveSelected(true)}>
+          Archive
+        </button>
+        {selectedArchived && <button onClick={() => moveSelected(false)}>Restore</button>}
+        <button
+          className={confirmDelete ? "mod-warning" : ""}
+          disabled={selected.size === 0}
+          onClick={deleteSelected}
+        >
+          {confirmDelete ? `Delete ${selected.size} conversations?` : "Delete"}
+        </button>
+      </div>
+      {entries === null && <div className="chat-history-muted">Loading...</div>}
+      {entries?.length === 0 && (
+        <div className="chat-history-muted">No saved conversations in {folder}.</div>
+      )}
+      {entries && entries.length > 0 && visible.length === 0 && (
+        <div className="chat-history-muted">
+          {mode === "semantic" && !scores
+            ? "Press Enter to search by meaning."
+            : "No conversations match."}
+        </div>
+      )}
+      {visible.map((entry) => {
+        const isPinned = pinned.includes(entry.path);
+        const score = scores?.get(entry.path);
+        const details = [
+          formatDateTime(new Date(entry.epoch)).display,
+          ...entry.models.map(getModelName),
+          ...entry.tags.map((tag) => `#${tag}`),
+          entry.archived && "archived",
+        ].filter(Boolean);
+        return (
+          <div key={entry.path} className="chat-history-entry">
+            <input
+              type="checkbox"
+              checked={selected.has(entry.path)}
+              onChange={() => toggleSelected(entry.path)}
+            />
+            <div className="chat-history-entry-body">
+              <div className="chat-history-entry-header">
+                <a
+                  className="chat-history-entry-title"
+                  title="Load into the chat"
+                  onClick={() => loadConversation(entry.path)}
+                >
+                  {isPinned && "📌 "}
+                  {entry.title}
+                </a>
+                {mode === "semantic" && score !== undefined && (
+                  <span className="chat-history-muted">{score.toFixed(2)}</span>
+                )}
+                <button onClick={() => togglePin(entry.path)}>{isPinned ? "Unpin" : "Pin"}</button>
+                <button
+                  title={entry.path}
+                  onClick={() => app.workspace.openLinkText(entry.path, "", true)}
+                >
+                  Open note
+                </button>
+              </div>
+              <div className="chat-history-muted">{details.join(" · ")}</div>
+              {entry.firstQuestion && (
+                <div className="chat-history-entry-preview">
+                  <strong>You:</strong> {getPreview(entry.firstQuestion)}
+                </div>
+              )}
+              {entry.firstAnswer && (
+                <div className="chat-history-entry-preview">
+                  <strong>AI:</strong> {getPreview(entry.firstAnswer)}
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ChatHistory;
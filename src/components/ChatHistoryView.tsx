@@ -0,0 +1,49 @@
+import ChatHistory from "@/components/ChatHistory";
+import { CHAT_HISTORY_VIEWTYPE } from "@/constants";
+import CopilotPlugin from "@/main";
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import * as React from "react";
+import { Root, createRoot } from "react-dom/client";
+
+export default class ChatHistoryView extends ItemView {
+  private root: Root | null = null;
+
+  constructor(
+    leaf: WorkspaceLeaf,
+    private plugin: CopilotPlugin
+  ) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return CHAT_HISTORY_VIEWTYPE;
+  }
+
+  getIcon(): string {
+    return "history";
+  }
+
+  getTitle(): string {
+    return "Copilot Chat History";
+  }
+
+  getDisplayText(): string {
+    return "Copilot Chat History";
+  }
+
+  async onOpen(): Promise<void> {
+    this.root = createRoot(this.containerEl.children[1]);
+    this.root.render(
+      <React.StrictMode>
+        <ChatHistory app={this.app} plugin={this.plugin} />
+      </React.StrictMode>
+    );
+  }
+
+  async onClose(): Promise<void> {
+    if (this.root) {
+      this.root.unmount();
+      this.root = null;
+    }
+  }
+}
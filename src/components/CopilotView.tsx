@@ -1,22 +1,22 @@
-import ChainManager from "@/LLMProviders/chainManager";
+import { ChainType } from "@/chainFactory";
+import ChatSession from "@/chatSession";
 import Chat from "@/components/Chat";
-import { CHAT_VIEWTYPE } from "@/constants";
+import { CHAT_VIEWTYPE, VAULT_VECTOR_STORE_STRATEGY } from "@/constants";
 import { AppContext } from "@/context";
 import CopilotPlugin from "@/main";
 import { CopilotSettings } from "@/settings/SettingsPage";
-import SharedState from "@/sharedState";
-import { ItemView, WorkspaceLeaf } from "obsidian";
+import { ItemView, Notice, WorkspaceLeaf } from "obsidian";
 import * as React from "react";
 import { Root, createRoot } from "react-dom/client";
 
 export default class CopilotView extends ItemView {
-  private chainManager: ChainManager;
   private root: Root | null = null;
   private settings: CopilotSettings;
   private defaultSaveFolder: string;
   private handleSaveAsNote: (() => Promise<void>) | null = null;
   private debug = false;
-  sharedState: SharedState;
+  // The chat session shown, each view can switch between all open sessions
+  session: ChatSession;
   emitter: EventTarget;
   userSystemPrompt = "";
 
@@ -25,10 +25,8 @@ export default class CopilotView extends ItemView {
     private plugin: CopilotPlugin
   ) {
     super(leaf);
-    this.sharedState = plugin.sharedState;
     this.settings = plugin.settings;
     this.app = plugin.app;
-    this.chainManager = plugin.chainManager;
     this.debug = plugin.settings.debug;
     this.emitter = new EventTarget();
     this.userSystemPrompt = plugin.settings.userSystemPrompt;
@@ -55,14 +53,21 @@ export default class CopilotView extends ItemView {
   }
 
   async onOpen(): Promise<void> {
-    const root = createRoot(this.containerEl.children[1]);
-    root.render(
+    this.session = this.session ?? this.plugin.getUnshownChatSession();
+    this.render();
+  }
+
+  private render(): void {
+    if (!this.root) {
+      this.root = createRoot(this.containerEl.children[1]);
+    }
+    this.root.render(
       <AppContext.Provider value={this.app}>
         <React.StrictMode>
           <Chat
-            sharedState={this.sharedState}
+            key={this.session.id}
+            session={this.session}
             settings={this.settings}
-            chainManager={this.chainManager}
             emitter={this.emitter}
             defaultSaveFolder={this.defaultSaveFolder}
             updateUserMessageHistory={(newMessage) => {
@@ -73,12 +78,49 @@ export default class CopilotView extends ItemView {
             onSaveChat={(saveFunction) => {
               this.handleSaveAsNote = saveFunction;
             }}
+            onSwitchSession={(sessionId) => this.switchSession(sessionId)}
+            onNewSession={(chainType) => this.openNewSession(chainType)}
+            onCloseSession={() => this.closeSession()}
           />
         </React.StrictMode>
       </AppContext.Provider>
     );
   }
 
+  switchSession(sessionId: number): void {
+    const session = this.plugin.chatSessions.find((s) => s.id === sessionId);
+    if (!session || session === this.session) return;
+    const previousSession = this.session;
+    this.session = session;
+    this.render();
+    this.plugin.releaseChatSession(previousSession);
+  }
+
+  async openNewSession(chainType: ChainType): Promise<void> {
+    const session = this.plugin.createChatSession(chainType);
+    this.switchSession(session.id);
+    if (
+      chainType === ChainType.VAULT_QA_CHAIN &&
+      this.settings.indexVaultToVectorStore === VAULT_VECTOR_STORE_STRATEGY.ON_MODE_SWITCH
+    ) {
+      try {
+        await this.plugin.vectorStoreManager.indexVaultToVectorStore();
+      } catch (error) {
+        console.error("Error refreshing vault index:", error);
+        new Notice("Failed to refresh vault index. Check console for details.");
+      }
+    }
+  }
+
+  // Close the session shown, a conversation is always saved first so closing never loses it
+  async closeSession(): Promise<void> {
+    const session = this.session;
+    if (session.sharedState.chatHistory.length > 0) {
+      await this.saveChat();
+    }
+    this.plugin.closeChatSession(session);
+  }
+
   async saveChat(): Promise<void> {
     if (this.handleSaveAsNote) {
       await this.handleSaveAsNote();
@@ -88,11 +130,17 @@ export default class CopilotView extends ItemView {
   async onClose(): Promise<void> {
     if (this.root) {
       this.root.unmount();
+      this.root = null;
+    }
+    if (this.session) {
+      this.plugin.releaseChatSession(this.session, this);
     }
   }
 
   updateView(): void {
-    // Force a re-render of the React component
-    this.onOpen();
+    // Remount the chat so it reads the session's history again
+    this.root?.unmount();
+    this.root = null;
+    this.render();
   }
 }
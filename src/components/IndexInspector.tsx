@@ -0,0 +1,303 @@
+import { EVENT_NAMES } from "@/constants";
+import ChainManager from "@/LLMProviders/chainManager";
+import { getCitationLabel } from "@/search/citations";
+import { IndexStatus } from "@/search/indexStatus";
+import { parseQueryFilters } from "@/search/queryFilters";
+import { OramaDocument } from "@/vectorDBManager";
+import VectorStoreManager, { IndexedFileInfo } from "@/VectorStoreManager";
+import { Document } from "@langchain/core/documents";
+import { App, Notice, TFile } from "obsidian";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+
+interface IndexInspectorProps {
+  app: App;
+  vectorStoreManager: VectorStoreManager;
+  chainManager: ChainManager;
+  maxSourceChunks: number;
+  debug: boolean;
+}
+
+interface TestQueryResult {
+  searchQuery: string | null;
+  docs: Document[];
+}
+
+// Files that need attention first
+const STATUS_ORDER = [
+  IndexStatus.OUTDATED,
+  IndexStatus.NOT_INDEXED,
+  IndexStatus.EXCLUDED,
+  IndexStatus.MISSING,
+  IndexStatus.UP_TO_DATE,
+];
+
+function formatTime(time?: number): string {
+  return time ? new Date(time).toLocaleString() : "-";
+}
+
+function formatScore(score: unknown): string {
+  return typeof score === "number" ? score.toFixed(3) : "-";
+}
+
+function getChunkLocation(chunk: OramaDocument): string {
+  if (chunk.page !== undefined) return `page ${chunk.page}`;
+  if (chunk.nodeId !== undefined) return `node ${chunk.nodeId}`;
+  if (chunk.startLine !== undefined)
+    return `lines ${chunk.startLine + 1}-${(chunk.endLine ?? chunk.startLine) + 1}`;
+  return "";
+}
+
+const IndexInspector: React.FC<IndexInspectorProps> = ({
+  app,
+  vectorStoreManager,
+  chainManager,
+  maxSourceChunks,
+  debug,
+}) => {
+  const [files, setFiles] = useState<IndexedFileInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [pathFilter, setPathFilter] = useState("");
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [resultCount, setResultCount] = useState(maxSourceChunks);
+  const [testResult, setTestResult] = useState<TestQueryResult | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setFiles(await vectorStoreManager.getIndexedFiles());
+    } catch (error) {
+      console.error("Error loading the Copilot index:", error);
+      new Notice("Error loading the Copilot index. Check the console for details.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [vectorStoreManager]);
+
+  useEffect(() => {
+    refresh();
+    // Also show the changes of background and vault indexing
+    const handleIndexSaved = () => refresh();
+    vectorStoreManager.indexEmitter.addEventListener(EVENT_NAMES.INDEX_SAVED, handleIndexSaved);
+    return () => {
+      vectorStoreManager.indexEmitter.removeEventListener(
+        EVENT_NAMES.INDEX_SAVED,
+        handleIndexSaved
+      );
+    };
+  }, [refresh, vectorStoreManager]);
+
+  const visibleFiles = useMemo(
+    () =>
+      files
+        .filter((file) => file.path.toLowerCase().includes(pathFilter.toLowerCase()))
+        .sort(
+          (a, b) =>
+            STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+            a.path.localeCompare(b.path)
+        ),
+    [files, pathFilter]
+  );
+
+  const totalChunks = files.reduce((total, file) => total + file.chunkCount, 0);
+  const outdatedCount = files.filter((file) => file.status !== IndexStatus.UP_TO_DATE).length;
+  const selectedChunks = selectedPath ? vectorStoreManager.getChunks(selectedPath) : [];
+
+  const reindexFile = async (path: string) => {
+    const file = app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      new Notice(`${path} is no longer in the vault.`);
+      return;
+    }
+    try {
+      await vectorStoreManager.reindexFile(file);
+      new Notice(`Re-indexed ${path}.`);
+    } catch (error) {
+      console.error(`Error re-indexing ${path}:`, error);
+      new Notice(`Error re-indexing ${path}. Check the console for details.`);
+    }
+    await refresh();
+  };
+
+  const removeFile = async (path: string) => {
+    await vectorStoreManager.removeFileFromIndex(path);
+    await vectorStoreManager.saveDB();
+    new Notice(`Removed ${path} from the index.`);
+    await refresh();
+  };
+
+  const runTestQuery = async () => {
+    if (!query.trim()) return;
+    const retriever = chainManager.createRetriever({ debug, maxK: resultCount });
+    if (!retriever) {
+      new Notice("No embedding model available. Please check your settings.");
+      return;
+    }
+    setIsSearching(true);
+    try {
+      // Same filter syntax as in Vault QA
+      const { query: question, filters } = parseQueryFilters(query);
+      retriever.setFilters(filters);
+      const docs = await retriever.invoke(question);
+      setTestResult({ searchQuery: retriever.getLastSearchQuery(), docs });
+    } catch (error) {
+      console.error("Error running the test query:", error);
+      new Notice("Error running the test query. Check the console for details.");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className="index-inspector">
+      <h3>Test query</h3>
+      <div className="index-inspector-row">
+        <input
+          type="text"
+          className="index-inspector-query"
+          placeholder="Ask as in Vault QA, filters like #tag or folder:Meetings work too"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && runTestQuery()}
+        />
+        <input
+          type="number"
+          className="index-inspector-count"
+          title="Number of results"
+          min={1}
+          max={50}
+          value={resultCount}
+          onChange={(e) => setResultCount(Math.max(1, parseInt(e.target.value, 10) || 1))}
+        />
+        <button onClick={runTestQuery} disabled={isSearching}>
+          {isSearching ? "Searching..." : "Search"}
+        </button>
+      </div>
+      {testResult && (
+        <div className="index-inspector-results">
+          {testResult.searchQuery && testResult.searchQuery !== query.trim() && (
+            <div className="index-inspector-muted">Searched for: {testResult.searchQuery}</div>
+          )}
+          {testResult.docs.length === 0 && <div>No chunks retrieved.</div>}
+          <table>
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Chunk</th>
+                <th>Vector score</th>
+                <th>Text score</th>
+                <th>Fused score</th>
+                <th>Rerank score</th>
+              </tr>
+            </thead>
+            <tbody>
+              {testResult.docs.map((doc, i) => (
+                <tr
+                  key={`${doc.metadata.id}-${i}`}
+                  className="index-inspector-clickable"
+                  onClick={() => setSelectedPath(doc.metadata.path)}
+                  title={doc.metadata.path}
+                >
+                  <td>{i + 1}</td>
+                  <td>
+                    {getCitationLabel({
+                      index: i + 1,
+                      title: doc.metadata.title ?? doc.metadata.path,
+                      path: doc.metadata.path,
+                      content: "",
+                      headings: doc.metadata.headings ?? [],
+                    })}
+                  </td>
+                  <td>{formatScore(doc.metadata.vectorScore)}</td>
+                  <td>{formatScore(doc.metadata.textScore)}</td>
+                  <td>{formatScore(doc.metadata.fusedScore)}</td>
+                  <td>{formatScore(doc.metadata.rerankScore)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <h3>Indexed files</h3>
+      <div className="index-inspector-row">
+        <input
+          type="text"
+          placeholder="Filter by path"
+          value={pathFilter}
+          onChange={(e) => setPathFilter(e.target.value)}
+        />
+        <button onClick={refresh} disabled={isLoading}>
+          {isLoading ? "Loading..." : "Refresh"}
+        </button>
+      </div>
+      <div className="index-inspector-muted">
+        {files.length} files, {totalChunks} chunks, {outdatedCount} need attention.
+      </div>
+      <table className="index-inspector-files">
+        <thead>
+          <tr>
+            <th>Path</th>
+            <th>Chunks</th>
+            <th>Embedding model</th>
+            <th>Modified</th>
+            <th>Indexed</th>
+            <th>Status</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {visibleFiles.map((file) => (
+            <tr
+              key={file.path}
+              className={file.path === selectedPath ? "is-selected" : undefined}
+              onClick={() => setSelectedPath(file.path)}
+            >
+              <td className="index-inspector-clickable">{file.path}</td>
+              <td>{file.chunkCount}</td>
+              <td>{file.embeddingModel || "-"}</td>
+              <td>{formatTime(file.mtime)}</td>
+              <td>{formatTime(file.indexedAt)}</td>
+              <td>
+                <span className={`index-inspector-status status-${file.status.replace(/ /g, "-")}`}>
+                  {file.status}
+                </span>
+              </td>
+              <td className="index-inspector-actions" onClick={(e) => e.stopPropagation()}>
+                {file.status !== IndexStatus.MISSING && file.status !== IndexStatus.EXCLUDED && (
+                  <button onClick={() => reindexFile(file.path)}>Re-index</button>
+                )}
+                {file.chunkCount > 0 && (
+                  <button onClick={() => removeFile(file.path)}>Remove</button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {selectedPath && (
+        <div className="index-inspector-chunks">
+          <h3>
+            {selectedPath}: {selectedChunks.length} chunks
+          </h3>
+          {selectedChunks.map((chunk) => (
+            <details key={chunk.id} className="index-inspector-chunk">
+              <summary>
+                {[chunk.title, ...(chunk.headings ?? [])].join(" > ")}{" "}
+                <span className="index-inspector-muted">
+                  {getChunkLocation(chunk)} · {chunk.nchars} chars · {chunk.embedding?.length ?? 0}{" "}
+                  dims · {chunk.id}
+                </span>
+              </summary>
+              <pre>{chunk.content}</pre>
+            </details>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IndexInspector;
@@ -0,0 +1,55 @@
+import IndexInspector from "@/components/IndexInspector";
+import { INDEX_INSPECTOR_VIEWTYPE } from "@/constants";
+import CopilotPlugin from "@/main";
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import * as React from "react";
+import { Root, createRoot } from "react-dom/client";
+
+export default class IndexInspectorView extends ItemView {
+  private root: Root | null = null;
+
+  constructor(
+    leaf: WorkspaceLeaf,
+    private plugin: CopilotPlugin
+  ) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return INDEX_INSPECTOR_VIEWTYPE;
+  }
+
+  getIcon(): string {
+    return "database";
+  }
+
+  getTitle(): string {
+    return "Copilot Index";
+  }
+
+  getDisplayText(): string {
+    return "Copilot Index";
+  }
+
+  async onOpen(): Promise<void> {
+    this.root = createRoot(this.containerEl.children[1]);
+    this.root.render(
+      <React.StrictMode>
+        <IndexInspector
+          app={this.app}
+          vectorStoreManager={this.plugin.vectorStoreManager}
+          chainManager={this.plugin.chainManager}
+          maxSourceChunks={this.plugin.settings.maxSourceChunks}
+          debug={this.plugin.settings.debug}
+        />
+      </React.StrictMode>
+    );
+  }
+
+  async onClose(): Promise<void> {
+    if (this.root) {
+      this.root.unmount();
+      this.root = null;
+    }
+  }
+}
@@ -0,0 +1,231 @@
+import {
+  getCitationLabel,
+  getCitationLinkText,
+  SourceCitation,
+  stripChunkHeader,
+} from "@/search/citations";
+import { groupRelatedChunks, RelatedChunkDocument, RelatedNote } from "@/search/relatedNotes";
+import VectorStoreManager from "@/VectorStoreManager";
+import { App, debounce, MarkdownView, Notice, TFile } from "obsidian";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+
+// Same threshold the similar notes modal uses
+const RELATED_NOTES_MIN_SIMILARITY = 0.3;
+const MAX_RELATED_NOTES = 10;
+const MAX_CHUNKS_PER_RELATED_NOTE = 3;
+const CHUNK_PREVIEW_LENGTH = 200;
+// Flipping through notes quickly only searches for the one that stays open
+const FILE_OPEN_DEBOUNCE_MS = 300;
+
+interface RelatedNotesProps {
+  app: App;
+  vectorStoreManager: VectorStoreManager;
+}
+
+type RelatedNotesState =
+  | { status: "no-file" }
+  | { status: "loading"; path: string }
+  | { status: "not-indexed"; path: string }
+  | { status: "ready"; path: string; notes: RelatedNote[] };
+
+function toCitation(chunk: RelatedChunkDocument): SourceCitation {
+  return {
+    index: 0,
+    title: chunk.title,
+    path: chunk.path,
+    content: stripChunkHeader(chunk.content),
+    headings: chunk.headings ?? [],
+    page: chunk.page,
+    nodeId: chunk.nodeId,
+  };
+}
+
+function getPreview(chunk: RelatedChunkDocument): string {
+  const text = stripChunkHeader(chunk.content).replace(/\s+/g, " ").trim();
+  return text.length > CHUNK_PREVIEW_LENGTH ? text.slice(0, CHUNK_PREVIEW_LENGTH) + "…" : text;
+}
+
+const RelatedNotes: React.FC<RelatedNotesProps> = ({ app, vectorStoreManager }) => {
+  const [state, setState] = useState<RelatedNotesState>({ status: "no-file" });
+  // Only the search for the latest note may update the view
+  const latestPath = useRef<string | null>(null);
+
+  const findRelatedNotes = useCallback(
+    async (file: TFile | null) => {
+      if (!file) {
+        latestPath.current = null;
+        setState({ status: "no-file" });
+        return;
+      }
+      latestPath.current = file.path;
+      setState({ status: "loading", path: file.path });
+      try {
+        const chunks = await vectorStoreManager.findRelatedChunks(
+          file.path,
+          MAX_RELATED_NOTES * MAX_CHUNKS_PER_RELATED_NOTE,
+          RELATED_NOTES_MIN_SIMILARITY
+        );
+        if (latestPath.current !== file.path) return;
+        setState(
+          chunks
+            ? {
+                status: "ready",
+                path: file.path,
+                notes: groupRelatedChunks(chunks, file.path, {
+                  maxNotes: MAX_RELATED_NOTES,
+                  maxChunksPerNote: MAX_CHUNKS_PER_RELATED_NOTE,
+                }),
+              }
+            : { status: "not-indexed", path: file.path }
+        );
+      } catch (error) {
+        console.error(`Error finding notes related to ${file.path}:`, error);
+        new Notice("Error finding related notes. Check the console for details.");
+        if (latestPath.current === file.path) {
+          setState({ status: "ready", path: file.path, notes: [] });
+        }
+      }
+    },
+    [vectorStoreManager]
+  );
+
+  useEffect(() => {
+    findRelatedNotes(app.workspace.getActiveFile());
+    const onFileOpen = debounce(
+      (file: TFile) => findRelatedNotes(file),
+      FILE_OPEN_DEBOUNCE_MS,
+      true
+    );
+    // Sidebar clicks don't open a file, so the results stay while using them
+    const ref = app.workspace.on("file-open", (file) => {
+      if (file) onFileOpen(file);
+    });
+    return () => {
+      app.workspace.offref(ref);
+      onFileOpen.cancel();
+    };
+  }, [app, findRelatedNotes]);
+
+  const activePath = state.status === "no-file" ? "" : state.path;
+
+  // A link in the user's link format, relative to the active note
+  const getLink = (citation: SourceCitation): string | null => {
+    const file = app.vault.getAbstractFileByPath(citation.path);
+    if (!(file instanceof TFile)) return null;
+    const subpath = getCitationLinkText(citation).slice(citation.path.length);
+    return app.fileManager.generateMarkdownLink(file, activePath, subpath || undefined);
+  };
+
+  const openCitation = (citation: SourceCitation, newLeaf: boolean) => {
+    app.workspace.openLinkText(getCitationLinkText(citation), activePath, newLeaf);
+  };
+
+  const insertLink = (citation: SourceCitation) => {
+    // The sidebar is the active leaf while its buttons are clicked
+    const view = app.workspace.getMostRecentLeaf()?.view;
+    const link = getLink(citation);
+    if (!(view instanceof MarkdownView) || !link) {
+      new Notice("Open a note in the editor to insert the link.");
+      return;
+    }
+    view.editor.replaceSelection(link);
+  };
+
+  const onDragStart = (event: React.DragEvent, citation: SourceCitation) => {
+    const link = getLink(citation);
+    if (link) event.dataTransfer.setData("text/plain", link);
+  };
+
+  const renderLinkButton = (citation: SourceCitation) => (
+    <button
+      className="related-notes-insert"
+      title="Insert link at the cursor"
+      onClick={(event) => {
+        event.stopPropagation();
+        insertLink(citation);
+      }}
+    >
+      Link
+    </button>
+  );
+
+  return (
+    <div className="related-notes">
+      <div className="related-notes-header">
+        <span className="related-notes-active" title={activePath}>
+          {activePath ? `Related to ${activePath}` : "Open a note to see related notes."}
+        </span>
+        {activePath && (
+          <button
+            title="Search again"
+            onClick={() => findRelatedNotes(app.workspace.getActiveFile())}
+          >
+            Refresh
+          </button>
+        )}
+      </div>
+      {state.status === "loading" && <div className="related-notes-muted">Searching...</div>}
+      {state.status === "not-indexed" && (
+        <div className="related-notes-muted">
+          This note is not in the Copilot index yet. Index the vault or wait for the background
+          indexer to pick it up.
+        </div>
+      )}
+      {state.status === "ready" && state.notes.length === 0 && (
+        <div className="related-notes-muted">No related notes found.</div>
+      )}
+      {state.status === "ready" &&
+        state.notes.map((note) => {
+          const noteCitation: SourceCitation = {
+            index: 0,
+            title: note.title,
+            path: note.path,
+            content: "",
+            headings: [],
+          };
+          return (
+            <details key={note.path} className="related-note">
+              <summary
+                draggable
+                onDragStart={(event) => onDragStart(event, noteCitation)}
+                title={note.path}
+              >
+                <a
+                  className="related-note-title"
+                  onClick={(event) => {
+                    event.preventDefault();
+                    openCitation(noteCitation, event.ctrlKey || event.metaKey);
+                  }}
+                >
+                  {note.title}
+                </a>
+                <span className="related-notes-score">{note.score.toFixed(2)}</span>
+                {renderLinkButton(noteCitation)}
+              </summary>
+              {note.chunks.map(({ chunk, score }) => {
+                const citation = toCitation(chunk);
+                return (
+                  <div
+                    key={chunk.id}
+                    className="related-note-chunk"
+                    draggable
+                    onDragStart={(event) => onDragStart(event, citation)}
+                    onClick={(event) => openCitation(citation, event.ctrlKey || event.metaKey)}
+                  >
+                    <div className="related-note-chunk-header">
+                      <span>{getCitationLabel(citation)}</span>
+                      <span className="related-notes-score">{score.toFixed(2)}</span>
+                      {renderLinkButton(citation)}
+                    </div>
+                    <div className="related-note-chunk-preview">{getPreview(chunk)}</div>
+                  </div>
+                );
+              })}
+            </details>
+          );
+        })}
+    </div>
+  );
+};
+
+export default RelatedNotes;
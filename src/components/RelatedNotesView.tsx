@@ -0,0 +1,49 @@
+import RelatedNotes from "@/components/RelatedNotes";
+import { RELATED_NOTES_VIEWTYPE } from "@/constants";
+import CopilotPlugin from "@/main";
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import * as React from "react";
+import { Root, createRoot } from "react-dom/client";
+
+export default class RelatedNotesView extends ItemView {
+  private root: Root | null = null;
+
+  constructor(
+    leaf: WorkspaceLeaf,
+    private plugin: CopilotPlugin
+  ) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return RELATED_NOTES_VIEWTYPE;
+  }
+
+  getIcon(): string {
+    return "network";
+  }
+
+  getTitle(): string {
+    return "Related Notes";
+  }
+
+  getDisplayText(): string {
+    return "Related Notes";
+  }
+
+  async onOpen(): Promise<void> {
+    this.root = createRoot(this.containerEl.children[1]);
+    this.root.render(
+      <React.StrictMode>
+        <RelatedNotes app={this.app} vectorStoreManager={this.plugin.vectorStoreManager} />
+      </React.StrictMode>
+    );
+  }
+
+  async onClose(): Promise<void> {
+    if (this.root) {
+      this.root.unmount();
+      this.root = null;
+    }
+  }
+}
@@ -0,0 +1,198 @@
+import ChainManager from "@/LLMProviders/chainManager";
+import { RETRIEVAL_EVAL_REPORT_FOLDER } from "@/constants";
+import { parseQueryFilters } from "@/search/queryFilters";
+import {
+  EvalSummary,
+  formatEvalReport,
+  isEvalFile,
+  parseGoldenSet,
+  QuestionEvalResult,
+  RetrievedSource,
+  runRetrievalEval,
+} from "@/search/retrievalEval";
+import { CopilotSettings } from "@/settings/SettingsPage";
+import { formatDateTime } from "@/utils";
+import { App, Notice, TFile } from "obsidian";
+import React, { useState } from "react";
+
+interface RetrievalEvalProps {
+  app: App;
+  chainManager: ChainManager;
+  settings: CopilotSettings;
+  initialPath: string;
+}
+
+interface EvalRun {
+  summary: EvalSummary;
+  results: QuestionEvalResult[];
+  reportPath: string;
+}
+
+// The settings that change what is retrieved, recorded in every report
+function getRetrievalConfig(settings: CopilotSettings, k: number): Record<string, string | number> {
+  return {
+    "Embedding model": settings.embeddingModelKey,
+    "Chunk size": settings.chunkSize,
+    "Chunk overlap": settings.chunkOverlap,
+    "Hybrid search fusion": settings.hybridFusionStrategy,
+    "Keyword search weight": settings.textSearchWeight,
+    "Semantic search weight": settings.vectorSearchWeight,
+    "Query rewriting": settings.queryRewriteMode,
+    Reranker: settings.reranker,
+    "MMR lambda": settings.mmrLambda,
+    "Max chunks per note": settings.maxChunksPerNote,
+    "Link expansion hops": settings.graphExpansionHops,
+    "Link hop decay": settings.graphHopDecay,
+    k,
+  };
+}
+
+async function saveReport(app: App, goldenSet: TFile, content: string): Promise<string> {
+  if (!app.vault.getAbstractFileByPath(RETRIEVAL_EVAL_REPORT_FOLDER)) {
+    await app.vault.createFolder(RETRIEVAL_EVAL_REPORT_FOLDER);
+  }
+  const { fileName } = formatDateTime(new Date());
+  const reportPath = `${RETRIEVAL_EVAL_REPORT_FOLDER}/${goldenSet.basename}@${fileName}.md`;
+  await app.vault.create(reportPath, content);
+  return reportPath;
+}
+
+const RetrievalEval: React.FC<RetrievalEvalProps> = ({
+  app,
+  chainManager,
+  settings,
+  initialPath,
+}) => {
+  const [path, setPath] = useState(initialPath);
+  const [k, setK] = useState(settings.maxSourceChunks);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [run, setRun] = useState<EvalRun | null>(null);
+
+  const runEval = async () => {
+    const file = app.vault.getAbstractFileByPath(path.trim());
+    if (!(file instanceof TFile)) {
+      new Notice(`Golden set ${path} not found.`);
+      return;
+    }
+    const retriever = chainManager.createRetriever({
+      debug: settings.debug,
+      maxK: k,
+      excludePath: (candidate) => isEvalFile(candidate, file.path),
+    });
+    if (!retriever) {
+      new Notice("No embedding model available. Please check your settings.");
+      return;
+    }
+
+    setProgress("Loading golden set...");
+    try {
+      const goldenSet = parseGoldenSet(await app.vault.read(file), file.extension);
+      if (goldenSet.length === 0) {
+        new Notice("The golden set has no questions with expected sources.");
+        return;
+      }
+      const retrieve = async (question: string): Promise<RetrievedSource[]> => {
+        // Same filter syntax as in Vault QA
+        const { query, filters } = parseQueryFilters(question);
+        retriever.setFilters(filters);
+        const docs = await retriever.invoke(query);
+        return docs.map((doc) => ({
+          path: doc.metadata.path,
+          title: doc.metadata.title ?? "",
+          headings: doc.metadata.headings ?? [],
+        }));
+      };
+      const { summary, results } = await runRetrievalEval(goldenSet, retrieve, k, (done, total) =>
+        setProgress(`Question ${done} of ${total}...`)
+      );
+
+      const { display } = formatDateTime(new Date());
+      const report = formatEvalReport(summary, results, {
+        title: `Retrieval evaluation ${display}`,
+        goldenSetPath: file.path,
+        config: getRetrievalConfig(settings, k),
+      });
+      const reportPath = await saveReport(app, file, report);
+      setRun({ summary, results, reportPath });
+      new Notice(`Retrieval evaluation saved to ${reportPath}`);
+    } catch (error) {
+      console.error("Error running the retrieval evaluation:", error);
+      new Notice("Error running the retrieval evaluation. Check the console for details.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="retrieval-eval">
+      <p className="retrieval-eval-muted">
+        A golden set is a JSON file with an array of {"{ question, expected }"} objects, or a note
+        with one list item per question and the expected notes (e.g. [[Note#Heading]]) nested under
+        it. Every run is saved as a report in {RETRIEVAL_EVAL_REPORT_FOLDER}. The golden set and the
+        reports are left out of the results.
+      </p>
+      <div className="retrieval-eval-row">
+        <input
+          type="text"
+          className="retrieval-eval-path"
+          placeholder="Path of the golden set, e.g. evals/golden.json"
+          value={path}
+          onChange={(e) => setPath(e.target.value)}
+        />
+        <input
+          type="number"
+          className="retrieval-eval-k"
+          title="k, the number of chunks retrieved per question"
+          min={1}
+          max={50}
+          value={k}
+          onChange={(e) => setK(Math.max(1, parseInt(e.target.value, 10) || 1))}
+        />
+        <button onClick={runEval} disabled={progress !== null}>
+          Run
+        </button>
+      </div>
+      {progress && <div className="retrieval-eval-muted">{progress}</div>}
+      {run && (
+        <>
+          <div className="retrieval-eval-summary">
+            <span>Questions: {run.summary.questionCount}</span>
+            <span>
+              Recall@{run.summary.k}: {run.summary.recallAtK.toFixed(3)}
+            </span>
+            <span>MRR: {run.summary.mrr.toFixed(3)}</span>
+            <a onClick={() => app.workspace.openLinkText(run.reportPath, "", true)}>Open report</a>
+          </div>
+          <table>
+            <thead>
+              <tr>
+                <th>Question</th>
+                <th>Recall</th>
+                <th>RR</th>
+                <th>Missed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {run.results.map((result, i) => (
+                <tr key={i} className={result.recall < 1 ? "retrieval-eval-miss" : undefined}>
+                  <td title={result.error}>{result.question}</td>
+                  <td>{result.recall.toFixed(2)}</td>
+                  <td>{result.reciprocalRank.toFixed(2)}</td>
+                  <td>
+                    {result.expected
+                      .filter((_, j) => result.ranks[j] === null)
+                      .map((expected) => (
+                        <div key={expected}>{expected}</div>
+                      ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RetrievalEval;
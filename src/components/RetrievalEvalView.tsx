@@ -0,0 +1,72 @@
+import RetrievalEval from "@/components/RetrievalEval";
+import { RETRIEVAL_EVAL_VIEWTYPE } from "@/constants";
+import CopilotPlugin from "@/main";
+import { ItemView, ViewStateResult, WorkspaceLeaf } from "obsidian";
+import * as React from "react";
+import { Root, createRoot } from "react-dom/client";
+
+export default class RetrievalEvalView extends ItemView {
+  private root: Root | null = null;
+  private goldenSetPath = "";
+
+  constructor(
+    leaf: WorkspaceLeaf,
+    private plugin: CopilotPlugin
+  ) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return RETRIEVAL_EVAL_VIEWTYPE;
+  }
+
+  getIcon(): string {
+    return "flask-conical";
+  }
+
+  getTitle(): string {
+    return "Copilot Retrieval Evaluation";
+  }
+
+  getDisplayText(): string {
+    return "Copilot Retrieval Evaluation";
+  }
+
+  getState(): Record<string, unknown> {
+    return { goldenSetPath: this.goldenSetPath };
+  }
+
+  async setState(state: { goldenSetPath?: string }, result: ViewStateResult): Promise<void> {
+    this.goldenSetPath = state.goldenSetPath ?? this.goldenSetPath;
+    this.render();
+    await super.setState(state, result);
+  }
+
+  private render() {
+    if (!this.root) return;
+    this.root.render(
+      <React.StrictMode>
+        <RetrievalEval
+          // Start over when opened for another golden set
+          key={this.goldenSetPath}
+          app={this.app}
+          chainManager={this.plugin.chainManager}
+          settings={this.plugin.settings}
+          initialPath={this.goldenSetPath}
+        />
+      </React.StrictMode>
+    );
+  }
+
+  async onOpen(): Promise<void> {
+    this.root = createRoot(this.containerEl.children[1]);
+    this.render();
+  }
+
+  async onClose(): Promise<void> {
+    if (this.root) {
+      this.root.unmount();
+      this.root = null;
+    }
+  }
+}
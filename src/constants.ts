@@ -3,11 +3,24 @@ import { CopilotSettings } from "@/settings/SettingsPage";
 import { ChainType } from "./chainFactory";
 
 export const CHAT_VIEWTYPE = "copilot-chat-view";
+export const INDEX_INSPECTOR_VIEWTYPE = "copilot-index-inspector-view";
+export const RELATED_NOTES_VIEWTYPE = "copilot-related-notes-view";
+export const RETRIEVAL_EVAL_VIEWTYPE = "copilot-retrieval-eval-view";
+export const RETRIEVAL_EVAL_REPORT_FOLDER = "copilot-retrieval-evals";
+export const CHAT_HISTORY_VIEWTYPE = "copilot-chat-history-view";
+// Subfolder of the conversation folder that archived conversations are moved to
+export const CHAT_ARCHIVE_FOLDER = "archive";
 export const USER_SENDER = "user";
 export const AI_SENDER = "ai";
 export const DEFAULT_SYSTEM_PROMPT =
   "You are Obsidian Copilot, a helpful assistant that integrates AI to Obsidian note-taking.";
 export const CHUNK_SIZE = 5000;
+// How long the vault must be quiet before file changes are applied to the index
+export const INDEX_DEBOUNCE_MS = 5000;
+// How long to wait before retrying background index updates that failed, e.g. while offline
+export const INDEX_RETRY_MS = 60000;
+// Roughly the chunks of a large vault for two embedding models
+export const MAX_EMBEDDING_CACHE_ENTRIES = 50000;
 
 export enum ChatModels {
   GPT_4o = "gpt-4o",
@@ -108,6 +121,7 @@ export enum EmbeddingModelProviders {
   AZURE_OPENAI = "azure_openai",
   OLLAMA = "ollama",
   OPENAI_FORMAT = "3rd party (openai-format)",
+  LOCAL_WASM = "local (in-process)",
   // HUGGINGFACE = "huggingface",
   // VOYAGEAI = "voyageai",
 }
@@ -178,6 +192,36 @@ export const VAULT_VECTOR_STORE_STRATEGIES = [
   VAULT_VECTOR_STORE_STRATEGY.ON_MODE_SWITCH,
 ];
 
+export enum HYBRID_FUSION_STRATEGY {
+  RECIPROCAL_RANK = "RECIPROCAL RANK",
+  WEIGHTED_SCORE = "WEIGHTED SCORE",
+}
+
+export const HYBRID_FUSION_STRATEGIES = [
+  HYBRID_FUSION_STRATEGY.RECIPROCAL_RANK,
+  HYBRID_FUSION_STRATEGY.WEIGHTED_SCORE,
+];
+
+export enum RERANKER {
+  NONE = "NONE",
+  CHAT_MODEL = "CHAT MODEL",
+  RERANK_API = "RERANK API",
+}
+
+export const RERANKERS = [RERANKER.NONE, RERANKER.CHAT_MODEL, RERANKER.RERANK_API];
+
+export enum QUERY_REWRITE_MODE {
+  NONE = "NONE",
+  HYDE = "HYDE",
+  STANDALONE_QUESTION = "STANDALONE QUESTION",
+}
+
+export const QUERY_REWRITE_MODES = [
+  QUERY_REWRITE_MODE.NONE,
+  QUERY_REWRITE_MODE.HYDE,
+  QUERY_REWRITE_MODE.STANDALONE_QUESTION,
+];
+
 export const COMMAND_IDS = {
   FIX_GRAMMAR: "fix-grammar-prompt",
   SUMMARIZE: "summarize-prompt",
@@ -227,15 +271,34 @@ export const DEFAULT_SETTINGS: CopilotSettings = {
   customPromptsFolder: "copilot-custom-prompts",
   indexVaultToVectorStore: VAULT_VECTOR_STORE_STRATEGY.ON_MODE_SWITCH,
   qaExclusions: "",
+  qaInclusions: "",
+  qaExtraFileTypes: "",
   chatNoteContextPath: "",
   chatNoteContextTags: [],
   debug: false,
   enableEncryption: false,
   maxSourceChunks: 3,
+  chunkSize: CHUNK_SIZE,
+  chunkOverlap: 200,
+  hybridFusionStrategy: HYBRID_FUSION_STRATEGY.RECIPROCAL_RANK,
+  textSearchWeight: 0.5,
+  vectorSearchWeight: 0.5,
+  graphExpansionHops: 0,
+  graphHopDecay: 0.5,
+  mmrLambda: 1,
+  maxChunksPerNote: 0,
+  queryRewriteMode: QUERY_REWRITE_MODE.HYDE,
+  queryRewritePrompt: "",
+  reranker: RERANKER.NONE,
+  rerankApiUrl: "",
+  rerankModel: "",
+  rerankApiKey: "",
   groqApiKey: "",
   activeModels: BUILTIN_CHAT_MODELS,
   activeEmbeddingModels: BUILTIN_EMBEDDING_MODELS,
   embeddingRequestsPerSecond: 10,
+  embeddingBatchSize: 16,
+  embeddingBatchTokenLimit: 8000,
   enabledCommands: {
     [COMMAND_IDS.FIX_GRAMMAR]: {
       enabled: true,
@@ -299,10 +362,14 @@ export const DEFAULT_SETTINGS: CopilotSettings = {
     },
   },
   promptUsageTimestamps: {},
+  pinnedChatPaths: [],
 };
 
 export const EVENT_NAMES = {
   CHAT_IS_VISIBLE: "chat-is-visible",
+  CHAT_SESSIONS_CHANGED: "chat-sessions-changed",
+  CHAT_SESSION_UPDATED: "chat-session-updated",
+  INDEX_SAVED: "index-saved",
 };
 
 export enum ABORT_REASON {
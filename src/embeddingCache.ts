@@ -0,0 +1,189 @@
+import { MAX_EMBEDDING_CACHE_ENTRIES } from "@/constants";
+import { App } from "obsidian";
+
+// Cache key, vector length and when the entry was last used, in the order of the vectors file
+type SavedCacheEntry = [string, number, number];
+
+interface SavedCacheShard {
+  version: number;
+  entries: SavedCacheEntry[];
+}
+
+interface CacheEntry {
+  vector: Float32Array;
+  usedAt: number;
+}
+
+const EMBEDDING_CACHE_VERSION = 1;
+// Two hex characters of the chunk hash, so at most 256 shards
+const SHARD_ID_LENGTH = 2;
+
+/**
+ * Persistent cache of chunk embeddings keyed by (chunk content hash, embedding model),
+ * so unchanged chunks are never sent to the embedding API twice, even after the
+ * index itself was cleared. Least recently used entries are evicted first.
+ *
+ * Like the index, the cache is saved in shards by chunk hash, each a small JSON file
+ * with the keys and a binary Float32 file with the vectors, and a save only rewrites
+ * the shards with new or evicted entries.
+ */
+export default class EmbeddingCache {
+  // In order of use, least recently used first
+  private entries = new Map<string, CacheEntry>();
+  private dirtyShards = new Set<string>();
+  private loading: Promise<void> | null = null;
+
+  constructor(
+    private app: App,
+    private dirPath: string,
+    private maxEntries = MAX_EMBEDDING_CACHE_ENTRIES,
+    private now: () => number = Date.now
+  ) {}
+
+  private getKey(chunkHash: string, embeddingModel: string): string {
+    return `${embeddingModel}|${chunkHash}`;
+  }
+
+  // Model names may contain "|", chunk hashes don't
+  private getShardId(key: string): string {
+    return key.slice(key.lastIndexOf("|") + 1).slice(0, SHARD_ID_LENGTH);
+  }
+
+  private getShardPaths(shardId: string) {
+    return {
+      keysPath: `${this.dirPath}/${shardId}.json`,
+      vectorsPath: `${this.dirPath}/${shardId}.vectors`,
+    };
+  }
+
+  get(chunkHash: string, embeddingModel: string): number[] | undefined {
+    const key = this.getKey(chunkHash, embeddingModel);
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    // Re-insert to mark as most recently used, the shard is rewritten so the order survives a restart
+    this.entries.delete(key);
+    entry.usedAt = this.now();
+    this.entries.set(key, entry);
+    this.dirtyShards.add(this.getShardId(key));
+    return Array.from(entry.vector);
+  }
+
+  set(chunkHash: string, embeddingModel: string, embedding: number[]): void {
+    const key = this.getKey(chunkHash, embeddingModel);
+    this.entries.delete(key);
+    this.entries.set(key, { vector: Float32Array.from(embedding), usedAt: this.now() });
+    this.dirtyShards.add(this.getShardId(key));
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+      this.dirtyShards.add(this.getShardId(oldestKey));
+    }
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  // Loads once, later calls wait for the first load
+  load(): Promise<void> {
+    this.loading ??= this.readAll();
+    return this.loading;
+  }
+
+  private async readAll(): Promise<void> {
+    try {
+      if (!(await this.app.vault.adapter.exists(this.dirPath))) return;
+      const { files } = await this.app.vault.adapter.list(this.dirPath);
+      const loaded: [string, CacheEntry][] = [];
+      for (const path of files.filter((file) => file.endsWith(".json"))) {
+        const shardId = path.slice(path.lastIndexOf("/") + 1, -".json".length);
+        try {
+          loaded.push(...(await this.readShard(shardId)));
+        } catch (error) {
+          console.error(`Error loading embedding cache shard ${shardId}, skipping it:`, error);
+        }
+      }
+      loaded.sort((a, b) => a[1].usedAt - b[1].usedAt);
+      this.entries = new Map(loaded);
+      console.log(`Loaded ${this.entries.size} cached embeddings from ${this.dirPath}.`);
+    } catch (error) {
+      console.error(`Error loading embedding cache from ${this.dirPath}:`, error);
+      this.entries = new Map();
+    }
+  }
+
+  private async readShard(shardId: string): Promise<[string, CacheEntry][]> {
+    const { keysPath, vectorsPath } = this.getShardPaths(shardId);
+    const saved: SavedCacheShard = JSON.parse(await this.app.vault.adapter.read(keysPath));
+    if (saved.version !== EMBEDDING_CACHE_VERSION) return [];
+    const values = new Float32Array(await this.app.vault.adapter.readBinary(vectorsPath));
+    const expectedLength = saved.entries.reduce((total, [, length]) => total + length, 0);
+    if (values.length !== expectedLength) {
+      throw new Error(`Expected ${expectedLength} vector values, found ${values.length}`);
+    }
+    let offset = 0;
+    return saved.entries.map(([key, length, usedAt]) => {
+      const vector = values.slice(offset, offset + length);
+      offset += length;
+      return [key, { vector, usedAt }];
+    });
+  }
+
+  private async writeShard(shardId: string, entries: [string, CacheEntry][]): Promise<void> {
+    const { keysPath, vectorsPath } = this.getShardPaths(shardId);
+    if (entries.length === 0) {
+      for (const path of [keysPath, vectorsPath]) {
+        if (await this.app.vault.adapter.exists(path)) await this.app.vault.adapter.remove(path);
+      }
+      return;
+    }
+
+    const values = new Float32Array(entries.reduce((total, [, e]) => total + e.vector.length, 0));
+    let offset = 0;
+    const saved: SavedCacheShard = {
+      version: EMBEDDING_CACHE_VERSION,
+      entries: entries.map(([key, { vector, usedAt }]) => {
+        values.set(vector, offset);
+        offset += vector.length;
+        return [key, vector.length, usedAt];
+      }),
+    };
+    await this.app.vault.adapter.writeBinary(vectorsPath, values.buffer);
+    await this.app.vault.adapter.write(keysPath, JSON.stringify(saved));
+  }
+
+  async save(): Promise<void> {
+    if (this.dirtyShards.size === 0) return;
+    const shards = new Map<string, [string, CacheEntry][]>(
+      Array.from(this.dirtyShards, (shardId) => [shardId, []])
+    );
+    for (const item of this.entries) {
+      shards.get(this.getShardId(item[0]))?.push(item);
+    }
+
+    try {
+      if (!(await this.app.vault.adapter.exists(this.dirPath))) {
+        await this.app.vault.adapter.mkdir(this.dirPath);
+      }
+      for (const [shardId, entries] of shards) {
+        await this.writeShard(shardId, entries);
+        this.dirtyShards.delete(shardId);
+      }
+    } catch (error) {
+      console.error(`Error saving embedding cache to ${this.dirPath}:`, error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.dirtyShards.clear();
+    try {
+      if (await this.app.vault.adapter.exists(this.dirPath)) {
+        await this.app.vault.adapter.rmdir(this.dirPath, true);
+      }
+    } catch (error) {
+      console.error(`Error clearing embedding cache in ${this.dirPath}:`, error);
+    }
+  }
+}
@@ -1,34 +1,42 @@
 import ChainManager from "@/LLMProviders/chainManager";
+import { LocalWasmEmbeddings } from "@/LLMProviders/localWasmEmbeddings";
 import VectorStoreManager from "@/VectorStoreManager";
 import { CustomModel, LangChainParams, SetChainOptions } from "@/aiParams";
 import { ChainType } from "@/chainFactory";
-import { parseChatContent, updateChatMemory } from "@/chatUtils";
+import ChatSession from "@/chatSession";
+import { loadChatTree, updateChatMemory } from "@/chatUtils";
 import { registerBuiltInCommands } from "@/commands";
 import { AddPromptModal } from "@/components/AddPromptModal";
 import { AdhocPromptModal } from "@/components/AdhocPromptModal";
 import CopilotView from "@/components/CopilotView";
+import ChatHistoryView from "@/components/ChatHistoryView";
+import IndexInspectorView from "@/components/IndexInspectorView";
 import { ListPromptModal } from "@/components/ListPromptModal";
-import { LoadChatHistoryModal } from "@/components/LoadChatHistoryModal";
+import RelatedNotesView from "@/components/RelatedNotesView";
+import RetrievalEvalView from "@/components/RetrievalEvalView";
 import { SimilarNotesModal } from "@/components/SimilarNotesModal";
 import {
   BUILTIN_CHAT_MODELS,
   BUILTIN_EMBEDDING_MODELS,
+  CHAT_HISTORY_VIEWTYPE,
   CHAT_VIEWTYPE,
   CHUNK_SIZE,
   DEFAULT_SETTINGS,
   DEFAULT_SYSTEM_PROMPT,
   EVENT_NAMES,
+  INDEX_INSPECTOR_VIEWTYPE,
+  RELATED_NOTES_VIEWTYPE,
+  RETRIEVAL_EVAL_VIEWTYPE,
   VAULT_VECTOR_STORE_STRATEGY,
 } from "@/constants";
 import { CustomPromptProcessor } from "@/customPromptProcessor";
 import EncryptionService from "@/encryptionService";
 import { CustomError } from "@/error";
 import { TimestampUsageStrategy } from "@/promptUsageStrategy";
+import { BackgroundIndexer } from "@/search/backgroundIndexer";
 import { HybridRetriever } from "@/search/hybridRetriever";
 import { CopilotSettings, CopilotSettingTab } from "@/settings/SettingsPage";
-import SharedState from "@/sharedState";
 import { sanitizeSettings } from "@/utils";
-import VectorDBManager from "@/vectorDBManager";
 import { Embeddings } from "@langchain/core/embeddings";
 import { search } from "@orama/orama";
 import {
@@ -44,25 +52,28 @@ import {
 
 export default class CopilotPlugin extends Plugin {
   settings: CopilotSettings;
-  // A chat history that stores the messages sent and received
-  // Only reset when the user explicitly clicks "New Chat"
-  sharedState: SharedState;
+  // Open chat sessions, each chat view shows one of them
+  chatSessions: ChatSession[] = [];
+  // Tells the session switchers of the chat views that sessions were added or closed
+  chatSessionEmitter = new EventTarget();
+  private nextChatSessionId = 1;
+  private activeChatView: CopilotView | null = null;
+  // Chain manager of the tools outside chat sessions, e.g. the index inspector
   chainManager: ChainManager;
   activateViewPromise: Promise<void> | null = null;
   chatIsVisible = false;
   encryptionService: EncryptionService;
   userMessageHistory: string[] = [];
   vectorStoreManager: VectorStoreManager;
+  backgroundIndexer: BackgroundIndexer;
 
   isChatVisible = () => this.chatIsVisible;
 
   async onload(): Promise<void> {
     await this.loadSettings();
     this.addSettingTab(new CopilotSettingTab(this.app, this));
-    // Always have one instance of sharedState and chainManager in the plugin
-    this.sharedState = new SharedState();
-
     this.encryptionService = new EncryptionService(this.settings);
+    LocalWasmEmbeddings.pluginDir = this.manifest.dir;
     this.vectorStoreManager = new VectorStoreManager(
       this.app,
       this.settings,
@@ -74,12 +85,6 @@ export default class CopilotPlugin extends Plugin {
       await this.saveSettings();
     }
 
-    // Initialize the rate limiter
-    VectorDBManager.initialize({
-      getEmbeddingRequestsPerSecond: () => this.settings.embeddingRequestsPerSecond,
-      debug: this.settings.debug,
-    });
-
     // Ensure activeModels always includes core models
     this.mergeAllActiveModelsWithCoreModels();
     this.chainManager = new ChainManager(
@@ -91,6 +96,22 @@ export default class CopilotPlugin extends Plugin {
     );
 
     this.registerView(CHAT_VIEWTYPE, (leaf: WorkspaceLeaf) => new CopilotView(leaf, this));
+    this.registerView(
+      CHAT_HISTORY_VIEWTYPE,
+      (leaf: WorkspaceLeaf) => new ChatHistoryView(leaf, this)
+    );
+    this.registerView(
+      INDEX_INSPECTOR_VIEWTYPE,
+      (leaf: WorkspaceLeaf) => new IndexInspectorView(leaf, this)
+    );
+    this.registerView(
+      RELATED_NOTES_VIEWTYPE,
+      (leaf: WorkspaceLeaf) => new RelatedNotesView(leaf, this)
+    );
+    this.registerView(
+      RETRIEVAL_EVAL_VIEWTYPE,
+      (leaf: WorkspaceLeaf) => new RetrievalEvalView(leaf, this)
+    );
 
     this.initActiveLeafChangeHandler();
 
@@ -102,6 +123,14 @@ export default class CopilotPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: "chat-new-session-tab",
+      name: "New Copilot Chat session in a new tab",
+      callback: () => {
+        this.openChatSessionInTab();
+      },
+    });
+
     this.addCommand({
       id: "chat-toggle-window-note-area",
       name: "Toggle Copilot Chat Window in Note Area",
@@ -271,6 +300,14 @@ export default class CopilotPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: "clear-embedding-cache",
+      name: "Clear embedding cache (re-embed every chunk on the next index)",
+      callback: async () => {
+        await this.vectorStoreManager.clearEmbeddingCache();
+      },
+    });
+
     this.addCommand({
       id: "garbage-collect-vector-store",
       name: "Garbage collect vector store (remove files that no longer exist in vault)",
@@ -279,6 +316,14 @@ export default class CopilotPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: "delete-previous-vector-store",
+      name: "Delete previous vector store (kept after an embedding model change)",
+      callback: async () => {
+        await this.vectorStoreManager.deletePreviousIndex();
+      },
+    });
+
     this.addCommand({
       id: "index-vault-to-vector-store",
       name: "Index (refresh) vault for QA",
@@ -312,14 +357,42 @@ export default class CopilotPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: "open-index-inspector",
+      name: "Open index inspector",
+      callback: async () => {
+        await this.openIndexInspector();
+      },
+    });
+
+    this.addCommand({
+      id: "open-retrieval-eval",
+      name: "Evaluate retrieval with a golden question set",
+      callback: async () => {
+        // The active file is used as golden set if it can be one
+        const activeFile = this.app.workspace.getActiveFile();
+        const goldenSetPath =
+          activeFile && ["json", "md"].includes(activeFile.extension) ? activeFile.path : "";
+        await this.openRetrievalEval(goldenSetPath);
+      },
+    });
+
     this.addCommand({
       id: "load-copilot-chat-conversation",
-      name: "Load Copilot Chat conversation",
+      name: "Open Copilot Chat history",
       callback: () => {
         this.loadCopilotChatHistory();
       },
     });
 
+    this.addCommand({
+      id: "open-related-notes",
+      name: "Open related notes sidebar",
+      callback: async () => {
+        await this.openRelatedNotes();
+      },
+    });
+
     this.addCommand({
       id: "find-similar-notes",
       name: "Find similar notes to active note",
@@ -336,11 +409,14 @@ export default class CopilotPlugin extends Plugin {
       },
     });
 
-    this.registerEvent(
-      this.app.vault.on("delete", async (file) => {
-        await this.vectorStoreManager.removeDocs(file.path);
-      })
+    // Keep the index in sync with created, modified, renamed and deleted notes. Only the
+    // on startup strategy embeds edits in the background, the others embed when asked to.
+    this.backgroundIndexer = new BackgroundIndexer(
+      this.app,
+      this.vectorStoreManager,
+      () => this.settings.indexVaultToVectorStore !== VAULT_VECTOR_STORE_STRATEGY.NEVER
     );
+    this.backgroundIndexer.register(this);
 
     // Index vault to vector store on startup and after loading all commands
     // This can take a while, so we don't want to block the startup process
@@ -362,13 +438,72 @@ export default class CopilotPlugin extends Plugin {
 
   async autosaveCurrentChat() {
     if (this.settings.autosaveChat) {
-      const chatView = this.app.workspace.getLeavesOfType(CHAT_VIEWTYPE)[0]?.view as CopilotView;
-      if (chatView && chatView.sharedState.chatHistory.length > 0) {
-        await chatView.saveChat();
+      for (const chatView of this.getChatViews()) {
+        if (chatView.session.sharedState.chatHistory.length > 0) {
+          await chatView.saveChat();
+        }
       }
     }
   }
 
+  createChatSession(chainType: ChainType = ChainType.LLM_CHAIN): ChatSession {
+    const chainManager = new ChainManager(
+      this.app,
+      () => this.getLangChainParams(),
+      this.encryptionService,
+      this.settings,
+      this.vectorStoreManager
+    );
+    if (chainType !== ChainType.LLM_CHAIN) {
+      chainManager.createChain(chainType, { debug: this.settings.debug });
+    }
+    const session = new ChatSession(this.nextChatSessionId++, chainManager);
+    this.chatSessions.push(session);
+    this.chatSessionEmitter.dispatchEvent(new Event(EVENT_NAMES.CHAT_SESSIONS_CHANGED));
+    return session;
+  }
+
+  // The latest session no chat view shows, so a newly opened view doesn't mirror another one
+  getUnshownChatSession(): ChatSession {
+    const shown = new Set(this.getChatViews().map((view) => view.session));
+    const unshown = [...this.chatSessions].reverse().find((session) => !shown.has(session));
+    return unshown ?? this.createChatSession();
+  }
+
+  // Close a session once no view shows it, sessions with messages stay available in the switcher
+  releaseChatSession(session: ChatSession, closingView?: CopilotView) {
+    const isShown = this.getChatViews().some(
+      (view) => view !== closingView && view.session === session
+    );
+    if (isShown || session.sharedState.getAllNodes().length > 0) return;
+    session.abortController?.abort();
+    this.chatSessions = this.chatSessions.filter((s) => s !== session);
+    this.chatSessionEmitter.dispatchEvent(new Event(EVENT_NAMES.CHAT_SESSIONS_CHANGED));
+  }
+
+  // Close a session from the switcher, the views showing it move to another session
+  closeChatSession(session: ChatSession) {
+    session.abortController?.abort();
+    this.chatSessions = this.chatSessions.filter((s) => s !== session);
+    for (const view of this.getChatViews().filter((view) => view.session === session)) {
+      view.switchSession(this.getUnshownChatSession().id);
+    }
+    this.chatSessionEmitter.dispatchEvent(new Event(EVENT_NAMES.CHAT_SESSIONS_CHANGED));
+  }
+
+  getChatViews(): CopilotView[] {
+    return this.app.workspace
+      .getLeavesOfType(CHAT_VIEWTYPE)
+      .map((leaf) => leaf.view)
+      .filter((view): view is CopilotView => view instanceof CopilotView);
+  }
+
+  // The chat view used last, commands on selected text send their prompt there
+  getActiveChatView(): CopilotView | undefined {
+    const chatViews = this.getChatViews();
+    return chatViews.find((view) => view === this.activeChatView) ?? chatViews[0];
+  }
+
   async processText(
     editor: Editor,
     eventType: string,
@@ -385,9 +520,7 @@ export default class CopilotPlugin extends Plugin {
 
     // Without the timeout, the view is not yet active
     setTimeout(() => {
-      const activeCopilotView = this.app.workspace
-        .getLeavesOfType(CHAT_VIEWTYPE)
-        .find((leaf) => leaf.view instanceof CopilotView)?.view as CopilotView;
+      const activeCopilotView = this.getActiveChatView();
       if (activeCopilotView && (!checkSelectedText || selectedText)) {
         const event = new CustomEvent(eventType, { detail: { selectedText, eventSubtype } });
         activeCopilotView.emitter.dispatchEvent(event);
@@ -406,9 +539,7 @@ export default class CopilotPlugin extends Plugin {
 
     this.chatIsVisible = chatIsVisible;
 
-    const activeCopilotView = this.app.workspace
-      .getLeavesOfType(CHAT_VIEWTYPE)
-      .find((leaf) => leaf.view instanceof CopilotView)?.view as CopilotView;
+    const activeCopilotView = this.getActiveChatView();
 
     if (activeCopilotView) {
       const event = new CustomEvent(EVENT_NAMES.CHAT_IS_VISIBLE, {
@@ -424,6 +555,9 @@ export default class CopilotPlugin extends Plugin {
         if (!leaf) {
           return;
         }
+        if (leaf.view instanceof CopilotView) {
+          this.activeChatView = leaf.view;
+        }
         this.processChatIsVisible(leaf.getViewState().type === CHAT_VIEWTYPE);
       })
     );
@@ -448,22 +582,70 @@ export default class CopilotPlugin extends Plugin {
     this.processText(editor, eventType, customPrompt, false);
   }
 
+  async openIndexInspector(): Promise<void> {
+    const existingLeaf = this.app.workspace.getLeavesOfType(INDEX_INSPECTOR_VIEWTYPE)[0];
+    if (existingLeaf) {
+      this.app.workspace.revealLeaf(existingLeaf);
+      return;
+    }
+    await this.app.workspace.getLeaf(true).setViewState({
+      type: INDEX_INSPECTOR_VIEWTYPE,
+      active: true,
+    });
+  }
+
+  async openRetrievalEval(goldenSetPath: string): Promise<void> {
+    const existingLeaf = this.app.workspace.getLeavesOfType(RETRIEVAL_EVAL_VIEWTYPE)[0];
+    const leaf = existingLeaf ?? this.app.workspace.getLeaf(true);
+    await leaf.setViewState({
+      type: RETRIEVAL_EVAL_VIEWTYPE,
+      active: true,
+      state: { goldenSetPath },
+    });
+    this.app.workspace.revealLeaf(leaf);
+  }
+
+  async openRelatedNotes(): Promise<void> {
+    const existingLeaf = this.app.workspace.getLeavesOfType(RELATED_NOTES_VIEWTYPE)[0];
+    if (existingLeaf) {
+      this.app.workspace.revealLeaf(existingLeaf);
+      return;
+    }
+    // Not active, so the note it follows stays the active one
+    await this.app.workspace.getRightLeaf(false).setViewState({
+      type: RELATED_NOTES_VIEWTYPE,
+      active: false,
+    });
+    this.app.workspace.revealLeaf(this.app.workspace.getLeavesOfType(RELATED_NOTES_VIEWTYPE)[0]);
+  }
+
   toggleView() {
     const leaves = this.app.workspace.getLeavesOfType(CHAT_VIEWTYPE);
     leaves.length > 0 ? this.deactivateView() : this.activateView();
   }
 
   async activateView(): Promise<void> {
-    this.app.workspace.detachLeavesOfType(CHAT_VIEWTYPE);
-    this.activateViewPromise = this.app.workspace.getRightLeaf(false).setViewState({
-      type: CHAT_VIEWTYPE,
-      active: true,
-    });
-    await this.activateViewPromise;
+    // Chat views stay open, each one keeps its session
+    if (this.app.workspace.getLeavesOfType(CHAT_VIEWTYPE).length === 0) {
+      this.activateViewPromise = this.app.workspace.getRightLeaf(false).setViewState({
+        type: CHAT_VIEWTYPE,
+        active: true,
+      });
+      await this.activateViewPromise;
+    }
     this.app.workspace.revealLeaf(this.app.workspace.getLeavesOfType(CHAT_VIEWTYPE)[0]);
     this.processChatIsVisible(true);
   }
 
+  // Open a new chat session in a tab of the note area, next to the open chats
+  async openChatSessionInTab(): Promise<void> {
+    this.createChatSession();
+    const leaf = this.app.workspace.getLeaf(true);
+    await leaf.setViewState({ type: CHAT_VIEWTYPE, active: true });
+    this.app.workspace.revealLeaf(leaf);
+    this.processChatIsVisible(true);
+  }
+
   async deactivateView() {
     this.app.workspace.detachLeavesOfType(CHAT_VIEWTYPE);
     this.processChatIsVisible(false);
@@ -475,7 +657,6 @@ export default class CopilotPlugin extends Plugin {
   }
 
   async activateViewNoteArea() {
-    this.app.workspace.detachLeavesOfType(CHAT_VIEWTYPE);
     this.activateViewPromise = this.app.workspace.getLeaf(true).setViewState({
       type: CHAT_VIEWTYPE,
       active: true,
@@ -629,12 +810,15 @@ export default class CopilotPlugin extends Plugin {
   }
 
   async loadCopilotChatHistory() {
-    const chatFiles = await this.getChatHistoryFiles();
-    if (chatFiles.length === 0) {
-      new Notice("No chat history found.");
+    const existingLeaf = this.app.workspace.getLeavesOfType(CHAT_HISTORY_VIEWTYPE)[0];
+    if (existingLeaf) {
+      this.app.workspace.revealLeaf(existingLeaf);
       return;
     }
-    new LoadChatHistoryModal(this.app, chatFiles, this.loadChatHistory.bind(this)).open();
+    await this.app.workspace.getLeaf(true).setViewState({
+      type: CHAT_HISTORY_VIEWTYPE,
+      active: true,
+    });
   }
 
   async getChatHistoryFiles(): Promise<TFile[]> {
@@ -643,28 +827,24 @@ export default class CopilotPlugin extends Plugin {
       return [];
     }
     const files = await this.app.vault.getMarkdownFiles();
-    return files.filter((file) => file.path.startsWith(folder.path));
+    return files.filter((file) => file.path.startsWith(`${folder.path}/`));
   }
 
   async loadChatHistory(file: TFile) {
     const content = await this.app.vault.read(file);
-    const messages = parseChatContent(content);
-    this.sharedState.clearChatHistory();
-    messages.forEach((message) => this.sharedState.addMessage(message));
 
-    // Update the chain's memory with the loaded messages
-    await updateChatMemory(messages, this.chainManager.memoryManager);
-
-    // Check if the Copilot view is already active
-    const existingView = this.app.workspace.getLeavesOfType(CHAT_VIEWTYPE)[0];
-    if (!existingView) {
-      // Only activate the view if it's not already open
-      this.activateView();
-    } else {
-      // If the view is already open, just update its content
-      const copilotView = existingView.view as CopilotView;
-      copilotView.updateView();
+    // Load into the chat view used last, open one if there is none
+    if (!this.getActiveChatView()) {
+      await this.activateView();
     }
+    const copilotView = this.getActiveChatView();
+    if (!copilotView) return;
+    const { sharedState, chainManager } = copilotView.session;
+    const messages = loadChatTree(sharedState, content);
+
+    // Update the chain's memory with the loaded messages
+    await updateChatMemory(messages, chainManager.memoryManager);
+    copilotView.updateView();
   }
 
   async findSimilarNotes(content: string, activeFilePath: string): Promise<any> {
@@ -688,8 +868,7 @@ export default class CopilotPlugin extends Plugin {
     const hybridRetriever = new HybridRetriever(
       db,
       this.app.vault,
-      this.chainManager.chatModelManager.getChatModel(),
-      this.vectorStoreManager.getEmbeddingsManager().getEmbeddingsAPI() as Embeddings,
+      this.vectorStoreManager.getQueryEmbeddings() as Embeddings,
       {
         minSimilarityScore: 0.3,
         maxK: 20,
@@ -0,0 +1,182 @@
+import { INDEX_DEBOUNCE_MS, INDEX_RETRY_MS } from "@/constants";
+import VectorStoreManager from "@/VectorStoreManager";
+import { App, Plugin, TAbstractFile, TFile } from "obsidian";
+
+/**
+ * Keeps the vector store in sync with the vault by listening to file events.
+ * Events are collected and applied together once the vault has been quiet for
+ * a while, so typing in a note doesn't trigger an embedding call per keystroke.
+ * Only notes whose content hash changed are re-embedded.
+ */
+export class BackgroundIndexer {
+  private pendingUpserts = new Set<string>();
+  private pendingDeletes = new Set<string>();
+  // New path to the path the file had when it was last indexed
+  private pendingRenames = new Map<string, string>();
+  private flushTimer: number | null = null;
+  private isFlushing = false;
+  // Changes applied to the index in memory whose save failed
+  private hasUnsavedChanges = false;
+
+  constructor(
+    private app: App,
+    private vectorStoreManager: VectorStoreManager,
+    // Deletes and renames are always applied, embedding new content can be turned off
+    private shouldEmbed: () => boolean,
+    private debounceMs = INDEX_DEBOUNCE_MS
+  ) {}
+
+  register(plugin: Plugin) {
+    // Obsidian fires "create" for every file while loading the vault, so wait for the layout
+    this.app.workspace.onLayoutReady(() => {
+      plugin.registerEvent(this.app.vault.on("create", (file) => this.queueUpsert(file)));
+      plugin.registerEvent(this.app.vault.on("modify", (file) => this.queueUpsert(file)));
+      plugin.registerEvent(
+        this.app.vault.on("rename", (file, oldPath) => this.queueRename(file, oldPath))
+      );
+      plugin.registerEvent(this.app.vault.on("delete", (file) => this.queueDelete(file.path)));
+    });
+    plugin.register(() => this.cancel());
+  }
+
+  cancel() {
+    if (this.flushTimer !== null) {
+      window.clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  private isIndexable(file: TAbstractFile): file is TFile {
+    return file instanceof TFile && this.vectorStoreManager.isIndexableFile(file);
+  }
+
+  private queueUpsert(file: TAbstractFile) {
+    if (!this.isIndexable(file)) return;
+    this.pendingDeletes.delete(file.path);
+    this.pendingUpserts.add(file.path);
+    this.scheduleFlush();
+  }
+
+  private queueDelete(path: string) {
+    this.pendingUpserts.delete(path);
+    // A file renamed and then deleted is still indexed under its old path
+    const indexedPath = this.pendingRenames.get(path);
+    if (indexedPath !== undefined) {
+      this.pendingRenames.delete(path);
+      this.pendingDeletes.add(indexedPath);
+    }
+    this.pendingDeletes.add(path);
+    this.scheduleFlush();
+  }
+
+  // Renamed files keep their chunks, they are only re-embedded if their content changed too
+  private queueRename(file: TAbstractFile, oldPath: string) {
+    if (!this.isIndexable(file)) {
+      this.queueDelete(oldPath);
+      return;
+    }
+    const indexedPath = this.pendingRenames.get(oldPath) ?? oldPath;
+    this.pendingRenames.delete(oldPath);
+    this.pendingUpserts.delete(oldPath);
+    this.pendingRenames.set(file.path, indexedPath);
+    this.queueUpsert(file);
+  }
+
+  private scheduleFlush(delayMs = this.debounceMs) {
+    this.cancel();
+    this.flushTimer = window.setTimeout(() => this.flush(), delayMs);
+  }
+
+  // Put back what a failed flush didn't apply, events that came in meanwhile take precedence
+  private requeue(deletes: string[], renames: [string, string][], upserts: string[]) {
+    for (const path of deletes) {
+      if (!this.pendingUpserts.has(path)) this.pendingDeletes.add(path);
+    }
+    for (const [newPath, indexedPath] of renames) {
+      const laterRename = Array.from(this.pendingRenames).find(([, from]) => from === newPath);
+      if (laterRename) {
+        this.pendingRenames.set(laterRename[0], indexedPath);
+      } else if (this.pendingDeletes.has(newPath)) {
+        this.pendingDeletes.add(indexedPath);
+      } else if (!this.pendingRenames.has(newPath)) {
+        this.pendingRenames.set(newPath, indexedPath);
+      }
+    }
+    for (const path of upserts) {
+      if (!this.pendingDeletes.has(path)) this.pendingUpserts.add(path);
+    }
+  }
+
+  async flush(): Promise<void> {
+    this.flushTimer = null;
+    // Don't interleave with a full vault index or a previous flush, try again later
+    if (this.isFlushing || this.vectorStoreManager.isIndexingInProgress()) {
+      this.scheduleFlush();
+      return;
+    }
+
+    const deletes = Array.from(this.pendingDeletes);
+    const renames = Array.from(this.pendingRenames);
+    // Edits wait while embedding is off and are embedded with the next flush once it is back on
+    const upserts = this.shouldEmbed() ? Array.from(this.pendingUpserts) : [];
+    this.pendingDeletes.clear();
+    this.pendingRenames.clear();
+    if (upserts.length > 0) this.pendingUpserts.clear();
+    if (
+      deletes.length === 0 &&
+      renames.length === 0 &&
+      upserts.length === 0 &&
+      !this.hasUnsavedChanges
+    ) {
+      return;
+    }
+
+    this.isFlushing = true;
+    const removedCount = deletes.length;
+    let renamedCount = 0;
+    let reindexedCount = 0;
+    try {
+      // Each change is taken off its list once applied, what is left is retried on failure
+      while (deletes.length > 0) {
+        await this.vectorStoreManager.removeFileFromIndex(deletes[0]);
+        deletes.shift();
+      }
+
+      while (renames.length > 0) {
+        const [newPath, oldPath] = renames[0];
+        const file = this.app.vault.getAbstractFileByPath(newPath);
+        if (!(file instanceof TFile)) {
+          await this.vectorStoreManager.removeFileFromIndex(oldPath);
+        } else if (await this.vectorStoreManager.renameFileInIndex(file, oldPath)) {
+          renamedCount++;
+        }
+        renames.shift();
+      }
+
+      if (upserts.length > 0) {
+        const files = upserts
+          .map((path) => this.app.vault.getAbstractFileByPath(path))
+          .filter((file): file is TFile => file !== null && this.isIndexable(file));
+        reindexedCount = await this.vectorStoreManager.reindexFilesIfChanged(files);
+        upserts.length = 0;
+      }
+
+      if (removedCount > 0 || renamedCount > 0 || reindexedCount > 0 || this.hasUnsavedChanges) {
+        this.hasUnsavedChanges = true;
+        await this.vectorStoreManager.saveDB();
+        this.hasUnsavedChanges = false;
+        console.log(
+          `Copilot background index: removed ${removedCount}, renamed ${renamedCount}, re-embedded ${reindexedCount} notes.`
+        );
+      }
+    } catch (err) {
+      console.error("Error updating the Copilot index in the background, retrying later:", err);
+      // Part of the changes may be applied in memory already
+      this.hasUnsavedChanges = true;
+      this.requeue(deletes, renames, upserts);
+      this.scheduleFlush(INDEX_RETRY_MS);
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import { loadChatTree } from "@/chatUtils";
+import { AI_SENDER, USER_SENDER } from "@/constants";
+import { cosineSimilarity } from "@/search/graphExpansion";
+import SharedState from "@/sharedState";
+
+// A saved conversation as the chat history view lists it
+export interface ChatHistoryEntry {
+  path: string;
+  title: string;
+  epoch: number;
+  // Models that answered, from the saved messages or else the note's frontmatter
+  models: string[];
+  tags: string[];
+  firstQuestion: string;
+  firstAnswer: string;
+  // Visible messages of the saved branch, what keyword and semantic search look at
+  text: string;
+  archived: boolean;
+}
+
+export interface ChatHistoryFilters {
+  tag: string;
+  model: string;
+  showArchived: boolean;
+}
+
+// Start of a conversation embedded for semantic search, most are found by their topic
+export const CHAT_HISTORY_EMBEDDING_CHARS = 2000;
+
+interface ChatNoteFile {
+  path: string;
+  basename: string;
+  ctime: number;
+}
+
+function toTags(value: unknown): string[] {
+  const tags = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+  return tags
+    .filter((tag): tag is string => typeof tag === "string")
+    .map((tag) => tag.trim().replace(/^#/, ""))
+    .filter(Boolean);
+}
+
+/**
+ * Read a saved chat note for the history view. The title comes from the file name,
+ * which starts with the first words of the conversation, and the date from the
+ * epoch in the frontmatter, or the creation time for notes without one.
+ */
+export function buildChatHistoryEntry(
+  file: ChatNoteFile,
+  content: string,
+  frontmatter: Record<string, unknown> | undefined,
+  archived: boolean
+): ChatHistoryEntry {
+  const messages = loadChatTree(new SharedState(), content).filter((m) => m.isVisible);
+  const firstQuestion = messages.find((m) => m.sender === USER_SENDER)?.message ?? "";
+  const firstAnswer = messages.find((m) => m.sender === AI_SENDER)?.message ?? "";
+  const answerModels = messages.flatMap((m) => (m.modelKey ? [m.modelKey] : []));
+  const frontmatterModel = typeof frontmatter?.modelKey === "string" ? frontmatter.modelKey : "";
+  const models = answerModels.length > 0 ? answerModels : [frontmatterModel].filter(Boolean);
+  const epoch = Number(frontmatter?.epoch);
+
+  return {
+    path: file.path,
+    title: file.basename.split("@")[0].replace(/_/g, " ").trim() || "Untitled Chat",
+    epoch: Number.isFinite(epoch) && epoch > 0 ? epoch : file.ctime,
+    models: Array.from(new Set(models)),
+    tags: toTags(frontmatter?.tags),
+    firstQuestion,
+    firstAnswer,
+    text: messages.map((m) => m.message).join("\n\n"),
+    archived,
+  };
+}
+
+// Every word of the query appears in the title or the conversation, in any case
+export function matchesKeywords(entry: ChatHistoryEntry, query: string): boolean {
+  const haystack = `${entry.title}\n${entry.text}`.toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((term) => haystack.includes(term));
+}
+
+export function filterChatHistory(
+  entries: ChatHistoryEntry[],
+  filters: ChatHistoryFilters
+): ChatHistoryEntry[] {
+  return entries.filter(
+    (entry) =>
+      (filters.showArchived || !entry.archived) &&
+      (!filters.tag || entry.tags.includes(filters.tag)) &&
+      (!filters.model || entry.models.includes(filters.model))
+  );
+}
+
+// Pinned conversations first, then the most recent
+export function sortChatHistory(
+  entries: ChatHistoryEntry[],
+  pinnedPaths: string[]
+): ChatHistoryEntry[] {
+  const pinned = new Set(pinnedPaths);
+  return [...entries].sort(
+    (a, b) => Number(pinned.has(b.path)) - Number(pinned.has(a.path)) || b.epoch - a.epoch
+  );
+}
+
+export function getChatEmbeddingText(entry: ChatHistoryEntry): string {
+  return `${entry.title}\n\n${entry.text}`.slice(0, CHAT_HISTORY_EMBEDDING_CHARS);
+}
+
+/**
+ * Similarity of each conversation to the query by path, for entries whose text
+ * could be embedded. Vectors are in the order of the entries.
+ */
+export function scoreBySimilarity(
+  entries: ChatHistoryEntry[],
+  vectors: (number[] | undefined)[],
+  queryVector: number[]
+): Map<string, number> {
+  const scores = new Map<string, number>();
+  entries.forEach((entry, i) => {
+    const vector = vectors[i];
+    if (vector) scores.set(entry.path, cosineSimilarity(vector, queryVector));
+  });
+  return scores;
+}
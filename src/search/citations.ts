@@ -0,0 +1,164 @@
+import { Document } from "@langchain/core/documents";
+import { TFile, Vault } from "obsidian";
+
+export interface SourceCitation {
+  // 1-based number the answer uses to refer to this chunk, e.g. [1]
+  index: number;
+  title: string;
+  path: string;
+  // Chunk text without the "[[title]] ---" chunk header
+  content: string;
+  // Heading path leading to the chunk, outermost first
+  headings: string[];
+  blockId?: string;
+  // 0-based line in the note where the chunk starts
+  line?: number;
+  // 1-based page of a PDF source
+  page?: number;
+  // Canvas node the chunk comes from
+  nodeId?: string;
+}
+
+const HEADING_REGEX = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+const BLOCK_ID_REGEX = /\s\^([A-Za-z0-9-]+)\s*$/m;
+
+// Remove the "[[title]] > Section --- " part at the beginning of the chunk
+export function stripChunkHeader(content: string): string {
+  return content.replace(/^\[\[.*?\]\][^\n]*\s*---\s*/, "");
+}
+
+/**
+ * Find where a chunk starts in its note and which headings it sits under.
+ * Falls back to the chunk's first line when the note changed since indexing,
+ * and returns an empty location when the chunk can't be found at all.
+ */
+export function locateChunkInNote(
+  noteContent: string,
+  chunkBody: string
+): { line?: number; headings: string[] } {
+  let offset = noteContent.indexOf(chunkBody);
+  if (offset === -1) {
+    const firstLine = chunkBody.split("\n").find((line) => line.trim().length > 0);
+    offset = firstLine ? noteContent.indexOf(firstLine) : -1;
+  }
+  if (offset === -1) {
+    return { headings: [] };
+  }
+
+  const lines = noteContent.slice(0, offset).split("\n");
+  const line = lines.length - 1;
+  // Headings inside the chunk's own first line count too
+  const chunkFirstLine = noteContent.slice(offset).split("\n")[0];
+  lines[line] = lines[line] + chunkFirstLine;
+
+  const headingStack: { level: number; text: string }[] = [];
+  let inFence = false;
+  for (const text of lines) {
+    if (FENCE_REGEX.test(text)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+    const match = text.match(HEADING_REGEX);
+    if (match) {
+      const level = match[1].length;
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+        headingStack.pop();
+      }
+      headingStack.push({ level, text: match[2] });
+    }
+  }
+
+  return { line, headings: headingStack.map((heading) => heading.text) };
+}
+
+// Chunks record their location when indexed, older chunks are searched for in the note
+async function getChunkLocation(
+  doc: Document,
+  content: string,
+  readNote: () => Promise<string | null>
+): Promise<{ line?: number; headings: string[]; page?: number; nodeId?: string }> {
+  const { headings, startLine, page, nodeId } = doc.metadata ?? {};
+  if (page !== undefined || nodeId !== undefined) {
+    return { headings: Array.isArray(headings) ? headings : [], page, nodeId };
+  }
+  if (Array.isArray(headings) && typeof startLine === "number") {
+    return { line: startLine, headings };
+  }
+  const noteContent = await readNote();
+  return noteContent ? locateChunkInNote(noteContent, content) : { headings: [] };
+}
+
+/**
+ * Turn retrieved chunks into numbered citations, in the same order the chunks
+ * were passed to the LLM as context.
+ */
+export async function buildSourceCitations(
+  vault: Vault,
+  docs: Document[]
+): Promise<SourceCitation[]> {
+  const noteContents = new Map<string, Promise<string | null>>();
+  const readNote = (path: string) => {
+    if (!noteContents.has(path)) {
+      const file = vault.getAbstractFileByPath(path);
+      noteContents.set(
+        path,
+        file instanceof TFile ? vault.cachedRead(file) : Promise.resolve(null)
+      );
+    }
+    return noteContents.get(path) as Promise<string | null>;
+  };
+
+  return Promise.all(
+    docs.map(async (doc, i) => {
+      const path: string = doc.metadata?.path ?? "";
+      const content = stripChunkHeader(doc.pageContent);
+      const location = await getChunkLocation(doc, content, () => readNote(path));
+
+      return {
+        index: i + 1,
+        title: doc.metadata?.title ?? path,
+        path,
+        content,
+        blockId: content.match(BLOCK_ID_REGEX)?.[1],
+        ...location,
+      };
+    })
+  );
+}
+
+// Link text Obsidian understands, most specific target first: PDF page, block, heading, note
+export function getCitationLinkText(citation: SourceCitation): string {
+  if (citation.page !== undefined) {
+    return `${citation.path}#page=${citation.page}`;
+  }
+  // Canvas nodes can't be linked to, open the canvas itself
+  if (citation.nodeId !== undefined) {
+    return citation.path;
+  }
+  if (citation.blockId) {
+    return `${citation.path}#^${citation.blockId}`;
+  }
+  if (citation.headings.length > 0) {
+    return `${citation.path}#${citation.headings[citation.headings.length - 1]}`;
+  }
+  return citation.path;
+}
+
+export function getCitationLabel(citation: SourceCitation): string {
+  // Notes often open with an H1 that repeats the title
+  const headings =
+    citation.headings[0] === citation.title ? citation.headings.slice(1) : citation.headings;
+  return [citation.title, ...headings].join(" > ");
+}
+
+// Markdown version of the sources, used when the chat is saved as a note
+export function formatCitationsAsMarkdown(citations: SourceCitation[]): string {
+  if (citations.length === 0) return "";
+  const lines = citations.map((citation) => {
+    const linkText = getCitationLinkText(citation).replace(/\.md(?=#|$)/, "");
+    return `${citation.index}. [[${linkText}|${getCitationLabel(citation)}]]`;
+  });
+  return "\n\n#### Sources:\n" + lines.join("\n");
+}
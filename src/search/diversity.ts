@@ -0,0 +1,74 @@
+import { cosineSimilarity } from "@/search/graphExpansion";
+
+export interface DiversityOptions {
+  // Maximal marginal relevance trade-off, 1 ranks by relevance only, 0 by novelty only
+  mmrLambda: number;
+  // Chunks of one note among the results, 0 for no limit
+  maxChunksPerNote: number;
+}
+
+export interface DiversityCandidate<T> {
+  item: T;
+  path: string;
+  vector?: number[];
+}
+
+export function isDiversityEnabled(options: DiversityOptions): boolean {
+  return options.mmrLambda < 1 || options.maxChunksPerNote > 0;
+}
+
+/**
+ * Pick k candidates from a ranked list with maximal marginal relevance, so chunks
+ * that repeat an already picked chunk give way to other perspectives. Relevance is
+ * taken from the rank, which makes fused, keyword and vector hits comparable.
+ */
+export function selectDiverse<T>(
+  candidates: DiversityCandidate<T>[],
+  k: number,
+  options: DiversityOptions
+): T[] {
+  if (!isDiversityEnabled(options)) return candidates.slice(0, k).map(({ item }) => item);
+
+  const lambda = Math.min(Math.max(options.mmrLambda, 0), 1);
+  const remaining = candidates.map((candidate, rank) => ({
+    ...candidate,
+    relevance: 1 - rank / candidates.length,
+    // Highest similarity to any chunk picked so far
+    redundancy: 0,
+  }));
+  const countsByPath = new Map<string, number>();
+  const selected: T[] = [];
+
+  while (selected.length < k) {
+    let bestIndex = -1;
+    let bestScore = -Infinity;
+    remaining.forEach((candidate, i) => {
+      if (
+        options.maxChunksPerNote > 0 &&
+        (countsByPath.get(candidate.path) ?? 0) >= options.maxChunksPerNote
+      ) {
+        return;
+      }
+      const score = lambda * candidate.relevance - (1 - lambda) * candidate.redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    });
+    if (bestIndex === -1) break;
+
+    const [picked] = remaining.splice(bestIndex, 1);
+    selected.push(picked.item);
+    countsByPath.set(picked.path, (countsByPath.get(picked.path) ?? 0) + 1);
+    if (lambda < 1 && picked.vector) {
+      for (const candidate of remaining) {
+        if (!candidate.vector) continue;
+        candidate.redundancy = Math.max(
+          candidate.redundancy,
+          cosineSimilarity(candidate.vector, picked.vector)
+        );
+      }
+    }
+  }
+  return selected;
+}
@@ -0,0 +1,37 @@
+/**
+ * Exact mapping from a file path to the ids of its chunks in the Orama index.
+ * Orama can only find documents by path with a full-text search, which also
+ * matches similar paths, so this is kept next to the index for deletes and renames.
+ */
+export default class DocumentPathIndex {
+  private idsByPath = new Map<string, Set<string>>();
+
+  add(path: string, id: string) {
+    const ids = this.idsByPath.get(path) ?? new Set<string>();
+    ids.add(id);
+    this.idsByPath.set(path, ids);
+  }
+
+  getIds(path: string): string[] {
+    return Array.from(this.idsByPath.get(path) ?? []);
+  }
+
+  // Forget a path and return the ids of its chunks
+  removePath(path: string): string[] {
+    const ids = this.getIds(path);
+    this.idsByPath.delete(path);
+    return ids;
+  }
+
+  getPaths(): string[] {
+    return Array.from(this.idsByPath.keys());
+  }
+
+  clear() {
+    this.idsByPath.clear();
+  }
+
+  get size(): number {
+    return this.idsByPath.size;
+  }
+}
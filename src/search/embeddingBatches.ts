@@ -0,0 +1,34 @@
+// Rough estimate for splitting batches, providers count the real tokens
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Split texts into consecutive batches of at most maxBatchSize texts and maxTokens
+ * estimated tokens. A text over the token budget on its own gets a batch to itself.
+ *
+ * @return {number[][]} the indices of the texts in each batch
+ */
+export function createEmbeddingBatches(
+  texts: string[],
+  maxBatchSize: number,
+  maxTokens: number
+): number[][] {
+  const batches: number[][] = [];
+  let batch: number[] = [];
+  let batchTokens = 0;
+  texts.forEach((text, index) => {
+    const tokens = estimateTokens(text);
+    if (batch.length > 0 && (batch.length >= maxBatchSize || batchTokens + tokens > maxTokens)) {
+      batches.push(batch);
+      batch = [];
+      batchTokens = 0;
+    }
+    batch.push(index);
+    batchTokens += tokens;
+  });
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+}
@@ -0,0 +1,116 @@
+// Source path to target path to link count, the shape of metadataCache.resolvedLinks
+export type ResolvedLinks = Record<string, Record<string, number>>;
+
+// The links of one note, so expansion only looks at the notes it visits
+export interface LinkGraph {
+  // Paths the note links to
+  getLinks(path: string): string[];
+  // Paths of the notes linking to it
+  getBacklinks(path: string): string[];
+}
+
+/**
+ * Link graph over resolved links. Finding backlinks goes through every note, so
+ * prefer the metadata cache's backlinks where there is one.
+ */
+export function createLinkGraph(
+  resolvedLinks: ResolvedLinks,
+  getBacklinks?: (path: string) => string[]
+): LinkGraph {
+  return {
+    getLinks: (path) => Object.keys(resolvedLinks[path] ?? {}),
+    getBacklinks:
+      getBacklinks ??
+      ((path) =>
+        Object.keys(resolvedLinks).filter((source) => resolvedLinks[source][path] !== undefined)),
+  };
+}
+
+// Linked notes searched per question, each one is a lookup in the index
+export const GRAPH_EXPANSION_MAX_NOTES = 30;
+
+export interface GraphExpansionOptions {
+  // Link hops to follow from the notes of the initial hits, 0 turns expansion off
+  hops: number;
+  // Factor applied to the similarity of a chunk per hop, e.g. 0.5 halves it for direct neighbours
+  hopDecay: number;
+  // Cap on the notes pulled in, hub notes can link to hundreds
+  maxNotes: number;
+}
+
+/**
+ * Notes reachable from the seed notes, best first, through outgoing links and
+ * backlinks, with the number of hops to the nearest seed. Closer notes come first,
+ * then notes linked with more notes of the hop before, then notes linked with a
+ * better one. The seeds themselves are not included.
+ */
+export function getLinkedNotes(
+  linkGraph: LinkGraph,
+  seedPaths: string[],
+  hops: number,
+  maxNotes: number
+): Map<string, number> {
+  const linked = new Map<string, number>();
+  const visited = new Set(seedPaths);
+  let frontier = Array.from(visited);
+  for (let hop = 1; hop <= hops && frontier.length > 0 && linked.size < maxNotes; hop++) {
+    // Neighbour to the notes of the frontier it is linked with and the rank of the best one
+    const candidates = new Map<string, { linkedWith: Set<string>; bestRank: number }>();
+    frontier.forEach((path, rank) => {
+      for (const neighbour of [...linkGraph.getLinks(path), ...linkGraph.getBacklinks(path)]) {
+        if (visited.has(neighbour)) continue;
+        const candidate = candidates.get(neighbour) ?? { linkedWith: new Set(), bestRank: rank };
+        candidate.linkedWith.add(path);
+        candidates.set(neighbour, candidate);
+      }
+    });
+    frontier = Array.from(candidates)
+      .sort(([, a], [, b]) => b.linkedWith.size - a.linkedWith.size || a.bestRank - b.bestRank)
+      .slice(0, maxNotes - linked.size)
+      .map(([path]) => path);
+    for (const path of frontier) {
+      linked.set(path, hop);
+      visited.add(path);
+    }
+  }
+  return linked;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export function decayScore(similarity: number, hop: number, hopDecay: number): number {
+  return similarity * Math.pow(hopDecay, hop);
+}
+
+/**
+ * Merge chunks found through links into the ranked hits. Ranked hits keep their
+ * order and a linked chunk goes before the first ranked hit it beats, comparing
+ * its decayed similarity with the hit's similarity to the query.
+ */
+export function mergeLinkedHits<T>(
+  ranked: { hit: T; similarity: number }[],
+  linked: { hit: T; score: number }[]
+): T[] {
+  const sortedLinked = [...linked].sort((a, b) => b.score - a.score);
+  const merged: T[] = [];
+  let next = 0;
+  for (const { hit, similarity } of ranked) {
+    while (next < sortedLinked.length && sortedLinked[next].score > similarity) {
+      merged.push(sortedLinked[next++].hit);
+    }
+    merged.push(hit);
+  }
+  merged.push(...sortedLinked.slice(next).map(({ hit }) => hit));
+  return merged;
+}
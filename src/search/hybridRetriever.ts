@@ -1,37 +1,92 @@
+import { DiversityOptions, selectDiverse } from "@/search/diversity";
+import {
+  cosineSimilarity,
+  decayScore,
+  getLinkedNotes,
+  GraphExpansionOptions,
+  LinkGraph,
+  mergeLinkedHits,
+} from "@/search/graphExpansion";
+import { buildOramaWhere, hasQueryFilters, OramaWhere, QueryFilters } from "@/search/queryFilters";
+import { fuseRankedLists } from "@/search/rankFusion";
+import { QueryRewriter } from "@/search/queryRewriter";
+import { Reranker, sortByRerankScores } from "@/search/reranker";
 import { extractNoteTitles, getNoteFileFromTitle } from "@/utils";
-import VectorDBManager from "@/vectorDBManager";
+import VectorDBManager, { OramaDocument, OramaHit } from "@/vectorDBManager";
 import { BaseCallbackConfig } from "@langchain/core/callbacks/manager";
 import { Document } from "@langchain/core/documents";
 import { Embeddings } from "@langchain/core/embeddings";
-import { BaseLanguageModel } from "@langchain/core/language_models/base";
-import { ChatPromptTemplate } from "@langchain/core/prompts";
 import { BaseRetriever } from "@langchain/core/retrievers";
 import { Orama, search } from "@orama/orama";
-import { Vault } from "obsidian";
+import { Notice, Vault } from "obsidian";
+
+// How many candidates each search fetches per final slot, so fusion has room to reorder
+const FUSION_CANDIDATE_MULTIPLIER = 3;
+// How many candidates the reranker gets per final slot
+const RERANK_CANDIDATE_MULTIPLIER = 4;
+// Chunks a linked note may add, so one long neighbour can't push out every other result
+const MAX_LINKED_CHUNKS_PER_NOTE = 2;
+
+// Warn about an index without the filter fields once per session, not on every question
+let hasWarnedAboutLegacySchema = false;
 
 export class HybridRetriever extends BaseRetriever {
   public lc_namespace = ["hybrid_retriever"];
 
-  private llm: BaseLanguageModel;
-  private queryRewritePrompt: ChatPromptTemplate;
   private embeddingsInstance: Embeddings;
+  private filters: QueryFilters | null = null;
+  private lastSearchQuery: string | null = null;
   constructor(
     private db: Orama<any>,
     private vault: Vault,
-    llm: BaseLanguageModel,
     embeddingsInstance: Embeddings,
     private options: {
       minSimilarityScore: number;
       maxK: number;
+      // Full-text (BM25) search only runs when its weight is above 0
+      textWeight?: number;
+      vectorWeight?: number;
+      fusionStrategy?: string;
+      // Without a rewriter the question is searched for as is
+      queryRewriter?: QueryRewriter;
+      // Optional second stage that reorders an over-fetched candidate list
+      reranker?: Reranker;
+      // Pull in chunks of notes linked to or from the notes of the initial hits
+      graphExpansion?: GraphExpansionOptions & { linkGraph: LinkGraph };
+      // Chunks of a note from the index's path lookup, else they are found with a search
+      getChunks?: (path: string) => OramaDocument[];
+      // Notes never returned, e.g. the golden set of a retrieval eval
+      excludePath?: (path: string) => boolean;
+      // Maximal marginal relevance and a cap on chunks per note
+      diversity?: DiversityOptions;
     },
     private debug?: boolean
   ) {
     super();
-    this.llm = llm;
     this.embeddingsInstance = embeddingsInstance;
-    this.queryRewritePrompt = ChatPromptTemplate.fromTemplate(
-      "Please write a passage to answer the question. If you don't know the answer, just make up a passage. \nQuestion: {question}\nPassage:"
-    );
+  }
+
+  // The query of the latest vector search, after rewriting
+  getLastSearchQuery(): string | null {
+    return this.lastSearchQuery;
+  }
+
+  // Scope the next searches to notes matching the filters, null to search the whole vault
+  setFilters(filters: QueryFilters | null) {
+    this.filters = filters && hasQueryFilters(filters) ? filters : null;
+  }
+
+  private getWhereClause(): OramaWhere | undefined {
+    if (!this.filters) return undefined;
+    const { where, unsupported } = buildOramaWhere(this.filters, this.db.schema);
+    if (unsupported.length > 0 && !hasWarnedAboutLegacySchema) {
+      hasWarnedAboutLegacySchema = true;
+      new Notice(
+        "Your Copilot index was built before tag, folder and property filters existed. Force re-index the vault to use them."
+      );
+      console.warn("Filters skipped, missing from the index schema:", unsupported);
+    }
+    return Object.keys(where).length > 0 ? where : undefined;
   }
 
   async getRelevantDocuments(query: string, config?: BaseCallbackConfig): Promise<Document[]> {
@@ -40,13 +95,21 @@ export class HybridRetriever extends BaseRetriever {
     // Retrieve chunks for explicitly mentioned note titles
     const explicitChunks = await this.getExplicitChunks(noteTitles);
     let rewrittenQuery = query;
-    if (config?.runName !== "no_hyde") {
-      // Use config to determine if HyDE should be used
-      // Generate a hypothetical answer passage
-      rewrittenQuery = await this.rewriteQuery(query);
+    const queryRewriter = this.options.queryRewriter;
+    // Callers can still opt out of rewriting with the "no_hyde" run name
+    if (queryRewriter && config?.runName !== "no_hyde") {
+      rewrittenQuery = await this.rewriteQuery(queryRewriter, query);
+    }
+    this.lastSearchQuery = rewrittenQuery;
+    const reranker = this.options.reranker;
+    const candidateCount = reranker
+      ? this.options.maxK * RERANK_CANDIDATE_MULTIPLIER
+      : this.options.maxK;
+    // Full-text search uses the original query so exact terms are not lost in the rewrite
+    let oramaChunks = await this.getOramaChunks(query, rewrittenQuery, candidateCount);
+    if (reranker && oramaChunks.length > 0) {
+      oramaChunks = await this.rerankChunks(reranker, query, oramaChunks);
     }
-    // Perform vector similarity search using ScoreThresholdRetriever
-    const oramaChunks = await this.getOramaChunks(rewrittenQuery);
 
     // Combine explicit and vector chunks, removing duplicates while maintaining order
     const uniqueChunks = new Set<string>(explicitChunks.map((chunk) => chunk.pageContent));
@@ -63,7 +126,7 @@ export class HybridRetriever extends BaseRetriever {
     if (this.debug) {
       console.log("*** HYBRID RETRIEVER DEBUG INFO: ***");
 
-      if (config?.runName !== "no_hyde") {
+      if (rewrittenQuery !== query) {
         console.log("\nOriginal Query: ", query);
         console.log("\nRewritten Query: ", rewrittenQuery);
       }
@@ -84,17 +147,9 @@ export class HybridRetriever extends BaseRetriever {
     return combinedChunks.slice(0, this.options.maxK);
   }
 
-  private async rewriteQuery(query: string): Promise<string> {
+  private async rewriteQuery(queryRewriter: QueryRewriter, query: string): Promise<string> {
     try {
-      const promptResult = await this.queryRewritePrompt.format({ question: query });
-      const rewrittenQueryObject = await this.llm.invoke(promptResult);
-
-      // Directly return the content assuming it's structured as expected
-      if (rewrittenQueryObject && "content" in rewrittenQueryObject) {
-        return rewrittenQueryObject.content;
-      }
-      console.warn("Unexpected rewrittenQuery format. Falling back to original query.");
-      return query;
+      return await queryRewriter.rewrite(query);
     } catch (error) {
       console.error("Error in rewriteQuery:", error);
       // If there's an error, return the original query
@@ -106,81 +161,260 @@ export class HybridRetriever extends BaseRetriever {
     const explicitChunks: Document[] = [];
     for (const noteTitle of noteTitles) {
       const noteFile = await getNoteFileFromTitle(this.vault, noteTitle);
+      if (noteFile && this.options.excludePath?.(noteFile.path)) continue;
       const hits = await VectorDBManager.getDocsByPath(this.db, noteFile?.path ?? "");
       if (hits) {
-        const matchingChunks = hits.map(
-          (hit: any) =>
-            new Document({
-              pageContent: hit.document.content,
-              metadata: {
-                ...hit.document.metadata,
-                score: hit.score,
-                path: hit.document.path,
-                mtime: hit.document.mtime,
-                ctime: hit.document.ctime,
-                title: hit.document.title,
-                id: hit.document.id,
-                embeddingModel: hit.document.embeddingModel,
-                tags: hit.document.tags,
-                extension: hit.document.extension,
-                created_at: hit.document.created_at,
-                nchars: hit.document.nchars,
-              },
-            })
-        );
+        const matchingChunks = hits.map((hit: OramaHit) => this.hitToDocument(hit));
         explicitChunks.push(...matchingChunks);
       }
     }
     return explicitChunks;
   }
 
-  private async getOramaChunks(query: string): Promise<Document[]> {
-    let queryVector: number[];
+  private async rerankChunks(
+    reranker: Reranker,
+    query: string,
+    chunks: Document[]
+  ): Promise<Document[]> {
     try {
-      queryVector = await this.convertQueryToVector(query);
+      const scores = await reranker.rerank(query, chunks);
+      const reranked = sortByRerankScores(chunks, scores);
+      if (this.debug) {
+        const describe = (doc: Document) => ({
+          path: doc.metadata.path,
+          score: doc.metadata.score,
+          rerankScore: doc.metadata.rerankScore,
+        });
+        console.log(
+          "\nBefore reranking:",
+          chunks.map(describe),
+          "\nAfter reranking:",
+          reranked.map(describe)
+        );
+      }
+      // Reranking can bring chunks of one note back together, so the cap applies again
+      const maxChunksPerNote = this.options.diversity?.maxChunksPerNote ?? 0;
+      return selectDiverse(
+        reranked.map((doc) => ({ item: doc, path: doc.metadata.path })),
+        this.options.maxK,
+        { mmrLambda: 1, maxChunksPerNote }
+      );
     } catch (error) {
-      console.error(
-        "Error in convertQueryToVector, please ensure your embedding model is working and has an adequate context length:",
-        error,
-        "\nQuery:",
-        query
+      console.error("Error reranking chunks, keeping the retrieval order:", error);
+      return chunks.slice(0, this.options.maxK);
+    }
+  }
+
+  private async getOramaChunks(
+    textQuery: string,
+    vectorQuery: string,
+    limit: number
+  ): Promise<Document[]> {
+    const textWeight = this.options.textWeight ?? 0;
+    const vectorWeight = this.options.vectorWeight ?? 1;
+    const candidateLimit = limit * FUSION_CANDIDATE_MULTIPLIER;
+    const where = this.getWhereClause();
+    const db = this.db;
+    const graphExpansion = this.options.graphExpansion;
+    const expandsLinks = !!graphExpansion && graphExpansion.hops > 0 && !where;
+
+    // Scoring linked chunks needs the query vector even when vector search is off
+    let queryVector: number[] | null = null;
+    if (vectorWeight > 0 || expandsLinks) {
+      try {
+        queryVector = await this.convertQueryToVector(vectorQuery);
+      } catch (error) {
+        console.error(
+          "Error in convertQueryToVector, please ensure your embedding model is working and has an adequate context length:",
+          error,
+          "\nQuery:",
+          vectorQuery
+        );
+        throw error;
+      }
+    }
+
+    let vectorHits: OramaHit[] = [];
+    if (vectorWeight > 0 && queryVector) {
+      const vectorResults = await search<typeof db, OramaDocument>(db, {
+        mode: "vector",
+        vector: {
+          value: queryVector,
+          property: "embedding",
+        },
+        similarity: this.options.minSimilarityScore,
+        limit: candidateLimit,
+        includeVectors: true,
+        where,
+      });
+      vectorHits = vectorResults.hits;
+    }
+
+    let textHits: OramaHit[] = [];
+    if (textWeight > 0) {
+      const textResults = await search<typeof db, OramaDocument>(db, {
+        term: textQuery,
+        properties: ["title", "content"],
+        // Match documents containing any of the query terms, BM25 takes care of the ranking
+        threshold: 1,
+        limit: candidateLimit,
+        includeVectors: true,
+        where,
+      });
+      textHits = textResults.hits;
+    }
+
+    // A single list with results keeps its own scores, a list with weight 0 never counts
+    const rankedLists = [
+      { hits: vectorHits, weight: vectorWeight },
+      { hits: textHits, weight: textWeight },
+    ].filter((list) => list.weight > 0 && list.hits.length > 0);
+    const isFused = rankedLists.length > 1;
+    const fusedHits = isFused
+      ? fuseRankedLists(rankedLists, this.options.fusionStrategy ?? "")
+      : (rankedLists[0]?.hits ?? []);
+    // Fusion replaces the score, the score of each search is kept to show it next to the fused one
+    const vectorScores = new Map(vectorHits.map((hit) => [hit.id, hit.score]));
+    const textScores = new Map(textHits.map((hit) => [hit.id, hit.score]));
+
+    if (this.debug) {
+      console.log(
+        "\nVector hits:",
+        vectorHits.map((hit) => ({ path: hit.document.path, score: hit.score })),
+        "\nFull-text hits:",
+        textHits.map((hit) => ({ path: hit.document.path, score: hit.score })),
+        "\nFusion strategy:",
+        this.options.fusionStrategy,
+        { textWeight, vectorWeight },
+        "\nFilters:",
+        where
       );
-      throw error;
     }
 
-    const searchResults = await search(this.db, {
-      mode: "vector",
-      vector: {
-        value: queryVector,
-        property: "embedding",
-      },
-      similarity: this.options.minSimilarityScore,
-      limit: this.options.maxK,
-      includeVectors: true,
-    });
+    const excludePath = this.options.excludePath;
+    let hits = excludePath ? fusedHits.filter((hit) => !excludePath(hit.document.path)) : fusedHits;
+    // Linked notes would bypass the filters, so filtered searches stay within the matches
+    if (graphExpansion && expandsLinks && queryVector && hits.length > 0) {
+      hits = await this.expandThroughLinks(hits, limit, queryVector, graphExpansion);
+    }
 
-    // Convert Orama search results to Document objects
-    const vectorChunks = searchResults.hits.map(
-      (hit) =>
-        new Document({
-          pageContent: hit.document.content,
-          metadata: {
-            ...hit.document.metadata,
-            score: hit.score,
+    // The whole candidate list is fetched with vectors, so diversification picks from all of it
+    const selectedHits = this.options.diversity
+      ? selectDiverse(
+          hits.map((hit) => ({
+            item: hit,
             path: hit.document.path,
-            mtime: hit.document.mtime,
-            ctime: hit.document.ctime,
-            title: hit.document.title,
-            id: hit.document.id,
-            embeddingModel: hit.document.embeddingModel,
-            tags: hit.document.tags,
-            extension: hit.document.extension,
-            created_at: hit.document.created_at,
-            nchars: hit.document.nchars,
-          },
-        })
+            vector: hit.document.embedding,
+          })),
+          limit,
+          this.options.diversity
+        )
+      : hits.slice(0, limit);
+
+    // Convert Orama search results to Document objects
+    return selectedHits.map((hit) => {
+      const doc = this.hitToDocument(hit);
+      doc.metadata.vectorScore ??= vectorScores.get(hit.id);
+      doc.metadata.textScore = textScores.get(hit.id);
+      const isFusedHit = isFused && (vectorScores.has(hit.id) || textScores.has(hit.id));
+      doc.metadata.fusedScore = isFusedHit ? hit.score : undefined;
+      return doc;
+    });
+  }
+
+  /**
+   * Add the chunks of linked notes that are close to the query, scored by their
+   * similarity decayed per link hop. Hub notes that link to the answers are rarely
+   * retrieved themselves, but their neighbours are found this way. Links are
+   * followed from the notes of the first seedCount hits.
+   */
+  private async expandThroughLinks(
+    hits: OramaHit[],
+    seedCount: number,
+    queryVector: number[],
+    graphExpansion: GraphExpansionOptions & { linkGraph: LinkGraph }
+  ): Promise<OramaHit[]> {
+    const seedPaths = Array.from(
+      new Set(hits.slice(0, seedCount).map((hit) => hit.document.path as string))
+    );
+    const linkedNotes = getLinkedNotes(
+      graphExpansion.linkGraph,
+      seedPaths,
+      graphExpansion.hops,
+      graphExpansion.maxNotes
     );
-    return vectorChunks;
+    const seenIds = new Set(hits.map((hit) => hit.id));
+
+    const linkedHits: { hit: OramaHit; score: number }[] = [];
+    for (const [path, hop] of linkedNotes) {
+      if (this.options.excludePath?.(path)) continue;
+      const docs = await this.getNoteHits(path);
+      const noteHits = docs
+        .filter((doc) => !seenIds.has(doc.id) && doc.document.embedding)
+        .map((doc) => {
+          const similarity = cosineSimilarity(queryVector, doc.document.embedding);
+          const score = decayScore(similarity, hop, graphExpansion.hopDecay);
+          const document = {
+            ...doc.document,
+            metadata: { ...doc.document.metadata, linkHops: hop, vectorScore: similarity },
+          };
+          return { hit: { ...doc, score, document }, score };
+        })
+        .filter(({ score }) => score >= this.options.minSimilarityScore)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_LINKED_CHUNKS_PER_NOTE);
+      linkedHits.push(...noteHits);
+    }
+
+    const ranked = hits.map((hit) => ({
+      hit,
+      similarity: cosineSimilarity(queryVector, hit.document.embedding ?? []),
+    }));
+
+    if (this.debug) {
+      console.log(
+        "\nLinked notes:",
+        Object.fromEntries(linkedNotes),
+        "\nLinked chunks:",
+        linkedHits.map(({ hit, score }) => ({ path: hit.document.path, score }))
+      );
+    }
+
+    return mergeLinkedHits(ranked, linkedHits);
+  }
+
+  private async getNoteHits(path: string): Promise<OramaHit[]> {
+    if (this.options.getChunks) {
+      return this.options
+        .getChunks(path)
+        .map((document) => ({ id: document.id, score: 0, document }));
+    }
+    return (await VectorDBManager.getDocsByPath(this.db, path)) ?? [];
+  }
+
+  private hitToDocument(hit: OramaHit): Document {
+    return new Document({
+      pageContent: hit.document.content,
+      metadata: {
+        ...hit.document.metadata,
+        score: hit.score,
+        path: hit.document.path,
+        mtime: hit.document.mtime,
+        ctime: hit.document.ctime,
+        title: hit.document.title,
+        headings: hit.document.headings,
+        startLine: hit.document.startLine,
+        endLine: hit.document.endLine,
+        page: hit.document.page,
+        nodeId: hit.document.nodeId,
+        id: hit.document.id,
+        embeddingModel: hit.document.embeddingModel,
+        tags: hit.document.tags,
+        extension: hit.document.extension,
+        created_at: hit.document.created_at,
+        nchars: hit.document.nchars,
+      },
+    });
   }
 
   private async convertQueryToVector(query: string): Promise<number[]> {
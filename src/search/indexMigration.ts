@@ -0,0 +1,36 @@
+import { CustomModel } from "@/aiParams";
+import { areEmbeddingModelsSame } from "@/utils";
+
+// The embedding model an index was built with, or the one currently selected
+export interface EmbeddingModelInfo {
+  // "name|provider", undefined for indexes saved before it was recorded
+  embeddingModelKey?: string;
+  // Model name as reported by the embeddings instance, undefined for an empty index
+  embeddingModel?: string;
+  vectorLength: number;
+}
+
+/**
+ * Whether an index can be searched and updated with the current embedding model.
+ * If not, a new index is built next to it and swapped in once it is complete.
+ */
+export function isIndexBuiltWith(index: EmbeddingModelInfo, current: EmbeddingModelInfo): boolean {
+  // Same model name but a different dimension setting still needs new vectors
+  if (index.vectorLength !== current.vectorLength) return false;
+  if (!index.embeddingModel) return true;
+  return areEmbeddingModelsSame(index.embeddingModel, current.embeddingModel);
+}
+
+/**
+ * Find the model key for a model name stored in an older index, so queries
+ * against it can still be embedded with that model during a migration.
+ */
+export function findEmbeddingModelKey(
+  models: CustomModel[],
+  modelName: string | undefined
+): string | undefined {
+  const model = models.find(
+    (model) => model.enabled && areEmbeddingModelsSame(model.name, modelName)
+  );
+  return model ? `${model.name}|${model.provider}` : undefined;
+}
@@ -0,0 +1,201 @@
+import { App, getAllTags, TFile } from "obsidian";
+
+// Optional file in the vault root with more exclusion rules, one per line
+export const COPILOT_IGNORE_PATH = ".copilotignore";
+
+// What the rules look at, so they can be evaluated without the vault
+export interface IndexRuleFile {
+  path: string;
+  basename: string;
+  // Inline and frontmatter tags, without the leading #
+  tags: string[];
+  frontmatter?: Record<string, unknown>;
+}
+
+export interface IndexRule {
+  // The rule as written, for display
+  source: string;
+  // "!rule" re-includes files an earlier rule excluded, as in .gitignore
+  negated: boolean;
+  matches(file: IndexRuleFile): boolean;
+}
+
+// "key: value" with a word-like key, globs rarely look like that
+const PROPERTY_RULE_REGEX = /^([\w-]+):\s*(.+)$/;
+const NOTE_RULE_REGEX = /^\[\[(.+)\]\]$/;
+
+/**
+ * Turn a gitignore-style glob into a regular expression. Patterns with a slash
+ * are matched against the whole path from the vault root, patterns without one
+ * against any file or folder name. "*" stays within a folder, "**" crosses folders.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const anchored = pattern.includes("/");
+  const glob = pattern.replace(/^\//, "");
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(anchored ? `^${source}$` : `(?:^|/)${source}$`, "i");
+}
+
+function createGlobRule(source: string, pattern: string, negated: boolean): IndexRule {
+  const dirOnly = pattern.endsWith("/");
+  const regex = globToRegExp(dirOnly ? pattern.slice(0, -1) : pattern);
+  return {
+    source,
+    negated,
+    matches: (file) => {
+      // A rule matching a folder matches everything in it
+      const parts = file.path.split("/");
+      const candidates = parts.map((_, i) => parts.slice(0, i + 1).join("/"));
+      if (dirOnly) candidates.pop();
+      return candidates.some((candidate) => regex.test(candidate));
+    },
+  };
+}
+
+function parseIndexRule(line: string): IndexRule | null {
+  const source = line.trim();
+  // "#" followed by a space is a comment, "#tag" is a tag rule
+  if (!source || /^#(\s|$)/.test(source)) return null;
+  const negated = source.startsWith("!");
+  const rule = negated ? source.slice(1).trim() : source;
+
+  if (rule.startsWith("#")) {
+    const tag = rule.slice(1).toLowerCase();
+    return {
+      source,
+      negated,
+      // Nested tags match too, #project also matches #project/alpha
+      matches: (file) =>
+        file.tags.some((t) => t.toLowerCase() === tag || t.toLowerCase().startsWith(`${tag}/`)),
+    };
+  }
+
+  const note = rule.match(NOTE_RULE_REGEX);
+  if (note) {
+    const target = note[1].replace(/\.md$/i, "").toLowerCase();
+    return {
+      source,
+      negated,
+      matches: (file) =>
+        file.basename.toLowerCase() === target ||
+        file.path.replace(/\.md$/i, "").toLowerCase() === target,
+    };
+  }
+
+  const property = rule.match(PROPERTY_RULE_REGEX);
+  if (property) {
+    const key = property[1];
+    const value = property[2].trim().toLowerCase();
+    return {
+      source,
+      negated,
+      matches: (file) => {
+        const fileValue = file.frontmatter?.[key];
+        if (fileValue === undefined || fileValue === null) return false;
+        const values = Array.isArray(fileValue) ? fileValue : [fileValue];
+        return values.some((item) => String(item).toLowerCase() === value);
+      },
+    };
+  }
+
+  return createGlobRule(source, rule, negated);
+}
+
+/**
+ * Parse rules, one per line. Commas separate rules too, as in the original
+ * comma separated exclusion setting. Lines starting with "# " are comments.
+ */
+export function parseIndexRules(text: string): IndexRule[] {
+  return text
+    .split(/\r?\n|,/)
+    .map(parseIndexRule)
+    .filter((rule): rule is IndexRule => rule !== null);
+}
+
+// As in .gitignore, the last matching rule decides
+function matchesRules(rules: IndexRule[], file: IndexRuleFile): boolean {
+  let matched = false;
+  for (const rule of rules) {
+    if (rule.matches(file)) matched = !rule.negated;
+  }
+  return matched;
+}
+
+/**
+ * Decides which files are indexed for Vault QA. With inclusion rules only
+ * matching files are indexed, exclusion rules then take files out again.
+ */
+export class IndexRules {
+  constructor(
+    private inclusions: IndexRule[],
+    private exclusions: IndexRule[]
+  ) {}
+
+  static fromText(inclusions: string, ...exclusions: string[]): IndexRules {
+    return new IndexRules(parseIndexRules(inclusions), parseIndexRules(exclusions.join("\n")));
+  }
+
+  isIndexed(file: IndexRuleFile): boolean {
+    if (this.inclusions.length > 0 && !matchesRules(this.inclusions, file)) return false;
+    return !matchesRules(this.exclusions, file);
+  }
+
+  // The exclusion rules matching a file, for the settings preview
+  getMatchingExclusions(file: IndexRuleFile): IndexRule[] {
+    return this.exclusions.filter((rule) => !rule.negated && rule.matches(file));
+  }
+}
+
+export function toIndexRuleFile(app: App, file: TFile): IndexRuleFile {
+  const fileMetadata = app.metadataCache.getFileCache(file);
+  return {
+    path: file.path,
+    basename: file.basename,
+    tags: fileMetadata ? (getAllTags(fileMetadata) ?? []).map((tag) => tag.replace(/^#/, "")) : [],
+    frontmatter: fileMetadata?.frontmatter,
+  };
+}
+
+// Dotfiles are not part of the vault, so the file is read through the adapter
+export async function readCopilotIgnore(app: App): Promise<string> {
+  try {
+    if (await app.vault.adapter.exists(COPILOT_IGNORE_PATH)) {
+      return await app.vault.adapter.read(COPILOT_IGNORE_PATH);
+    }
+  } catch (error) {
+    console.error(`Error reading ${COPILOT_IGNORE_PATH}:`, error);
+  }
+  return "";
+}
+
+/**
+ * Rules from the settings plus the .copilotignore file in the vault root, if there is one.
+ */
+export async function loadIndexRules(
+  app: App,
+  settings: { qaInclusions: string; qaExclusions: string }
+): Promise<IndexRules> {
+  return IndexRules.fromText(
+    settings.qaInclusions,
+    settings.qaExclusions,
+    await readCopilotIgnore(app)
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * Where a file stands in the vector index, as shown by the index inspector.
+ * OUTDATED files changed after they were indexed and are re-embedded on the next
+ * refresh, EXCLUDED and MISSING files are removed on the next refresh or garbage collection.
+ */
+export enum IndexStatus {
+  UP_TO_DATE = "up to date",
+  OUTDATED = "outdated",
+  NOT_INDEXED = "not indexed",
+  EXCLUDED = "excluded",
+  MISSING = "missing",
+}
+
+export function getIndexStatus(options: {
+  // Current modification time, undefined if the file is gone from the vault
+  fileMtime?: number;
+  // Modification time of the file when it was last indexed, undefined if it never was
+  indexedMtime?: number;
+  // Empty notes are indexed without chunks
+  chunkCount: number;
+  excluded: boolean;
+}): IndexStatus {
+  const { fileMtime, indexedMtime, chunkCount, excluded } = options;
+  if (fileMtime === undefined) return IndexStatus.MISSING;
+  if (excluded) return IndexStatus.EXCLUDED;
+  // Indexes saved before content hashes were recorded have no mtime for their files
+  if (indexedMtime === undefined) {
+    return chunkCount === 0 ? IndexStatus.NOT_INDEXED : IndexStatus.OUTDATED;
+  }
+  if (fileMtime > indexedMtime) return IndexStatus.OUTDATED;
+  return IndexStatus.UP_TO_DATE;
+}
@@ -0,0 +1,283 @@
+export interface ChunkOptions {
+  // Max characters in a chunk, not counting the chunk header
+  chunkSize: number;
+  // Characters of the previous chunk repeated at the start of the next one in the same section
+  chunkOverlap: number;
+}
+
+export interface MarkdownChunk {
+  // Chunk text including the "[[title]] > Section" chunk header
+  content: string;
+  // Heading path leading to the chunk, outermost first
+  headings: string[];
+  // 0-based, inclusive line range of the chunk in the note
+  startLine: number;
+  endLine: number;
+}
+
+interface Block {
+  text: string;
+  startLine: number;
+  endLine: number;
+  // Code blocks and tables are never split
+  atomic: boolean;
+}
+
+interface Section {
+  headings: string[];
+  blocks: Block[];
+}
+
+const HEADING_REGEX = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_REGEX = /^\s*(`{3,}|~{3,})/;
+const TABLE_REGEX = /^\s*\|/;
+const MAX_FRONTMATTER_SUMMARY_LENGTH = 500;
+
+export function formatChunkHeader(title: string, headings: string[]): string {
+  // Notes often open with an H1 that repeats the title
+  const path = headings[0] === title ? headings.slice(1) : headings;
+  return [`[[${title}]]`, ...path].join(" > ") + "\n\n---\n\n";
+}
+
+// One line with the scalar properties of the note, the raw YAML is mostly noise
+export function summarizeFrontmatter(frontmatter: Record<string, unknown> | undefined): string {
+  if (!frontmatter) return "";
+  const properties = Object.entries(frontmatter).flatMap(([key, value]) => {
+    const values = Array.isArray(value) ? value : [value];
+    const scalars = values.filter((item) => ["string", "number", "boolean"].includes(typeof item));
+    return scalars.length > 0 && scalars.length === values.length
+      ? [`${key}: ${scalars.join(", ")}`]
+      : [];
+  });
+  if (properties.length === 0) return "";
+  return `Properties: ${properties.join("; ")}`.slice(0, MAX_FRONTMATTER_SUMMARY_LENGTH);
+}
+
+// Index of the line after the frontmatter, 0 if the note has none
+function getFrontmatterEnd(lines: string[]): number {
+  if (lines[0]?.trim() !== "---") return 0;
+  for (let i = 1; i < lines.length; i++) {
+    if (lines[i].trim() === "---" || lines[i].trim() === "...") return i + 1;
+  }
+  return 0;
+}
+
+function parseSections(lines: string[], startLine: number): Section[] {
+  const sections: Section[] = [{ headings: [], blocks: [] }];
+  const headingStack: { level: number; text: string }[] = [];
+  const addBlock = (block: Block) => sections[sections.length - 1].blocks.push(block);
+
+  let i = startLine;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.trim().length === 0) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_REGEX);
+    if (fence) {
+      const marker = fence[1];
+      let end = i + 1;
+      while (end < lines.length && !lines[end].trim().startsWith(marker)) end++;
+      end = Math.min(end, lines.length - 1);
+      addBlock({
+        text: lines.slice(i, end + 1).join("\n"),
+        startLine: i,
+        endLine: end,
+        atomic: true,
+      });
+      i = end + 1;
+      continue;
+    }
+
+    const heading = line.match(HEADING_REGEX);
+    if (heading) {
+      const level = heading[1].length;
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+        headingStack.pop();
+      }
+      headingStack.push({ level, text: heading[2] });
+      sections.push({ headings: headingStack.map((h) => h.text), blocks: [] });
+      addBlock({ text: line, startLine: i, endLine: i, atomic: false });
+      i++;
+      continue;
+    }
+
+    if (TABLE_REGEX.test(line)) {
+      let end = i;
+      while (end + 1 < lines.length && TABLE_REGEX.test(lines[end + 1])) end++;
+      addBlock({
+        text: lines.slice(i, end + 1).join("\n"),
+        startLine: i,
+        endLine: end,
+        atomic: true,
+      });
+      i = end + 1;
+      continue;
+    }
+
+    // Paragraph or list, up to the next blank line or block of another kind
+    let end = i;
+    while (
+      end + 1 < lines.length &&
+      lines[end + 1].trim().length > 0 &&
+      !FENCE_REGEX.test(lines[end + 1]) &&
+      !HEADING_REGEX.test(lines[end + 1]) &&
+      !TABLE_REGEX.test(lines[end + 1])
+    ) {
+      end++;
+    }
+    addBlock({
+      text: lines.slice(i, end + 1).join("\n"),
+      startLine: i,
+      endLine: end,
+      atomic: false,
+    });
+    i = end + 1;
+  }
+
+  return sections;
+}
+
+// Split a block that doesn't fit in a chunk by lines, and overly long lines by characters
+function splitBlock(block: Block, chunkSize: number): Block[] {
+  if (block.atomic || block.text.length <= chunkSize) return [block];
+  return block.text.split("\n").flatMap((text, i) => {
+    const line = block.startLine + i;
+    const pieces: Block[] = [];
+    for (let start = 0; start < Math.max(text.length, 1); start += chunkSize) {
+      pieces.push({
+        text: text.slice(start, start + chunkSize),
+        startLine: line,
+        endLine: line,
+        atomic: false,
+      });
+    }
+    return pieces;
+  });
+}
+
+// Rebuild the text between blocks from their line numbers, so chunks match the note verbatim
+function joinBlocks(blocks: Block[]): string {
+  return blocks
+    .map((block, i) =>
+      i === 0 ? block.text : "\n".repeat(block.startLine - blocks[i - 1].endLine) + block.text
+    )
+    .join("");
+}
+
+// Pack the blocks of one section into chunks of at most chunkSize characters
+function packSection(
+  title: string,
+  section: Section,
+  options: ChunkOptions,
+  chunks: MarkdownChunk[]
+): void {
+  const header = formatChunkHeader(title, section.headings);
+  let current: Block[] = [];
+  const emit = () => {
+    chunks.push({
+      content: header + joinBlocks(current),
+      headings: section.headings,
+      startLine: current[0].startLine,
+      endLine: current[current.length - 1].endLine,
+    });
+    // Carry trailing blocks over as overlap, but never the whole chunk
+    const overlap: Block[] = [];
+    let overlapSize = 0;
+    for (let i = current.length - 1; i > 0; i--) {
+      overlapSize += current[i].text.length;
+      if (overlapSize > options.chunkOverlap) break;
+      overlap.unshift(current[i]);
+    }
+    current = overlap;
+  };
+
+  for (const block of section.blocks.flatMap((b) => splitBlock(b, options.chunkSize))) {
+    const fits = joinBlocks([...current, block]).length <= options.chunkSize;
+    if (!fits && current.length > 0) {
+      emit();
+      if (joinBlocks([...current, block]).length > options.chunkSize) current = [];
+    }
+    current.push(block);
+  }
+  if (current.length > 0) emit();
+}
+
+/**
+ * Split a markdown note into chunks along its headings. Each chunk stays inside one
+ * section and starts with the note title and heading path as a chunk header. Code
+ * blocks and tables are kept whole even when they are larger than the chunk size,
+ * and the frontmatter is replaced by a one-line summary of its properties.
+ *
+ * @param parentHeadings heading path the whole text sits under, e.g. a canvas group
+ */
+export function chunkMarkdown(
+  title: string,
+  text: string,
+  options: ChunkOptions,
+  frontmatter?: Record<string, unknown>,
+  parentHeadings: string[] = []
+): MarkdownChunk[] {
+  const lines = text.split("\n");
+  const frontmatterEnd = getFrontmatterEnd(lines);
+  const sections = parseSections(lines, frontmatterEnd);
+
+  const frontmatterSummary = summarizeFrontmatter(frontmatter);
+  if (frontmatterSummary) {
+    sections[0].blocks.unshift({
+      text: frontmatterSummary,
+      startLine: 0,
+      endLine: Math.max(frontmatterEnd - 1, 0),
+      atomic: false,
+    });
+  }
+
+  const chunks: MarkdownChunk[] = [];
+  for (const section of sections) {
+    // A heading directly followed by a subheading has nothing of its own to embed
+    const hasContent = section.blocks.some((block) => !HEADING_REGEX.test(block.text));
+    if (!hasContent) continue;
+    packSection(
+      title,
+      { ...section, headings: [...parentHeadings, ...section.headings] },
+      options,
+      chunks
+    );
+  }
+  return chunks;
+}
+
+/**
+ * Split text that isn't markdown, e.g. a PDF page or a code file, into chunks of
+ * paragraphs. Lines starting with # are not headings here, they are often comments.
+ */
+export function chunkPlainText(
+  title: string,
+  text: string,
+  options: ChunkOptions,
+  headings: string[] = []
+): MarkdownChunk[] {
+  const lines = text.split("\n");
+  const blocks: Block[] = [];
+  let start = -1;
+  lines.forEach((line, i) => {
+    const isBlank = line.trim().length === 0;
+    if (!isBlank && start === -1) start = i;
+    if (start !== -1 && (isBlank || i === lines.length - 1)) {
+      const end = isBlank ? i - 1 : i;
+      blocks.push({
+        text: lines.slice(start, end + 1).join("\n"),
+        startLine: start,
+        endLine: end,
+        atomic: false,
+      });
+      start = -1;
+    }
+  });
+
+  const chunks: MarkdownChunk[] = [];
+  if (blocks.length > 0) packSection(title, { headings, blocks }, options, chunks);
+  return chunks;
+}
@@ -0,0 +1,192 @@
+/**
+ * Inline filters that scope a Vault QA question, e.g.
+ * "what did we decide #project/alpha folder:Meetings after:30d status:: active".
+ * All filters have to match. Tags and folders also match their nested tags and subfolders.
+ */
+export interface QueryFilters {
+  tags: string[];
+  folders: string[];
+  // Modification time bounds in ms since epoch, after is inclusive and before exclusive
+  after?: number;
+  before?: number;
+  // "key:value" pairs from the frontmatter
+  properties: string[];
+}
+
+type FilterField = "filterTags" | "folders" | "properties";
+
+// The subset of Orama's where clause the filters produce
+export type OramaWhere = Partial<
+  Record<FilterField, { containsAll: string[] }> & {
+    mtime: { between: [number, number] } | { gte: number } | { lt: number };
+  }
+>;
+
+// Schema fields the filters run on, exact (not tokenized) values so they can be matched as a whole
+export const FILTER_SCHEMA = {
+  folders: "enum[]",
+  filterTags: "enum[]",
+  properties: "enum[]",
+} as const;
+
+// Letters, numbers, "_", "-" and "/" like Obsidian tags, with at least one non-digit so "#123" is not a tag
+const TAG_REGEX = /(^|\s)#((?=[\p{L}\p{N}_/-]*[\p{L}_/-])[\p{L}\p{N}_/-]+)/gu;
+const FOLDER_REGEX = /(^|\s)folder:("[^"]+"|\S+)/gi;
+const DATE_REGEX = /(^|\s)(after|before):(\S+)/gi;
+const PROPERTY_REGEX = /(^|\s)([\w-]+)::\s*("[^"]+"|\S+)/g;
+const RELATIVE_DATE_REGEX = /^(\d+)([dwmy])$/i;
+const ISO_DATE_REGEX = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELATIVE_DATE_UNIT_DAYS: Record<string, number> = { d: 1, w: 7, m: 30, y: 365 };
+
+function unquote(value: string): string {
+  return value.replace(/^"(.*)"$/, "$1");
+}
+
+/**
+ * Accepts ISO dates like 2024-01-01 or 2024-01 and relative ones like 7d, 4w, 3m, 1y.
+ * A day or month is in local time and covers all of it, so "after:" and "before:"
+ * both include the named day. A relative date is a single moment.
+ *
+ * @return {{ start: number, end: number } | undefined} the period in ms, end exclusive
+ */
+export function parseFilterDate(
+  value: string,
+  now = Date.now()
+): { start: number; end: number } | undefined {
+  const relative = value.match(RELATIVE_DATE_REGEX);
+  if (relative) {
+    const days = parseInt(relative[1], 10) * RELATIVE_DATE_UNIT_DAYS[relative[2].toLowerCase()];
+    const timestamp = now - days * DAY_MS;
+    return { start: timestamp, end: timestamp };
+  }
+  const date = value.match(ISO_DATE_REGEX);
+  if (!date) return undefined;
+  const year = parseInt(date[1], 10);
+  const month = parseInt(date[2], 10) - 1;
+  const day = date[3] ? parseInt(date[3], 10) : undefined;
+  const start = new Date(year, month, day ?? 1);
+  // Date rolls invalid days and months over, e.g. 2024-02-30 to March 1
+  if (start.getMonth() !== month || (day !== undefined && start.getDate() !== day)) {
+    return undefined;
+  }
+  const end = day !== undefined ? new Date(year, month, day + 1) : new Date(year, month + 1, 1);
+  return { start: start.getTime(), end: end.getTime() };
+}
+
+/**
+ * Take the filter syntax out of a question.
+ *
+ * @return {{ query: string, filters: QueryFilters }} the question without filters and the filters
+ */
+export function parseQueryFilters(
+  query: string,
+  now = Date.now()
+): { query: string; filters: QueryFilters } {
+  const filters: QueryFilters = { tags: [], folders: [], properties: [] };
+
+  let rest = query.replace(PROPERTY_REGEX, (_, space, key: string, value: string) => {
+    filters.properties.push(`${key}:${unquote(value)}`.toLowerCase());
+    return space;
+  });
+  rest = rest.replace(FOLDER_REGEX, (_, space, folder: string) => {
+    filters.folders.push(
+      unquote(folder)
+        .replace(/^\/+|\/+$/g, "")
+        .toLowerCase()
+    );
+    return space;
+  });
+  rest = rest.replace(DATE_REGEX, (match, space, bound: string, value: string) => {
+    const period = parseFilterDate(value, now);
+    // Not a date after all, leave it in the question
+    if (period === undefined) return match;
+    if (bound.toLowerCase() === "after") {
+      filters.after = period.start;
+    } else {
+      filters.before = period.end;
+    }
+    return space;
+  });
+  rest = rest.replace(TAG_REGEX, (_, space, tag: string) => {
+    filters.tags.push(tag.toLowerCase());
+    return space;
+  });
+
+  const cleanQuery = rest.replace(/\s+/g, " ").trim();
+  // A question made of filters only still needs something to search for
+  return { query: cleanQuery || query.trim(), filters };
+}
+
+export function hasQueryFilters(filters: QueryFilters): boolean {
+  return (
+    filters.tags.length > 0 ||
+    filters.folders.length > 0 ||
+    filters.properties.length > 0 ||
+    filters.after !== undefined ||
+    filters.before !== undefined
+  );
+}
+
+/**
+ * Build an Orama where clause from the filters. Filters on fields missing from the
+ * schema, e.g. of an index built before filtering existed, are left out.
+ *
+ * @return {{ where: OramaWhere, unsupported: string[] }} the where clause and the skipped fields
+ */
+export function buildOramaWhere(
+  filters: QueryFilters,
+  schema: Record<string, unknown>
+): { where: OramaWhere; unsupported: string[] } {
+  const where: OramaWhere = {};
+  const unsupported: string[] = [];
+  const addFilter = (field: FilterField, values: string[]) => {
+    if (values.length === 0) return;
+    if (!(field in schema)) {
+      unsupported.push(field);
+      return;
+    }
+    where[field] = { containsAll: values };
+  };
+
+  addFilter("filterTags", filters.tags);
+  addFilter("folders", filters.folders);
+  addFilter("properties", filters.properties);
+
+  // Modification times are whole milliseconds, so between, which is inclusive, ends 1 ms early
+  if (filters.after !== undefined && filters.before !== undefined) {
+    where.mtime = { between: [filters.after, filters.before - 1] };
+  } else if (filters.after !== undefined) {
+    where.mtime = { gte: filters.after };
+  } else if (filters.before !== undefined) {
+    where.mtime = { lt: filters.before };
+  }
+  return { where, unsupported };
+}
+
+// Every folder the note is in, so a filter on a folder also matches its subfolders
+export function getFolderFilterValues(path: string): string[] {
+  const folders = path.toLowerCase().split("/").slice(0, -1);
+  return folders.map((_, i) => folders.slice(0, i + 1).join("/"));
+}
+
+// Tags with their parent tags, so #project also matches #project/alpha
+export function getTagFilterValues(tags: string[]): string[] {
+  const values = new Set<string>();
+  for (const tag of tags) {
+    const parts = tag.replace(/^#/, "").toLowerCase().split("/");
+    parts.forEach((_, i) => values.add(parts.slice(0, i + 1).join("/")));
+  }
+  return Array.from(values);
+}
+
+export function getPropertyFilterValues(
+  frontmatter: Record<string, unknown> | undefined
+): string[] {
+  if (!frontmatter) return [];
+  return Object.entries(frontmatter).flatMap(([key, value]) =>
+    (Array.isArray(value) ? value : [value])
+      .filter((item) => ["string", "number", "boolean"].includes(typeof item))
+      .map((item) => `${key}:${item}`.toLowerCase())
+  );
+}
@@ -0,0 +1,103 @@
+import { formatChatHistory } from "@/chainFactory";
+import { QUERY_REWRITE_MODE } from "@/constants";
+import { extractChatHistory } from "@/utils";
+import { BaseLanguageModel } from "@langchain/core/language_models/base";
+import { StringOutputParser } from "@langchain/core/output_parsers";
+import { PromptTemplate } from "@langchain/core/prompts";
+import { BaseChatMemory } from "langchain/memory";
+
+const REWRITE_PROMPT_VARIABLES = ["question", "chat_history"];
+
+// The chat history tells what a follow-up question like "what about the second one?" refers to
+export const DEFAULT_HYDE_PROMPT = `Please write a passage to answer the question. If the question follows up on the conversation below, answer it in that context. If you don't know the answer, just make up a passage.
+
+Chat History:
+{chat_history}
+Question: {question}
+Passage:`;
+
+// NOTE: Weaker models may fail this instruction and lose the follow up question altogether.
+export const DEFAULT_STANDALONE_QUESTION_PROMPT = `Given the following conversation and a follow up question,
+summarize the conversation as context and keep the follow up question unchanged, in its original language.
+If the follow up question is unrelated to its preceding messages, return this follow up question directly.
+If it is related, then combine the summary and the follow up question to construct a standalone question.
+Make sure to keep any [[]] wrapped note titles in the question unchanged.
+
+Chat History:
+{chat_history}
+Follow Up Input: {question}
+Standalone question:`;
+
+export function getDefaultRewritePrompt(mode: string): string {
+  return mode === QUERY_REWRITE_MODE.HYDE
+    ? DEFAULT_HYDE_PROMPT
+    : DEFAULT_STANDALONE_QUESTION_PROMPT;
+}
+
+/**
+ * Why a custom rewrite prompt can't be used, null if it can. An empty prompt means the default.
+ */
+export function getRewritePromptError(prompt: string): string | null {
+  if (!prompt.trim()) return null;
+  let inputVariables: string[];
+  try {
+    inputVariables = PromptTemplate.fromTemplate(prompt.trim()).inputVariables;
+  } catch (error) {
+    return `The prompt is not a valid template (${error.message}). Write literal braces as {{ and }}.`;
+  }
+  if (!inputVariables.includes("question")) {
+    return "The prompt has to contain {question}.";
+  }
+  const unknown = inputVariables.filter((name) => !REWRITE_PROMPT_VARIABLES.includes(name));
+  if (unknown.length > 0) {
+    return `Unknown variables ${unknown.map((name) => `{${name}}`).join(", ")}. Write literal braces as {{ and }}.`;
+  }
+  return null;
+}
+
+/**
+ * Rewrites a Vault QA question into the query that is actually searched for:
+ * a hypothetical answer passage (HyDE), or a standalone question that carries
+ * the context of the conversation so far.
+ */
+export class QueryRewriter {
+  private prompt: PromptTemplate;
+
+  constructor(
+    private llm: BaseLanguageModel,
+    private mode: string,
+    // Custom prompt with {question} and optionally {chat_history}, checked in the settings
+    prompt: string,
+    private memory?: BaseChatMemory
+  ) {
+    const promptError = getRewritePromptError(prompt);
+    if (promptError) {
+      console.error("Invalid query rewrite prompt, using the default one:", promptError);
+    }
+    this.prompt = PromptTemplate.fromTemplate(
+      (!promptError && prompt.trim()) || getDefaultRewritePrompt(mode)
+    );
+  }
+
+  async rewrite(question: string): Promise<string> {
+    if (this.mode === QUERY_REWRITE_MODE.NONE) return question;
+
+    const variables: Record<string, string> = { question };
+    if (this.prompt.inputVariables.includes("chat_history")) {
+      const chatHistory = this.memory
+        ? extractChatHistory(await this.memory.loadMemoryVariables({}))
+        : [];
+      // Nothing to condense on the first turn
+      if (this.mode === QUERY_REWRITE_MODE.STANDALONE_QUESTION && chatHistory.length === 0) {
+        return question;
+      }
+      variables.chat_history = formatChatHistory(chatHistory);
+    }
+
+    const rewritten = await this.prompt
+      .pipe(this.llm)
+      .pipe(new StringOutputParser())
+      .invoke(variables);
+    return rewritten.trim() || question;
+  }
+}
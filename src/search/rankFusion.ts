@@ -0,0 +1,82 @@
+import { HYBRID_FUSION_STRATEGY } from "@/constants";
+
+// Smoothing constant from the original RRF paper (Cormack et al., 2009)
+export const RRF_K = 60;
+
+export interface ScoredHit {
+  id: string;
+  score: number;
+}
+
+export interface RankedList<T extends ScoredHit> {
+  hits: T[];
+  weight: number;
+}
+
+/**
+ * Merge several ranked lists with weighted reciprocal rank fusion.
+ * Each hit contributes weight / (k + rank) for every list it appears in,
+ * so only the order of each list matters, not the scale of its scores.
+ *
+ * @param {RankedList[]} lists - the ranked lists to merge, best hit first
+ * @param {number} k - the RRF smoothing constant
+ * @return {T[]} the merged hits, best first, with score set to the fused score
+ */
+export function reciprocalRankFusion<T extends ScoredHit>(lists: RankedList<T>[], k = RRF_K): T[] {
+  const fused = new Map<string, T>();
+
+  for (const { hits, weight } of lists) {
+    if (weight <= 0) continue;
+    hits.forEach((hit, rank) => {
+      const contribution = weight / (k + rank + 1);
+      const existing = fused.get(hit.id);
+      fused.set(hit.id, { ...(existing ?? hit), score: (existing?.score ?? 0) + contribution });
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Merge several ranked lists with a weighted sum of min-max normalized scores.
+ * Unlike RRF, a hit that is far ahead of the rest of its list keeps that lead.
+ *
+ * @param {RankedList[]} lists - the ranked lists to merge
+ * @return {T[]} the merged hits, best first, with score set to the fused score
+ */
+export function weightedScoreFusion<T extends ScoredHit>(lists: RankedList<T>[]): T[] {
+  const fused = new Map<string, T>();
+
+  for (const { hits, weight } of lists) {
+    if (weight <= 0 || hits.length === 0) continue;
+    const scores = hits.map((hit) => hit.score);
+    const max = Math.max(...scores);
+    const min = Math.min(...scores);
+    const range = max - min;
+
+    for (const hit of hits) {
+      // A list where every hit scores the same gives every hit full credit
+      const normalized = range > 0 ? (hit.score - min) / range : 1;
+      const existing = fused.get(hit.id);
+      fused.set(hit.id, {
+        ...(existing ?? hit),
+        score: (existing?.score ?? 0) + weight * normalized,
+      });
+    }
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+export function fuseRankedLists<T extends ScoredHit>(
+  lists: RankedList<T>[],
+  strategy: string
+): T[] {
+  switch (strategy) {
+    case HYBRID_FUSION_STRATEGY.WEIGHTED_SCORE:
+      return weightedScoreFusion(lists);
+    case HYBRID_FUSION_STRATEGY.RECIPROCAL_RANK:
+    default:
+      return reciprocalRankFusion(lists);
+  }
+}
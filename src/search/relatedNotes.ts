@@ -0,0 +1,73 @@
+import { OramaDocument } from "@/vectorDBManager";
+
+export type RelatedChunkDocument = Omit<OramaDocument, "embedding">;
+
+// A chunk of another note that is close to the active note
+export interface RelatedChunk {
+  chunk: RelatedChunkDocument;
+  score: number;
+}
+
+export interface RelatedNote {
+  path: string;
+  title: string;
+  // Score of the best matching chunk
+  score: number;
+  chunks: RelatedChunk[];
+}
+
+export interface RelatedNotesOptions {
+  maxNotes: number;
+  maxChunksPerNote: number;
+}
+
+/**
+ * Unit length mean of a note's chunk vectors, one vector to search for the whole
+ * note with instead of one search per chunk.
+ */
+export function getMeanVector(vectors: number[][]): number[] {
+  const mean = new Array<number>(vectors[0]?.length ?? 0).fill(0);
+  for (const vector of vectors) {
+    vector.forEach((value, i) => (mean[i] += value));
+  }
+  const norm = Math.sqrt(mean.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? mean.map((value) => value / norm) : mean;
+}
+
+/**
+ * Group the chunks found for the active note by note. A chunk found more than once
+ * keeps its best score, and notes are ranked by their best chunk.
+ */
+export function groupRelatedChunks(
+  hits: RelatedChunk[],
+  activePath: string,
+  options: RelatedNotesOptions
+): RelatedNote[] {
+  const bestById = new Map<string, RelatedChunk>();
+  for (const hit of hits) {
+    if (hit.chunk.path === activePath) continue;
+    const existing = bestById.get(hit.chunk.id);
+    if (!existing || hit.score > existing.score) bestById.set(hit.chunk.id, hit);
+  }
+
+  const notes = new Map<string, RelatedNote>();
+  for (const hit of bestById.values()) {
+    const note = notes.get(hit.chunk.path) ?? {
+      path: hit.chunk.path,
+      title: hit.chunk.title,
+      score: 0,
+      chunks: [],
+    };
+    note.chunks.push(hit);
+    note.score = Math.max(note.score, hit.score);
+    notes.set(hit.chunk.path, note);
+  }
+
+  return Array.from(notes.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.maxNotes)
+    .map((note) => ({
+      ...note,
+      chunks: note.chunks.sort((a, b) => b.score - a.score).slice(0, options.maxChunksPerNote),
+    }));
+}
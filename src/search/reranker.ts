@@ -0,0 +1,120 @@
+import { RERANKER } from "@/constants";
+import { Document } from "@langchain/core/documents";
+import { BaseLanguageModel } from "@langchain/core/language_models/base";
+import { requestUrl } from "obsidian";
+
+/**
+ * Scores retrieved chunks against the question, so a stronger model than the
+ * embedding similarity decides which chunks reach the LLM.
+ */
+export interface Reranker {
+  // One relevance score per document, higher is more relevant
+  rerank(query: string, docs: Document[]): Promise<number[]>;
+}
+
+// Characters of each chunk shown to the chat model, keeps the prompt small
+const LISTWISE_PASSAGE_LENGTH = 1000;
+
+export function buildListwiseRerankPrompt(query: string, docs: Document[]): string {
+  const passages = docs
+    .map((doc, i) => `[${i + 1}] ${doc.pageContent.slice(0, LISTWISE_PASSAGE_LENGTH)}`)
+    .join("\n\n");
+  return (
+    "Rank the passages below by how well they help answer the question, most relevant first.\n" +
+    "Answer with the passage numbers only, as a JSON array such as [3, 1, 2], and leave out " +
+    "passages that don't help at all.\n\n" +
+    `Question: ${query}\n\nPassages:\n${passages}\n\nRanking:`
+  );
+}
+
+/**
+ * Turn a ranking like "[3, 1]" into scores. Ranked passages score from 1 down,
+ * passages left out score 0.
+ */
+export function parseListwiseRanking(response: string, count: number): number[] {
+  const ranking = (response.match(/\d+/g) ?? [])
+    .map((n) => parseInt(n, 10) - 1)
+    .filter((i, pos, all) => i >= 0 && i < count && all.indexOf(i) === pos);
+  const scores = new Array<number>(count).fill(0);
+  ranking.forEach((docIndex, rank) => {
+    scores[docIndex] = 1 - rank / count;
+  });
+  return scores;
+}
+
+// Uses the chat model as a listwise reranker, one extra LLM call per question
+export class ChatModelReranker implements Reranker {
+  constructor(private llm: BaseLanguageModel) {}
+
+  async rerank(query: string, docs: Document[]): Promise<number[]> {
+    const response = await this.llm.invoke(buildListwiseRerankPrompt(query, docs));
+    const content = typeof response === "string" ? response : response?.content;
+    return parseListwiseRanking(String(content ?? ""), docs.length);
+  }
+}
+
+/**
+ * Calls a rerank endpoint in the format shared by Cohere, Jina and most local
+ * servers (e.g. a reranker behind Ollama or llama.cpp):
+ * POST { model, query, documents } returns { results: [{ index, relevance_score }] }.
+ */
+export class RerankApiReranker implements Reranker {
+  constructor(
+    private url: string,
+    private model: string,
+    private apiKey?: string
+  ) {}
+
+  async rerank(query: string, docs: Document[]): Promise<number[]> {
+    const response = await requestUrl({
+      url: this.url,
+      method: "POST",
+      contentType: "application/json",
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      body: JSON.stringify({
+        model: this.model,
+        query,
+        documents: docs.map((doc) => doc.pageContent),
+      }),
+    });
+
+    const results: { index: number; relevance_score?: number; score?: number }[] =
+      response.json?.results ?? response.json?.data ?? [];
+    const scores = new Array<number>(docs.length).fill(0);
+    for (const result of results) {
+      if (result.index >= 0 && result.index < docs.length) {
+        scores[result.index] = result.relevance_score ?? result.score ?? 0;
+      }
+    }
+    return scores;
+  }
+}
+
+export function createReranker(
+  type: string,
+  options: { llm: BaseLanguageModel; url: string; model: string; apiKey?: string }
+): Reranker | undefined {
+  switch (type) {
+    case RERANKER.CHAT_MODEL:
+      return new ChatModelReranker(options.llm);
+    case RERANKER.RERANK_API:
+      if (!options.url) {
+        console.warn("Rerank API selected but no rerank URL is set, reranking is skipped.");
+        return undefined;
+      }
+      return new RerankApiReranker(options.url, options.model, options.apiKey);
+    default:
+      return undefined;
+  }
+}
+
+// Sort documents by their rerank score, stable so ties keep the retrieval order
+export function sortByRerankScores(docs: Document[], scores: number[]): Document[] {
+  return docs
+    .map((doc, i) => ({ doc, score: scores[i] ?? 0, i }))
+    .sort((a, b) => b.score - a.score || a.i - b.i)
+    .map(({ doc, score }) => {
+      doc.metadata = { ...doc.metadata, rerankScore: score };
+      return doc;
+    });
+}
@@ -0,0 +1,242 @@
+import { RETRIEVAL_EVAL_REPORT_FOLDER } from "@/constants";
+
+// One question of a golden set with the notes, or note#heading, that should answer it
+export interface GoldenQuestion {
+  question: string;
+  expected: string[];
+}
+
+// What the harness needs to know about a retrieved chunk
+export interface RetrievedSource {
+  path: string;
+  title: string;
+  headings: string[];
+}
+
+// The golden set and the saved reports contain the questions, so they would be found for them
+export function isEvalFile(path: string, goldenSetPath: string): boolean {
+  return path === goldenSetPath || path.startsWith(`${RETRIEVAL_EVAL_REPORT_FOLDER}/`);
+}
+
+export interface QuestionEvalResult {
+  question: string;
+  expected: string[];
+  retrieved: RetrievedSource[];
+  // 1-based rank of the first chunk matching each expected source, null if missed
+  ranks: (number | null)[];
+  recall: number;
+  reciprocalRank: number;
+  error?: string;
+}
+
+export interface EvalSummary {
+  k: number;
+  questionCount: number;
+  recallAtK: number;
+  mrr: number;
+  missedQuestionCount: number;
+}
+
+const LIST_ITEM_REGEX = /^(\s*)[-*+]\s+(.*)$/;
+
+/**
+ * Read a golden set from a JSON file, an array of { question, expected }, or from
+ * a note where each top-level list item is a question and the items nested under
+ * it are the expected sources, usually as links:
+ *
+ * - What did we decide about the Q3 budget?
+ *   - [[Budget#Q3]]
+ *
+ * Questions without expected sources can't be scored and are skipped.
+ */
+export function parseGoldenSet(content: string, extension: string): GoldenQuestion[] {
+  if (extension === "json") {
+    const entries = JSON.parse(content);
+    if (!Array.isArray(entries)) {
+      throw new Error("A JSON golden set must be an array of { question, expected } objects.");
+    }
+    return entries
+      .map((entry) => ({
+        question: String(entry.question ?? "").trim(),
+        expected: (Array.isArray(entry.expected) ? entry.expected : [entry.expected])
+          .filter((source: unknown) => typeof source === "string" && source.trim())
+          .map((source: string) => source.trim()),
+      }))
+      .filter((entry) => entry.question && entry.expected.length > 0);
+  }
+
+  const questions: GoldenQuestion[] = [];
+  let questionIndent = -1;
+  for (const line of content.split("\n")) {
+    const match = line.match(LIST_ITEM_REGEX);
+    if (!match) continue;
+    const indent = match[1].replace(/\t/g, "    ").length;
+    const text = match[2].trim();
+    if (questionIndent === -1 || indent <= questionIndent) {
+      questionIndent = indent;
+      questions.push({ question: text, expected: [] });
+    } else if (text) {
+      questions[questions.length - 1].expected.push(text);
+    }
+  }
+  return questions.filter((entry) => entry.question && entry.expected.length > 0);
+}
+
+// Split "[[Folder/Note#Heading|alias]]" or "Folder/Note.md#Heading" into its note and heading
+export function parseExpectedSource(expected: string): { note: string; heading?: string } {
+  const target = expected
+    .trim()
+    .replace(/^\[\[|\]\]$/g, "")
+    .split("|")[0];
+  const hashIndex = target.indexOf("#");
+  const note = (hashIndex === -1 ? target : target.slice(0, hashIndex)).trim();
+  const heading = hashIndex === -1 ? "" : target.slice(hashIndex + 1).trim();
+  return heading ? { note, heading } : { note };
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/\.md$/, "");
+}
+
+/**
+ * Whether a retrieved chunk is the expected source. Notes match by path, with or
+ * without extension, or by name, and a heading must be among the chunk's headings.
+ */
+export function matchesExpectedSource(source: RetrievedSource, expected: string): boolean {
+  const { note, heading } = parseExpectedSource(expected);
+  const wanted = normalizeName(note);
+  const path = normalizeName(source.path);
+  const basename = path.split("/").pop() ?? path;
+  const noteMatches =
+    wanted === path || wanted === basename || wanted === normalizeName(source.title);
+  if (!noteMatches) return false;
+  if (!heading) return true;
+  return source.headings.some((h) => h.toLowerCase() === heading.toLowerCase());
+}
+
+export function evaluateQuestion(
+  entry: GoldenQuestion,
+  retrieved: RetrievedSource[],
+  k: number
+): QuestionEvalResult {
+  const topK = retrieved.slice(0, k);
+  const ranks = entry.expected.map((expected) => {
+    const index = topK.findIndex((source) => matchesExpectedSource(source, expected));
+    return index === -1 ? null : index + 1;
+  });
+  const foundRanks = ranks.filter((rank): rank is number => rank !== null);
+  return {
+    question: entry.question,
+    expected: entry.expected,
+    retrieved: topK,
+    ranks,
+    recall: foundRanks.length / entry.expected.length,
+    reciprocalRank: foundRanks.length > 0 ? 1 / Math.min(...foundRanks) : 0,
+  };
+}
+
+export function summarizeEval(results: QuestionEvalResult[], k: number): EvalSummary {
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  return {
+    k,
+    questionCount: results.length,
+    recallAtK: mean(results.map((result) => result.recall)),
+    mrr: mean(results.map((result) => result.reciprocalRank)),
+    missedQuestionCount: results.filter((result) => result.recall < 1).length,
+  };
+}
+
+/**
+ * Run every question of a golden set through a retriever. A failing question is
+ * scored as a miss with its error, so one bad question doesn't end the run.
+ */
+export async function runRetrievalEval(
+  goldenSet: GoldenQuestion[],
+  retrieve: (question: string) => Promise<RetrievedSource[]>,
+  k: number,
+  onProgress?: (done: number, total: number) => void
+): Promise<{ summary: EvalSummary; results: QuestionEvalResult[] }> {
+  const results: QuestionEvalResult[] = [];
+  for (const entry of goldenSet) {
+    try {
+      results.push(evaluateQuestion(entry, await retrieve(entry.question), k));
+    } catch (error) {
+      console.error(`Error retrieving sources for "${entry.question}":`, error);
+      results.push({ ...evaluateQuestion(entry, [], k), error: String(error) });
+    }
+    onProgress?.(results.length, goldenSet.length);
+  }
+  return { summary: summarizeEval(results, k), results };
+}
+
+function formatSource(source: RetrievedSource): string {
+  const heading = source.headings[source.headings.length - 1];
+  return `[[${source.path.replace(/\.md$/, "")}${heading ? `#${heading}` : ""}]]`;
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+/**
+ * Markdown report of a run, with the retrieval settings it ran with so reports of
+ * different configurations can be compared.
+ */
+export function formatEvalReport(
+  summary: EvalSummary,
+  results: QuestionEvalResult[],
+  options: { title: string; goldenSetPath: string; config: Record<string, string | number> }
+): string {
+  const lines = [
+    `# ${options.title}`,
+    "",
+    `Golden set: [[${options.goldenSetPath}]]`,
+    "",
+    "## Summary",
+    "",
+    `- Questions: ${summary.questionCount}`,
+    `- Recall@${summary.k}: ${summary.recallAtK.toFixed(3)}`,
+    `- MRR: ${summary.mrr.toFixed(3)}`,
+    `- Questions with misses: ${summary.missedQuestionCount}`,
+    "",
+    "## Configuration",
+    "",
+    "| Setting | Value |",
+    "| --- | --- |",
+    ...Object.entries(options.config).map(
+      ([name, value]) => `| ${escapeTableCell(name)} | ${escapeTableCell(String(value))} |`
+    ),
+    "",
+    "## Questions",
+    "",
+    `| # | Question | Recall@${summary.k} | First hit |`,
+    "| --- | --- | --- | --- |",
+    ...results.map((result, i) => {
+      const firstHit =
+        result.reciprocalRank > 0 ? String(Math.round(1 / result.reciprocalRank)) : "-";
+      return `| ${i + 1} | ${escapeTableCell(result.question)} | ${result.recall.toFixed(2)} | ${firstHit} |`;
+    }),
+  ];
+
+  const misses = results.filter((result) => result.recall < 1);
+  if (misses.length > 0) {
+    lines.push("", "## Misses");
+    for (const result of misses) {
+      lines.push("", `### ${result.question}`, "");
+      if (result.error) lines.push(`Error: ${result.error}`, "");
+      result.expected.forEach((expected, i) => {
+        if (result.ranks[i] === null) lines.push(`- Missed: ${expected}`);
+      });
+      if (result.retrieved.length === 0) {
+        lines.push("- Retrieved: nothing");
+      } else {
+        lines.push(
+          "- Retrieved:",
+          ...result.retrieved.map((source, i) => `  ${i + 1}. ${formatSource(source)}`)
+        );
+      }
+    }
+  }
+  return lines.join("\n") + "\n";
+}
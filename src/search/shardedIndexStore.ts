@@ -0,0 +1,201 @@
+import { OramaDocument } from "@/vectorDBManager";
+import { MD5 } from "crypto-js";
+import { App } from "obsidian";
+
+// Content hash of a note at the time it was last embedded
+export interface FileHashRecord {
+  hash: string;
+  mtime: number;
+}
+
+export interface IndexManifest {
+  version: number;
+  schema: Record<string, unknown>;
+  vectorLength: number;
+  // Shard id to the number of documents stored in it
+  shards: Record<string, number>;
+  fileHashes: Record<string, FileHashRecord>;
+  // Model the embeddings were made with, absent in indexes saved before model migrations
+  embeddingModel?: string;
+  embeddingModelKey?: string;
+}
+
+export const INDEX_FORMAT_VERSION = 1;
+// Two hex characters of the path hash, so at most 256 shards
+const SHARD_ID_LENGTH = 2;
+
+/**
+ * On-disk format of the vector index. Documents are partitioned into shards by a
+ * hash of their note path. Each shard is a JSON file with the documents minus their
+ * embeddings, plus a binary Float32 file with the embeddings in the same order, so
+ * the index never has to be serialized as one giant JSON string and only shards
+ * with changed notes are rewritten.
+ *
+ * The manifest is written last and through a temporary file. Shards being rewritten
+ * are listed in a pending file until the manifest is saved, so shards a save didn't
+ * finish are known on the next load and dropped.
+ */
+export default class ShardedIndexStore {
+  constructor(
+    private app: App,
+    readonly dirPath: string
+  ) {}
+
+  static getShardId(path: string): string {
+    return MD5(path).toString().slice(0, SHARD_ID_LENGTH);
+  }
+
+  static getVectorLength(schema: Record<string, unknown>): number {
+    const match = String(schema.embedding ?? "").match(/vector\[(\d+)\]/);
+    return match ? parseInt(match[1], 10) : 0;
+  }
+
+  static encodeVectors(docs: OramaDocument[], vectorLength: number): ArrayBuffer {
+    const vectors = new Float32Array(docs.length * vectorLength);
+    docs.forEach((doc, i) => {
+      // Vectors of the wrong length are left as zeros rather than shifting every later vector
+      if (doc.embedding?.length === vectorLength) vectors.set(doc.embedding, i * vectorLength);
+    });
+    return vectors.buffer;
+  }
+
+  static decodeVectors(buffer: ArrayBuffer, count: number, vectorLength: number): number[][] {
+    const vectors = new Float32Array(buffer);
+    if (vectors.length !== count * vectorLength) {
+      throw new Error(
+        `Expected ${count * vectorLength} vector values in index shard, found ${vectors.length}`
+      );
+    }
+    return Array.from({ length: count }, (_, i) =>
+      Array.from(vectors.subarray(i * vectorLength, (i + 1) * vectorLength))
+    );
+  }
+
+  private getManifestPath(): string {
+    return `${this.dirPath}/manifest.json`;
+  }
+
+  // Written in full before it replaces the manifest
+  private getNextManifestPath(): string {
+    return `${this.dirPath}/manifest-next.json`;
+  }
+
+  private getPendingShardsPath(): string {
+    return `${this.dirPath}/pending.json`;
+  }
+
+  private getShardPaths(shardId: string) {
+    return {
+      docsPath: `${this.dirPath}/${shardId}.json`,
+      vectorsPath: `${this.dirPath}/${shardId}.vectors`,
+    };
+  }
+
+  private async ensureDir(): Promise<void> {
+    if (!(await this.app.vault.adapter.exists(this.dirPath))) {
+      await this.app.vault.adapter.mkdir(this.dirPath);
+    }
+  }
+
+  /**
+   * @return {IndexManifest | null} the manifest, or null if there is no index in a known format
+   */
+  async readManifest(): Promise<IndexManifest | null> {
+    // Without the manifest a save stopped between removing it and renaming the new one
+    let manifestPath = this.getManifestPath();
+    if (!(await this.app.vault.adapter.exists(manifestPath))) {
+      manifestPath = this.getNextManifestPath();
+      if (!(await this.app.vault.adapter.exists(manifestPath))) return null;
+    }
+    const manifest: IndexManifest = JSON.parse(await this.app.vault.adapter.read(manifestPath));
+    if (manifest.version !== INDEX_FORMAT_VERSION) {
+      console.log(`Ignoring index manifest with unknown format version ${manifest.version}.`);
+      return null;
+    }
+    return manifest;
+  }
+
+  async writeManifest(manifest: IndexManifest): Promise<void> {
+    await this.ensureDir();
+    const adapter = this.app.vault.adapter;
+    const manifestPath = this.getManifestPath();
+    const nextManifestPath = this.getNextManifestPath();
+    await adapter.write(nextManifestPath, JSON.stringify(manifest));
+    if (await adapter.exists(manifestPath)) await adapter.remove(manifestPath);
+    await adapter.rename(nextManifestPath, manifestPath);
+  }
+
+  // Shards a save started rewriting and didn't finish, see writePendingShards
+  async readPendingShards(): Promise<Set<string>> {
+    const pendingPath = this.getPendingShardsPath();
+    if (!(await this.app.vault.adapter.exists(pendingPath))) return new Set();
+    try {
+      return new Set(JSON.parse(await this.app.vault.adapter.read(pendingPath)));
+    } catch (error) {
+      // Written before any shard, so a damaged file means no shard was touched yet
+      console.error("Error reading the pending index shards:", error);
+      return new Set();
+    }
+  }
+
+  async writePendingShards(shardIds: Iterable<string>): Promise<void> {
+    await this.ensureDir();
+    await this.app.vault.adapter.write(
+      this.getPendingShardsPath(),
+      JSON.stringify(Array.from(shardIds))
+    );
+  }
+
+  async clearPendingShards(): Promise<void> {
+    const pendingPath = this.getPendingShardsPath();
+    if (await this.app.vault.adapter.exists(pendingPath)) {
+      await this.app.vault.adapter.remove(pendingPath);
+    }
+  }
+
+  async readShard(shardId: string, vectorLength: number): Promise<OramaDocument[]> {
+    const { docsPath, vectorsPath } = this.getShardPaths(shardId);
+    const docs: OramaDocument[] = JSON.parse(await this.app.vault.adapter.read(docsPath));
+    const vectors = ShardedIndexStore.decodeVectors(
+      await this.app.vault.adapter.readBinary(vectorsPath),
+      docs.length,
+      vectorLength
+    );
+    return docs.map((doc, i) => ({ ...doc, embedding: vectors[i] }));
+  }
+
+  async writeShard(shardId: string, docs: OramaDocument[], vectorLength: number): Promise<void> {
+    await this.ensureDir();
+    const { docsPath, vectorsPath } = this.getShardPaths(shardId);
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const docsWithoutVectors = docs.map(({ embedding, ...doc }) => doc);
+    await this.app.vault.adapter.writeBinary(
+      vectorsPath,
+      ShardedIndexStore.encodeVectors(docs, vectorLength)
+    );
+    await this.app.vault.adapter.write(docsPath, JSON.stringify(docsWithoutVectors));
+  }
+
+  // Delete the whole index from disk
+  async removeAll(): Promise<void> {
+    if (await this.app.vault.adapter.exists(this.dirPath)) {
+      await this.app.vault.adapter.rmdir(this.dirPath, true);
+    }
+  }
+
+  // Move the index to another folder, e.g. to swap in a rebuilt index
+  async moveTo(dirPath: string): Promise<ShardedIndexStore> {
+    if (await this.app.vault.adapter.exists(this.dirPath)) {
+      await this.app.vault.adapter.rename(this.dirPath, dirPath);
+    }
+    return new ShardedIndexStore(this.app, dirPath);
+  }
+
+  async removeShard(shardId: string): Promise<void> {
+    for (const path of Object.values(this.getShardPaths(shardId))) {
+      if (await this.app.vault.adapter.exists(path)) {
+        await this.app.vault.adapter.remove(path);
+      }
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import { loadPdfJs, TFile, Vault } from "obsidian";
+import { AllCanvasNodeData, CanvasData, CanvasGroupData } from "obsidian/canvas";
+
+/**
+ * A part of a file with its own location, e.g. a PDF page or a canvas node.
+ * Each section is chunked on its own so chunks never span two locations.
+ */
+export interface ExtractedSection {
+  text: string;
+  // Markdown is chunked along its headings, plain text by paragraphs
+  format: "markdown" | "plain";
+  // Heading path the section sits under, e.g. ["Page 3"] or a canvas group label
+  headings: string[];
+  // 1-based PDF page
+  page?: number;
+  // Id of the canvas node the text comes from
+  nodeId?: string;
+}
+
+/**
+ * Turns a file into text for Vault QA. Register one with registerTextExtractor()
+ * to index another file type, its sections go through the same chunking and
+ * embedding pipeline as notes.
+ */
+export interface TextExtractor {
+  extensions: string[];
+  extract(file: TFile, vault: Vault): Promise<ExtractedSection[]>;
+}
+
+export const TEXT_FILE_EXTENSIONS = [
+  "txt",
+  "csv",
+  "json",
+  "yaml",
+  "yml",
+  "toml",
+  "xml",
+  "html",
+  "css",
+  "js",
+  "jsx",
+  "ts",
+  "tsx",
+  "py",
+  "java",
+  "kt",
+  "c",
+  "h",
+  "cpp",
+  "cs",
+  "go",
+  "rs",
+  "rb",
+  "php",
+  "swift",
+  "sh",
+  "sql",
+];
+
+interface PdfTextItem {
+  str?: string;
+  hasEOL?: boolean;
+}
+
+// Join the text items of a PDF page, pdf.js marks the items that end a line
+export function joinPdfTextItems(items: PdfTextItem[]): string {
+  return items
+    .map((item) => (item.str ?? "") + (item.hasEOL ? "\n" : ""))
+    .join("")
+    .replace(/[ \t]+\n/g, "\n")
+    .trim();
+}
+
+function isInsideGroup(node: AllCanvasNodeData, group: CanvasGroupData): boolean {
+  const centerX = node.x + node.width / 2;
+  const centerY = node.y + node.height / 2;
+  return (
+    centerX >= group.x &&
+    centerX <= group.x + group.width &&
+    centerY >= group.y &&
+    centerY <= group.y + group.height
+  );
+}
+
+/**
+ * Text nodes of a canvas, under the labels of the groups they sit in, plus one
+ * section listing the linked notes, files and web pages. The linked notes are
+ * indexed on their own, so only their names are repeated here.
+ */
+export function extractCanvasSections(canvasJson: string): ExtractedSection[] {
+  if (!canvasJson.trim()) return [];
+  const canvas: CanvasData = JSON.parse(canvasJson);
+  const nodes = canvas.nodes ?? [];
+  // Largest groups first, so nested group labels come out outermost first
+  const groups = nodes
+    .filter((node): node is CanvasGroupData => node.type === "group" && !!node.label)
+    .sort((a, b) => b.width * b.height - a.width * a.height);
+  const getGroupLabels = (node: AllCanvasNodeData) =>
+    groups.filter((group) => isInsideGroup(node, group)).map((group) => group.label as string);
+
+  const sections: ExtractedSection[] = [];
+  const links: string[] = [];
+  for (const node of nodes) {
+    if (node.type === "text" && node.text?.trim()) {
+      sections.push({
+        text: node.text,
+        format: "markdown",
+        headings: getGroupLabels(node),
+        nodeId: node.id,
+      });
+    } else if (node.type === "file" && node.file) {
+      links.push(`[[${node.file}${node.subpath ?? ""}]]`);
+    } else if (node.type === "link" && node.url) {
+      links.push(node.url);
+    }
+  }
+  if (links.length > 0) {
+    sections.push({ text: `Linked: ${links.join(", ")}`, format: "plain", headings: [] });
+  }
+  return sections;
+}
+
+const markdownExtractor: TextExtractor = {
+  extensions: ["md"],
+  async extract(file, vault) {
+    return [{ text: await vault.cachedRead(file), format: "markdown", headings: [] }];
+  },
+};
+
+const canvasExtractor: TextExtractor = {
+  extensions: ["canvas"],
+  async extract(file, vault) {
+    return extractCanvasSections(await vault.cachedRead(file));
+  },
+};
+
+// Reads the text layer with the pdf.js bundled in Obsidian, scanned PDFs without one yield nothing
+const pdfExtractor: TextExtractor = {
+  extensions: ["pdf"],
+  async extract(file, vault) {
+    const pdfjs = await loadPdfJs();
+    const data = new Uint8Array(await vault.readBinary(file));
+    const pdf = await pdfjs.getDocument({ data }).promise;
+    const sections: ExtractedSection[] = [];
+    try {
+      for (let page = 1; page <= pdf.numPages; page++) {
+        const textContent = await (await pdf.getPage(page)).getTextContent();
+        const text = joinPdfTextItems(textContent.items);
+        if (text) sections.push({ text, format: "plain", headings: [`Page ${page}`], page });
+      }
+    } finally {
+      await pdf.destroy();
+    }
+    return sections;
+  },
+};
+
+const plainTextExtractor: TextExtractor = {
+  extensions: TEXT_FILE_EXTENSIONS,
+  async extract(file, vault) {
+    return [{ text: await vault.cachedRead(file), format: "plain", headings: [] }];
+  },
+};
+
+const extractors = new Map<string, TextExtractor>();
+
+export function registerTextExtractor(extractor: TextExtractor) {
+  for (const extension of extractor.extensions) {
+    extractors.set(extension.toLowerCase(), extractor);
+  }
+}
+
+export function getTextExtractor(extension: string): TextExtractor | undefined {
+  return extractors.get(extension.toLowerCase());
+}
+
+export function hasTextExtractor(extension: string): boolean {
+  return extractors.has(extension.toLowerCase());
+}
+
+// Extensions as typed in the settings, e.g. "pdf, .canvas py"
+export function parseFileExtensions(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((extension) => extension.replace(/^\./, "").toLowerCase())
+    .filter(Boolean);
+}
+
+// Notes are always indexed, other file types with an extractor only once they are turned on
+export function isIndexedFileType(extension: string, extraFileTypes: string): boolean {
+  const normalized = extension.toLowerCase();
+  if (!hasTextExtractor(normalized)) return false;
+  return normalized === "md" || parseFileExtensions(extraFileTypes).includes(normalized);
+}
+
+// The text a file's content hash is computed from, for markdown the note as is
+export function getExtractedText(sections: ExtractedSection[]): string {
+  return sections.map((section) => section.text).join("\n\n");
+}
+
+[markdownExtractor, canvasExtractor, pdfExtractor, plainTextExtractor].forEach(
+  registerTextExtractor
+);
@@ -42,13 +42,39 @@ export interface CopilotSettings {
   debug: boolean;
   enableEncryption: boolean;
   maxSourceChunks: number;
+  chunkSize: number;
+  chunkOverlap: number;
+  hybridFusionStrategy: string;
+  textSearchWeight: number;
+  vectorSearchWeight: number;
+  // Link hops to expand retrieval results through, 0 to turn it off
+  graphExpansionHops: number;
+  graphHopDecay: number;
+  // 1 turns maximal marginal relevance off
+  mmrLambda: number;
+  // 0 for no limit
+  maxChunksPerNote: number;
+  queryRewriteMode: string;
+  // Empty to use the default prompt of the rewrite mode
+  queryRewritePrompt: string;
+  reranker: string;
+  rerankApiUrl: string;
+  rerankModel: string;
+  rerankApiKey: string;
   qaExclusions: string;
+  qaInclusions: string;
+  // Comma separated extensions of files other than notes to index, e.g. "pdf, canvas"
+  qaExtraFileTypes: string;
   groqApiKey: string;
   enabledCommands: Record<string, { enabled: boolean; name: string }>;
   activeModels: Array<CustomModel>;
   activeEmbeddingModels: Array<CustomModel>;
   promptUsageTimestamps: Record<string, number>;
+  // Saved conversations kept at the top of the chat history
+  pinnedChatPaths: string[];
   embeddingRequestsPerSecond: number;
+  embeddingBatchSize: number;
+  embeddingBatchTokenLimit: number;
 }
 
 export class CopilotSettingTab extends PluginSettingTab {
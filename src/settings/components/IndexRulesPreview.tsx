@@ -0,0 +1,81 @@
+import { IndexRules, readCopilotIgnore, toIndexRuleFile } from "@/search/indexRules";
+import { isIndexedFileType } from "@/search/textExtractors";
+import { App } from "obsidian";
+import React, { useState } from "react";
+
+const MAX_PREVIEW_FILES = 50;
+
+interface IndexRulesPreviewProps {
+  app: App;
+  inclusions: string;
+  exclusions: string;
+  extraFileTypes: string;
+}
+
+interface PreviewResult {
+  indexedCount: number;
+  totalCount: number;
+  // Excluded files with the rules that exclude them, empty for files outside the inclusions
+  excluded: { path: string; rules: string[] }[];
+}
+
+const IndexRulesPreview: React.FC<IndexRulesPreviewProps> = ({
+  app,
+  inclusions,
+  exclusions,
+  extraFileTypes,
+}) => {
+  const [preview, setPreview] = useState<PreviewResult | null>(null);
+
+  const runPreview = async () => {
+    // The rules as typed, they may not be saved yet
+    const rules = IndexRules.fromText(inclusions, exclusions, await readCopilotIgnore(app));
+    const files = app.vault
+      .getFiles()
+      .filter((file) => isIndexedFileType(file.extension, extraFileTypes));
+
+    const excluded: PreviewResult["excluded"] = [];
+    for (const file of files) {
+      const ruleFile = toIndexRuleFile(app, file);
+      if (rules.isIndexed(ruleFile)) continue;
+      excluded.push({
+        path: file.path,
+        rules: rules.getMatchingExclusions(ruleFile).map((rule) => rule.source),
+      });
+    }
+    setPreview({
+      indexedCount: files.length - excluded.length,
+      totalCount: files.length,
+      excluded,
+    });
+  };
+
+  return (
+    <div className="copilot-setting-item index-rules-preview">
+      <button onClick={runPreview}>Preview indexed files</button>
+      {preview && (
+        <div className="index-rules-preview-result">
+          <div>
+            {preview.indexedCount} of {preview.totalCount} files are indexed,{" "}
+            {preview.excluded.length} excluded.
+          </div>
+          <ul>
+            {preview.excluded.slice(0, MAX_PREVIEW_FILES).map(({ path, rules }) => (
+              <li key={path}>
+                {path}
+                <span className="index-rules-preview-rule">
+                  {rules.length > 0 ? rules.join(", ") : "not included"}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {preview.excluded.length > MAX_PREVIEW_FILES && (
+            <div>and {preview.excluded.length - MAX_PREVIEW_FILES} more</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IndexRulesPreview;
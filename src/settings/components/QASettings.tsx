@@ -1,15 +1,29 @@
 import { CustomModel } from "@/aiParams";
-import { EmbeddingModelProviders, VAULT_VECTOR_STORE_STRATEGIES } from "@/constants";
+import {
+  EmbeddingModelProviders,
+  HYBRID_FUSION_STRATEGIES,
+  QUERY_REWRITE_MODE,
+  QUERY_REWRITE_MODES,
+  RERANKER,
+  RERANKERS,
+  VAULT_VECTOR_STORE_STRATEGIES,
+} from "@/constants";
+import { getDefaultRewritePrompt, getRewritePromptError } from "@/search/queryRewriter";
+import { TEXT_FILE_EXTENSIONS } from "@/search/textExtractors";
 import { useSettingsContext } from "@/settings/contexts/SettingsContext";
+import { App } from "obsidian";
 import React from "react";
+import IndexRulesPreview from "./IndexRulesPreview";
 import {
   DropdownComponent,
   ModelSettingsComponent,
   SliderComponent,
   TextAreaComponent,
+  TextComponent,
 } from "./SettingBlocks";
 
 interface QASettingsProps {
+  app: App;
   huggingfaceApiKey: string;
   setHuggingfaceApiKey: (value: string) => void;
   indexVaultToVectorStore: string;
@@ -19,12 +33,14 @@ interface QASettingsProps {
 }
 
 const QASettings: React.FC<QASettingsProps> = ({
+  app,
   indexVaultToVectorStore,
   setIndexVaultToVectorStore,
   maxSourceChunks,
   setMaxSourceChunks,
 }) => {
   const { settings, updateSettings } = useSettingsContext();
+  const rewritePromptError = getRewritePromptError(settings.queryRewritePrompt);
 
   const handleUpdateEmbeddingModels = (models: Array<CustomModel>) => {
     const updatedActiveEmbeddingModels = models.map((model) => ({
@@ -55,6 +71,13 @@ const QASettings: React.FC<QASettingsProps> = ({
         </a>{" "}
         setup guide to setup Ollama's local embedding model (requires Ollama v0.1.26 or above).
       </p>
+      <p>
+        Without Ollama or an API key, add a custom model with the provider{" "}
+        <em>local (in-process)</em>. It runs a small ONNX sentence embedding model such as{" "}
+        <em>all-MiniLM-L6-v2</em> or <em>bge-small-en-v1.5</em> on the CPU inside Obsidian. Put{" "}
+        <em>model.onnx</em> and <em>tokenizer.json</em> in a folder of your vault, or of the plugin
+        under <em>.obsidian/plugins</em>, and enter that folder as the base URL.
+      </p>
       <h2>Embedding Models</h2>
       <ModelSettingsComponent
         activeModels={settings.activeEmbeddingModels}
@@ -100,14 +123,35 @@ const QASettings: React.FC<QASettingsProps> = ({
         <br />
         <br />
         By "refreshed", it means the vault index is not rebuilt from scratch but rather updated
-        incrementally with new/modified notes since the last index. If you need a complete rebuild,
-        run the commands "Clear vector store" and "Force re-index for QA" manually. This helps
-        reduce costs when using paid embedding models.
+        incrementally with notes whose content changed since the last index.
+        <br />
+        <br />
+        Unless the strategy is <strong>NEVER</strong>, notes you create, edit or rename are also
+        re-indexed in the background a few seconds after you stop editing them. With NEVER edits are
+        only embedded on the next refresh. Deleted and renamed notes are always updated in the
+        index. If you need a complete rebuild, run the commands "Clear vector store" and "Force
+        re-index for QA" manually. This helps reduce costs when using paid embedding models.
+        <br />
+        <br />
+        When you change the embedding model, the next refresh builds a new index in the background.
+        Vault QA keeps using the current index until the new one is complete, and an interrupted
+        build resumes on the next start. The old index is kept until you run{" "}
+        <em>Delete previous vector store</em>, switching back to its model reuses it.
         <br />
         <br />
         Beware of the cost if you are using a paid embedding model and have a large vault! You can
         run Copilot command <em>Count total tokens in your vault</em> and refer to your selected
         embedding model pricing to estimate indexing costs.
+        <br />
+        <br />
+        Only notes are indexed by default. PDFs (their text layer), canvases and plain-text or code
+        files are indexed once you add their types to <em>Other file types to index</em> below.
+        <br />
+        <br />
+        In Vault QA you can scope a question with filters: <em>#project/alpha</em> (tag and its
+        nested tags), <em>folder:Meetings</em> (folder and its subfolders),{" "}
+        <em>after:2024-01-01</em> or <em>before:30d</em> (modification date, both include the day
+        named) and <em>status:: active</em> (note property). All filters must match.
       </p>
       <br />
       <SliderComponent
@@ -121,6 +165,143 @@ const QASettings: React.FC<QASettingsProps> = ({
           setMaxSourceChunks(value);
         }}
       />
+      <SliderComponent
+        name="Chunk size"
+        description="Max characters in a chunk. Notes are split at headings first, code blocks and tables are never split. Default is 5000. Changes apply to notes indexed from now on, force re-index to re-chunk the whole vault."
+        min={500}
+        max={10000}
+        step={500}
+        value={settings.chunkSize}
+        onChange={(value) => updateSettings({ chunkSize: value })}
+      />
+      <SliderComponent
+        name="Chunk overlap"
+        description="Characters of the previous chunk repeated at the start of the next chunk of the same section. Default is 200."
+        min={0}
+        max={1000}
+        step={50}
+        value={settings.chunkOverlap}
+        onChange={(value) => updateSettings({ chunkOverlap: value })}
+      />
+      <DropdownComponent
+        name="Hybrid search fusion"
+        description="How keyword (BM25) and semantic (vector) search results are merged. RECIPROCAL RANK only looks at the order of each result list. WEIGHTED SCORE normalizes and adds up the scores."
+        value={settings.hybridFusionStrategy}
+        onChange={(value) => updateSettings({ hybridFusionStrategy: value })}
+        options={HYBRID_FUSION_STRATEGIES}
+      />
+      <SliderComponent
+        name="Keyword search weight"
+        description="Weight of the keyword (BM25) results. Increase it if exact terms such as names, codes or IDs are missed. Set to 0 for semantic search only."
+        min={0}
+        max={1}
+        step={0.05}
+        value={settings.textSearchWeight}
+        onChange={(value) => updateSettings({ textSearchWeight: value })}
+      />
+      <SliderComponent
+        name="Semantic search weight"
+        description="Weight of the semantic (vector) results. Default is 0.5."
+        min={0}
+        max={1}
+        step={0.05}
+        value={settings.vectorSearchWeight}
+        onChange={(value) => updateSettings({ vectorSearchWeight: value })}
+      />
+      <SliderComponent
+        name="Result diversity (MMR lambda)"
+        description="Lower values skip chunks that repeat chunks already picked, so answers see more perspectives. 1 ranks by relevance only and turns it off, which is the default. Around 0.7 is a good start."
+        min={0}
+        max={1}
+        step={0.05}
+        value={settings.mmrLambda}
+        onChange={(value) => updateSettings({ mmrLambda: value })}
+      />
+      <SliderComponent
+        name="Max chunks per note"
+        description="Most chunks of one note among the sources, so one long note can't take every slot. 0 means no limit, which is the default."
+        min={0}
+        max={10}
+        step={1}
+        value={settings.maxChunksPerNote}
+        onChange={(value) => updateSettings({ maxChunksPerNote: value })}
+      />
+      <SliderComponent
+        name="Link expansion hops"
+        description="Also search the notes linked to or from the notes found, following this many links. Helps when hub notes or maps of content link to the answers. 0 turns it off, which is the default."
+        min={0}
+        max={2}
+        step={1}
+        value={settings.graphExpansionHops}
+        onChange={(value) => updateSettings({ graphExpansionHops: value })}
+      />
+      {settings.graphExpansionHops > 0 && (
+        <SliderComponent
+          name="Link hop decay"
+          description="Similarity of a linked chunk is multiplied by this for every link followed, so lower values favour direct matches. Default is 0.5."
+          min={0.1}
+          max={1}
+          step={0.05}
+          value={settings.graphHopDecay}
+          onChange={(value) => updateSettings({ graphHopDecay: value })}
+        />
+      )}
+      <DropdownComponent
+        name="Reranker"
+        description="Optionally reorder retrieved chunks with a stronger model. Copilot fetches 4 times Max Sources candidates and keeps the best ones. CHAT MODEL asks the current chat model to rank them (one extra call per question). RERANK API calls a rerank endpoint such as Cohere, Jina or a local reranker."
+        value={settings.reranker}
+        onChange={(value) => updateSettings({ reranker: value })}
+        options={RERANKERS}
+      />
+      {settings.reranker === RERANKER.RERANK_API && (
+        <>
+          <TextComponent
+            name="Rerank API URL"
+            description="Endpoint accepting { model, query, documents } and returning { results: [{ index, relevance_score }] }."
+            placeholder="http://localhost:8080/v1/rerank"
+            value={settings.rerankApiUrl}
+            onChange={(value) => updateSettings({ rerankApiUrl: value })}
+          />
+          <TextComponent
+            name="Rerank model"
+            placeholder="rerank-english-v3.0"
+            value={settings.rerankModel}
+            onChange={(value) => updateSettings({ rerankModel: value })}
+          />
+          <TextComponent
+            name="Rerank API key"
+            description="Leave empty for local endpoints."
+            placeholder="API key"
+            type="password"
+            value={settings.rerankApiKey}
+            onChange={(value) => updateSettings({ rerankApiKey: value })}
+          />
+        </>
+      )}
+      <DropdownComponent
+        name="Query rewriting"
+        description="How the question is rewritten before searching the vault. HYDE (the default) asks the chat model for a hypothetical answer, in the context of the conversation, and searches for notes similar to it. STANDALONE QUESTION turns follow-up questions into a question that makes sense without the chat history. NONE searches for the question as typed. Turn on debug mode to see the rewritten query in the chat."
+        value={settings.queryRewriteMode}
+        onChange={(value) => updateSettings({ queryRewriteMode: value })}
+        options={QUERY_REWRITE_MODES}
+      />
+      {settings.queryRewriteMode !== QUERY_REWRITE_MODE.NONE && (
+        <>
+          <TextAreaComponent
+            name="Query rewrite prompt"
+            description="Leave empty to use the default prompt shown below. Use {question} for the question and {chat_history} for the conversation so far."
+            placeholder={getDefaultRewritePrompt(settings.queryRewriteMode)}
+            value={settings.queryRewritePrompt}
+            onChange={(value) => updateSettings({ queryRewritePrompt: value })}
+            rows={6}
+          />
+          {rewritePromptError && (
+            <div className="warning-message">
+              {rewritePromptError} The default prompt is used until this is fixed.
+            </div>
+          )}
+        </>
+      )}
       <SliderComponent
         name="Requests per second"
         description="Default is 10. Decrease if you are rate limited by your embedding provider."
@@ -130,12 +311,51 @@ const QASettings: React.FC<QASettingsProps> = ({
         value={settings.embeddingRequestsPerSecond}
         onChange={(value) => updateSettings({ embeddingRequestsPerSecond: value })}
       />
+      <SliderComponent
+        name="Embedding batch size"
+        description="Max number of chunks sent in one embedding request. Default is 16. Set to 1 if your embedding provider does not accept batches."
+        min={1}
+        max={128}
+        step={1}
+        value={settings.embeddingBatchSize}
+        onChange={(value) => updateSettings({ embeddingBatchSize: value })}
+      />
+      <SliderComponent
+        name="Embedding batch token limit"
+        description="Max estimated tokens in one embedding request. Default is 8000. Decrease if requests fail for being too large."
+        min={1000}
+        max={100000}
+        step={1000}
+        value={settings.embeddingBatchTokenLimit}
+        onChange={(value) => updateSettings({ embeddingBatchTokenLimit: value })}
+      />
+      <TextComponent
+        name="Other file types to index"
+        description={`Notes are always indexed. Add the extensions of other files to index, comma separated. Supported: pdf, canvas, ${TEXT_FILE_EXTENSIONS.join(", ")}. Index the vault again after adding a type. Files of a removed type leave the index on the next indexing.`}
+        placeholder="pdf, canvas"
+        value={settings.qaExtraFileTypes}
+        onChange={(value) => updateSettings({ qaExtraFileTypes: value })}
+      />
+      <TextAreaComponent
+        name="Indexing Inclusions"
+        description="Leave empty to index the whole vault. Otherwise only files matching one of these rules are indexed, the exclusions below still apply. Same rule syntax as the exclusions."
+        placeholder={"Projects/\n#work"}
+        value={settings.qaInclusions}
+        onChange={(value) => updateSettings({ qaInclusions: value })}
+      />
       <TextAreaComponent
         name="Indexing Exclusions"
-        description="Comma separated list of paths, tags, note titles or file extension, e.g. folder1, folder1/folder2, #tag1, #tag2, [[note1]], [[note2]], *.jpg, *.excallidraw.md etc, to be excluded from the indexing process. NOTE: Tags must be in the note properties, not the note content. Files which were previously indexed will remain in the index unless you force re-index."
-        placeholder="folder1, folder1/folder2, #tag1, #tag2, [[note1]], [[note2]], *.jpg, *.excallidraw.md"
+        description="One rule per line (or comma separated): gitignore-style globs such as folder1/, folder1/folder2, **/drafts/**, *.pdf or *.excalidraw.md, tags such as #private (nested tags match too), properties such as copilot: false, and notes such as [[note1]]. Start a rule with ! to index files an earlier rule excluded. Rules in a .copilotignore file in the vault root are added to these. Indexed files that become excluded are removed from the index on the next indexing."
+        placeholder={"folder1/\n*.excalidraw.md\n#private\ncopilot: false\n[[note1]]"}
         value={settings.qaExclusions}
         onChange={(value) => updateSettings({ qaExclusions: value })}
+        rows={5}
+      />
+      <IndexRulesPreview
+        app={app}
+        inclusions={settings.qaInclusions}
+        exclusions={settings.qaExclusions}
+        extraFileTypes={settings.qaExtraFileTypes}
       />
     </div>
   );
@@ -310,7 +310,7 @@ const ModelSettingsComponent: React.FC<ModelSettingsComponentProps> = ({
             />
             <TextComponent
               name="Base URL (optional)"
-              description="For 3rd party OpenAI Format endpoints only. Leave blank for other providers."
+              description="For 3rd party OpenAI Format endpoints, or the model folder in the vault for local (in-process) embedding models. Leave blank for other providers."
               value={newModel.baseUrl || ""}
               placeholder="https://api.example.com/v1"
               onChange={(value) => setNewModel({ ...newModel, baseUrl: value })}
@@ -54,6 +54,7 @@ const SettingsMain: React.FC<{ plugin: CopilotPlugin; reloadPlugin: () => Promis
       />
       <QASettings
         {...settings}
+        app={plugin.app}
         setHuggingfaceApiKey={(value) => updateSettings({ huggingfaceApiKey: value })}
         setIndexVaultToVectorStore={(value) => updateSettings({ indexVaultToVectorStore: value })}
         setMaxSourceChunks={(value) => updateSettings({ maxSourceChunks: value })}
@@ -1,3 +1,6 @@
+import { ChainType } from "@/chainFactory";
+import { ResponseStats } from "@/LLMProviders/responseStats";
+import { SourceCitation } from "@/search/citations";
 import { useEffect, useState } from "react";
 import { FormattedDateTime } from "./utils";
 export interface ChatMessage {
@@ -5,27 +8,171 @@ export interface ChatMessage {
   sender: string;
   timestamp: FormattedDateTime | null;
   isVisible: boolean;
+  // Retrieved chunks a Vault QA answer cites as [1], [2], ...
+  sources?: SourceCitation[];
+  // Query the vault was searched with, kept in debug mode when it differs from the question
+  rewrittenQuery?: string;
+  // Model and chain that wrote an AI message
+  modelKey?: string;
+  chainType?: ChainType;
+  stats?: ResponseStats;
 }
 
+// One message in the conversation tree, regenerated and edited messages are siblings
+export interface ChatMessageNode {
+  id: string;
+  parentId: string | null;
+  message: ChatMessage;
+}
+
+// Position of a message among its alternatives, e.g. 2 of 3 regenerated answers
+export interface BranchInfo {
+  index: number;
+  count: number;
+}
+
+// The whole conversation tree, as saved with a chat note
+export interface ChatTreeSnapshot {
+  nodes: ChatMessageNode[];
+  activeChildIds: Record<string, string>;
+}
+
+// Key of the first messages of the conversation in activeChildIds
+const ROOT_ID = "";
+
 class SharedState {
-  chatHistory: ChatMessage[] = [];
+  private nodes = new Map<string, ChatMessageNode>();
+  // The child followed from each message, which makes up the active branch
+  private activeChildIds = new Map<string, string>();
+  private nextId = 0;
+
+  // The messages of the active branch
+  get chatHistory(): ChatMessage[] {
+    return this.getMessages();
+  }
 
-  addMessage(message: ChatMessage): void {
-    this.chatHistory.push(message);
+  private getChildren(parentId: string | null): ChatMessageNode[] {
+    return Array.from(this.nodes.values()).filter((node) => node.parentId === parentId);
+  }
+
+  getActivePath(): ChatMessageNode[] {
+    const path: ChatMessageNode[] = [];
+    let node = this.nodes.get(this.activeChildIds.get(ROOT_ID) ?? "");
+    while (node) {
+      path.push(node);
+      node = this.nodes.get(this.activeChildIds.get(node.id) ?? "");
+    }
+    return path;
+  }
+
+  /**
+   * Add a message after the last message of the active branch, or after the given
+   * message, and make it part of the active branch.
+   *
+   * @return {string} the id of the new message
+   */
+  addMessage(message: ChatMessage, parentId?: string | null): string {
+    const parent =
+      parentId === undefined ? (this.getActivePath().pop()?.id ?? null) : (parentId ?? null);
+    const id = String(this.nextId++);
+    this.nodes.set(id, { id, parentId: parent, message });
+    this.activeChildIds.set(parent ?? ROOT_ID, id);
+    return id;
   }
 
   getMessages(): ChatMessage[] {
-    return this.chatHistory;
+    return this.getActivePath().map((node) => node.message);
+  }
+
+  // Every message of every branch, in the order they were added
+  getAllNodes(): ChatMessageNode[] {
+    return Array.from(this.nodes.values());
+  }
+
+  getBranchInfo(id: string): BranchInfo | null {
+    const node = this.nodes.get(id);
+    if (!node) return null;
+    const siblings = this.getChildren(node.parentId);
+    return { index: siblings.findIndex((sibling) => sibling.id === id), count: siblings.length };
+  }
+
+  // Make a message and the branch below it active
+  selectBranch(id: string) {
+    const node = this.nodes.get(id);
+    if (node) this.activeChildIds.set(node.parentId ?? ROOT_ID, id);
+  }
+
+  // Switch to the previous (-1) or next (1) alternative of a message
+  switchBranch(id: string, offset: number) {
+    const node = this.nodes.get(id);
+    if (!node) return;
+    const siblings = this.getChildren(node.parentId);
+    const target = siblings[siblings.findIndex((sibling) => sibling.id === id) + offset];
+    if (target) this.selectBranch(target.id);
+  }
+
+  /**
+   * End the active branch before a message, so the next message added becomes an
+   * alternative to it. The message and the branch below it are kept.
+   */
+  branchBefore(id: string) {
+    const node = this.nodes.get(id);
+    if (node) this.activeChildIds.delete(node.parentId ?? ROOT_ID);
+  }
+
+  /**
+   * Remove a single message. Its replies move up to its parent, so deleting a
+   * message in the middle of a conversation keeps the rest of it.
+   */
+  deleteMessage(id: string) {
+    const node = this.nodes.get(id);
+    if (!node) return;
+    const parentKey = node.parentId ?? ROOT_ID;
+    const activeChildId = this.activeChildIds.get(id);
+    for (const child of this.getChildren(id)) {
+      child.parentId = node.parentId;
+    }
+    this.nodes.delete(id);
+    this.activeChildIds.delete(id);
+    if (this.activeChildIds.get(parentKey) === id) {
+      const fallback = activeChildId ?? this.getChildren(node.parentId).pop()?.id;
+      if (fallback) {
+        this.activeChildIds.set(parentKey, fallback);
+      } else {
+        this.activeChildIds.delete(parentKey);
+      }
+    }
+  }
+
+  getSnapshot(): ChatTreeSnapshot {
+    return {
+      nodes: this.getAllNodes().map((node) => ({ ...node })),
+      activeChildIds: Object.fromEntries(this.activeChildIds),
+    };
+  }
+
+  // Replace the conversation with a saved tree, keeping its ids and active branches
+  restoreSnapshot(snapshot: ChatTreeSnapshot) {
+    this.clearChatHistory();
+    for (const node of snapshot.nodes) {
+      this.nodes.set(node.id, { ...node });
+    }
+    for (const [parentKey, id] of Object.entries(snapshot.activeChildIds)) {
+      this.activeChildIds.set(parentKey, id);
+    }
+    const ids = snapshot.nodes.map((node) => Number(node.id)).filter(Number.isFinite);
+    this.nextId = ids.length > 0 ? Math.max(...ids) + 1 : 0;
   }
 
   clearChatHistory(): void {
-    this.chatHistory = [];
+    this.nodes.clear();
+    this.activeChildIds.clear();
   }
 }
 
 export function useSharedState(
   sharedState: SharedState
-): [ChatMessage[], (message: ChatMessage) => void, () => void] {
+): [ChatMessage[], (message: ChatMessage) => void, () => void, () => void] {
   // Initializes the local chatHistory state with the current
   // sharedState chatHistory using the useState hook
   // setChatHistory is used to update the *local* state
@@ -43,7 +190,7 @@ export function useSharedState(
 
   const addMessage = (message: ChatMessage) => {
     sharedState.addMessage(message);
-    setChatHistory([...sharedState.getMessages()]);
+    setChatHistory(sharedState.getMessages());
   };
 
   const clearMessages = () => {
@@ -51,7 +198,12 @@ export function useSharedState(
     setChatHistory([]);
   };
 
-  return [chatHistory, addMessage, clearMessages];
+  // Show the active branch after the tree was changed directly
+  const syncMessages = () => {
+    setChatHistory(sharedState.getMessages());
+  };
+
+  return [chatHistory, addMessage, clearMessages, syncMessages];
 }
 
 export default SharedState;
@@ -1,4 +1,4 @@
-import { ChainType, Document } from "@/chainFactory";
+import { ChainType } from "@/chainFactory";
 import { DEFAULT_SETTINGS, NOMIC_EMBED_TEXT, USER_SENDER } from "@/constants";
 import { CopilotSettings } from "@/settings/SettingsPage";
 import { ChatMessage } from "@/sharedState";
@@ -605,15 +605,3 @@ export function processVariableNameForNotePath(variableName: string): string {
   // It's a path, so we just return it as is
   return variableName;
 }
-
-// Function to extract unique titles from documents
-export function extractUniqueTitlesFromDocs(docs: Document[]): string[] {
-  const titlesSet = new Set<string>();
-  docs.forEach((doc) => {
-    if (doc.metadata?.title) {
-      titlesSet.add(doc.metadata?.title);
-    }
-  });
-
-  return Array.from(titlesSet);
-}
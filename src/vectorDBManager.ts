@@ -1,10 +1,17 @@
-import { CHUNK_SIZE } from "@/constants";
+import EmbeddingCache from "@/embeddingCache";
 import EmbeddingManager from "@/LLMProviders/embeddingManager";
 import { RateLimiter } from "@/rateLimiter";
+import { createEmbeddingBatches } from "@/search/embeddingBatches";
+import { chunkMarkdown, chunkPlainText, MarkdownChunk } from "@/search/markdownChunker";
+import {
+  getFolderFilterValues,
+  getPropertyFilterValues,
+  getTagFilterValues,
+} from "@/search/queryFilters";
+import { ExtractedSection } from "@/search/textExtractors";
 import { Embeddings } from "@langchain/core/embeddings";
-import { insert, Orama, search, update } from "@orama/orama";
+import { getByID, insert, Orama, Result, search, update } from "@orama/orama";
 import { MD5 } from "crypto-js";
-import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
 import { Notice } from "obsidian";
 
 export interface OramaDocument {
@@ -21,10 +28,42 @@ export interface OramaDocument {
   extension: string;
   nchars: number;
   metadata: Record<string, any>;
+  // Where the chunk sits in the note, missing for chunks indexed before notes were split by heading
+  headings?: string[];
+  startLine?: number;
+  endLine?: number;
+  // 1-based page of a PDF chunk, and the canvas node a canvas chunk comes from
+  page?: number;
+  nodeId?: string;
+  // Exact values for metadata filters, see queryFilters.ts
+  folders?: string[];
+  filterTags?: string[];
+  properties?: string[];
 }
+
+export type OramaHit = Result<OramaDocument>;
+
+// A file to chunk and embed, with the fields each of its chunks copies
+export type FileToIndex = Pick<
+  OramaDocument,
+  "title" | "path" | "embeddingModel" | "ctime" | "mtime" | "tags" | "extension" | "metadata"
+> & {
+  sections: ExtractedSection[];
+};
+
+// Line numbers are only kept for sections that are the whole file, e.g. not for a PDF page
+type FileChunk = Omit<MarkdownChunk, "startLine" | "endLine"> &
+  Partial<Pick<MarkdownChunk, "startLine" | "endLine">> &
+  Pick<ExtractedSection, "page" | "nodeId">;
+
 interface VectorDBConfig {
   getEmbeddingRequestsPerSecond: () => number;
+  getChunkSize: () => number;
+  getChunkOverlap: () => number;
+  getEmbeddingBatchSize: () => number;
+  getEmbeddingBatchTokenLimit: () => number;
   debug: boolean;
+  embeddingCache?: EmbeddingCache;
 }
 
 class VectorDBManager {
@@ -50,103 +89,194 @@ class VectorDBManager {
     return MD5(sourceDocument).toString();
   }
 
-  public static async indexFile(
-    db: Orama<any>,
-    embeddingsAPI: Embeddings,
-    fileToSave: any
-  ): Promise<any | undefined> {
-    if (!db) throw new Error("DB not initialized");
-    if (!this.config) throw new Error("VectorDBManager not initialized");
-
-    const embeddingModel = EmbeddingManager.getModelName(embeddingsAPI);
-    if (!embeddingModel) console.error("EmbeddingManager could not determine model name!");
+  // Chunk ids include the path, so identical chunks in two files stay two documents
+  public static getChunkId(path: string, content: string): string {
+    return MD5(`${path}\n${content}`).toString();
+  }
 
-    // Markdown splitter: https://js.langchain.com/docs/modules/data_connection/document_transformers/code_splitter#markdown
-    const textSplitter = RecursiveCharacterTextSplitter.fromLanguage("markdown", {
-      chunkSize: CHUNK_SIZE,
-    });
-    // Add note title as contextual chunk headers
-    // https://js.langchain.com/docs/modules/data_connection/document_transformers/contextual_chunk_headers
-    const chunks = await textSplitter.createDocuments([fileToSave.content], [], {
-      chunkHeader: "[[" + fileToSave.title + "]]" + "\n\n---\n\n",
-      appendChunkOverlapHeader: true,
+  private static chunkFile(fileToSave: FileToIndex): FileChunk[] {
+    const options = {
+      chunkSize: this.config.getChunkSize(),
+      chunkOverlap: this.config.getChunkOverlap(),
+    };
+    return fileToSave.sections.flatMap((section): FileChunk[] => {
+      const chunks =
+        section.format === "markdown"
+          ? chunkMarkdown(
+              fileToSave.title,
+              section.text,
+              options,
+              fileToSave.metadata,
+              section.headings
+            )
+          : chunkPlainText(fileToSave.title, section.text, options, section.headings);
+      const isLocated = section.page !== undefined || section.nodeId !== undefined;
+      return chunks.map((chunk) => ({
+        content: chunk.content,
+        headings: chunk.headings,
+        startLine: isLocated ? undefined : chunk.startLine,
+        endLine: isLocated ? undefined : chunk.endLine,
+        page: section.page,
+        nodeId: section.nodeId,
+      }));
     });
+  }
 
-    const docVectors: number[][] = [];
-    try {
-      for (let i = 0; i < chunks.length; i++) {
-        try {
-          // Apply rate limiting before making the API call
-          await this.getRateLimiter().wait();
-          const embedding = await embeddingsAPI.embedDocuments([chunks[i].pageContent]);
-          if (embedding.length > 0) {
-            docVectors.push(embedding[0]);
+  /**
+   * Embed texts with as few requests as the batch limits allow. Cached embeddings are
+   * reused, and every request waits for the rate limiter.
+   *
+   * @return {(number[] | undefined)[]} the embedding of each text, undefined if the API returned none
+   */
+  public static async embedTexts(
+    embeddingsAPI: Embeddings,
+    embeddingModel: string,
+    texts: string[],
+    onChunksEmbedded?: (count: number) => void
+  ): Promise<(number[] | undefined)[]> {
+    const embeddingCache = embeddingModel ? this.config.embeddingCache : undefined;
+    const hashes = texts.map((text) => this.getDocHash(text));
+    const vectors = hashes.map((hash) => embeddingCache?.get(hash, embeddingModel));
+    const missingIndices = vectors.flatMap((vector, i) => (vector ? [] : [i]));
+    const cacheHits = texts.length - missingIndices.length;
+    if (cacheHits > 0) onChunksEmbedded?.(cacheHits);
+
+    const batches = createEmbeddingBatches(
+      missingIndices.map((i) => texts[i]),
+      this.config.getEmbeddingBatchSize(),
+      this.config.getEmbeddingBatchTokenLimit()
+    ).map((batch) => batch.map((i) => missingIndices[i]));
+
+    for (const batch of batches) {
+      try {
+        // Apply rate limiting before making the API call
+        await this.getRateLimiter().wait();
+        const embeddings = await embeddingsAPI.embedDocuments(batch.map((i) => texts[i]));
+        batch.forEach((textIndex, i) => {
+          const embedding = embeddings[i];
+          if (embedding && embedding.length > 0) {
+            vectors[textIndex] = embedding;
+            embeddingCache?.set(hashes[textIndex], embeddingModel, embedding);
           } else {
             console.error("indexFile - Empty embedding for chunk:", {
-              index: i,
-              length: chunks[i].pageContent.length,
+              index: textIndex,
+              length: texts[textIndex].length,
             });
           }
-        } catch (error) {
-          console.error("indexFile - Error during embeddings API call for chunk:", {
-            index: i,
-            length: chunks[i].pageContent.length,
-            error: error,
-          });
-
-          // Check if the error is related to context length
-          if (error instanceof Error) {
-            new Notice(
-              `Embedding error: please check your embedding model context length, and consider switching to a model with a larger context length: ${error.message}`
-            );
-          }
+        });
+        onChunksEmbedded?.(batch.length);
+      } catch (error) {
+        console.error("indexFile - Error during embeddings API call for batch:", {
+          size: batch.length,
+          length: batch.reduce((total, i) => total + texts[i].length, 0),
+          error: error,
+        });
 
-          // Rethrow the error to stop the indexing process
-          throw error;
+        // Check if the error is related to context length
+        if (error instanceof Error) {
+          new Notice(
+            `Embedding error: please check your embedding model context length, and consider switching to a model with a larger context length or lowering the embedding batch token limit: ${error.message}`
+          );
         }
+
+        // Rethrow the error to stop the indexing process
+        throw error;
       }
+    }
+
+    if (this.config.debug) {
+      console.log(
+        `indexFile - Embedded ${missingIndices.length} chunks in ${batches.length} requests, reused ${cacheHits} cached embeddings`
+      );
+    }
+    return vectors;
+  }
+
+  /**
+   * Index several files at once so their chunks can share embedding requests.
+   * Nothing is saved if an embedding request fails.
+   *
+   * @param onChunksEmbedded called with the number of chunks embedded after every request
+   * @return the documents that were saved, and the paths of files with chunks that were not
+   */
+  public static async indexFiles(
+    db: Orama<any>,
+    embeddingsAPI: Embeddings,
+    filesToSave: FileToIndex[],
+    onChunksEmbedded?: (count: number) => void
+  ): Promise<{ savedDocs: OramaDocument[]; incompletePaths: Set<string> }> {
+    if (!db) throw new Error("DB not initialized");
+    if (!this.config) throw new Error("VectorDBManager not initialized");
+
+    const embeddingModel = EmbeddingManager.getModelName(embeddingsAPI);
+    if (!embeddingModel) console.error("EmbeddingManager could not determine model name!");
+
+    const chunksPerFile = filesToSave.map((file) => this.chunkFile(file));
+    const texts = chunksPerFile.flatMap((chunks) => chunks.map((chunk) => chunk.content));
+
+    let vectors: (number[] | undefined)[];
+    try {
+      vectors = await this.embedTexts(embeddingsAPI, embeddingModel, texts, onChunksEmbedded);
     } catch (error) {
       console.error("indexFile - Unexpected error during embedding process:", error);
       // Rethrow the error to be handled by the caller
       throw error;
     }
 
-    const chunkWithVectors =
-      docVectors.length > 0
-        ? chunks.map((chunk, i) => ({
-            id: VectorDBManager.getDocHash(chunk.pageContent),
-            content: chunk.pageContent,
-            embedding: docVectors[i],
-          }))
-        : [];
+    const savedDocs: OramaDocument[] = [];
+    const incompletePaths = new Set<string>();
+    let offset = 0;
+    for (let fileIndex = 0; fileIndex < filesToSave.length; fileIndex++) {
+      const fileToSave = filesToSave[fileIndex];
+      const chunks = chunksPerFile[fileIndex];
+      const fileVectors = vectors.slice(offset, offset + chunks.length);
+      offset += chunks.length;
 
-    for (const chunkWithVector of chunkWithVectors) {
-      try {
-        // Prepare the document to be saved.
-        const docToSave: OramaDocument = {
-          id: chunkWithVector.id,
-          title: fileToSave.title,
-          content: chunkWithVector.content,
-          embedding: chunkWithVector.embedding,
-          path: fileToSave.path,
-          embeddingModel: fileToSave.embeddingModel,
-          created_at: Date.now(),
-          ctime: fileToSave.ctime,
-          mtime: fileToSave.mtime,
-          tags: Array.isArray(fileToSave.tags) ? fileToSave.tags : [],
-          extension: fileToSave.extension,
-          nchars: chunkWithVector.content.length,
-          metadata: fileToSave.metadata,
-        };
-
-        // Ensure tags are strings
-        docToSave.tags = docToSave.tags.map((tag: any) => String(tag));
-        // Save the document.
-        await this.upsert(db, docToSave);
-      } catch (err) {
-        console.error("Error storing vectors in VectorDB:", err);
+      for (let i = 0; i < chunks.length; i++) {
+        const embedding = fileVectors[i];
+        if (!embedding) {
+          incompletePaths.add(fileToSave.path);
+          continue;
+        }
+        const { content, headings, startLine, endLine, page, nodeId } = chunks[i];
+        try {
+          // Prepare the document to be saved.
+          const docToSave: OramaDocument = {
+            id: VectorDBManager.getChunkId(fileToSave.path, content),
+            title: fileToSave.title,
+            content: content,
+            embedding: embedding,
+            path: fileToSave.path,
+            embeddingModel: fileToSave.embeddingModel,
+            created_at: Date.now(),
+            ctime: fileToSave.ctime,
+            mtime: fileToSave.mtime,
+            tags: Array.isArray(fileToSave.tags) ? fileToSave.tags : [],
+            extension: fileToSave.extension,
+            nchars: content.length,
+            metadata: fileToSave.metadata,
+            headings,
+            startLine,
+            endLine,
+            page,
+            nodeId,
+            folders: getFolderFilterValues(fileToSave.path),
+            properties: getPropertyFilterValues(fileToSave.metadata),
+          };
+
+          // Ensure tags are strings
+          docToSave.tags = docToSave.tags.map((tag: any) => String(tag));
+          docToSave.filterTags = getTagFilterValues(docToSave.tags);
+          // Save the document.
+          await this.upsert(db, docToSave);
+          savedDocs.push(docToSave);
+        } catch (err) {
+          console.error("Error storing vectors in VectorDB:", err);
+          incompletePaths.add(fileToSave.path);
+        }
       }
     }
+    return { savedDocs, incompletePaths };
   }
 
   public static async upsert(db: Orama<any>, docToSave: any): Promise<any | undefined> {
@@ -154,14 +284,7 @@ class VectorDBManager {
     if (!this.config) throw new Error("VectorDBManager not initialized");
 
     try {
-      // Check if the document already exists
-      const existingDoc = await search(db, {
-        term: docToSave.id,
-        properties: ["id"],
-        limit: 1,
-      });
-
-      if (existingDoc.hits.length > 0) {
+      if (getByID(db, docToSave.id)) {
         // Document exists, update it
         await update(db, docToSave, {
           id: docToSave.id,
@@ -182,17 +305,18 @@ class VectorDBManager {
     }
   }
 
-  public static async getDocsByPath(db: Orama<any>, path: string): Promise<any | undefined> {
+  public static async getDocsByPath(db: Orama<any>, path: string): Promise<OramaHit[] | undefined> {
     if (!db) throw new Error("DB not initialized");
     if (!this.config) throw new Error("VectorDBManager not initialized");
 
-    const result = await search(db, {
+    const result = await search<typeof db, OramaDocument>(db, {
       term: path,
       properties: ["path"],
       limit: 100,
       includeVectors: true,
     });
-    return result.hits;
+    // Full-text search on the path also matches similar paths
+    return result.hits.filter((hit) => hit.document.path === path);
   }
 
   public static async getLatestFileMtime(db: Orama<any>): Promise<number> {
@@ -0,0 +1,124 @@
+import { formatChatData } from "@/chatUtils";
+import { AI_SENDER, USER_SENDER } from "@/constants";
+import {
+  buildChatHistoryEntry,
+  ChatHistoryEntry,
+  filterChatHistory,
+  matchesKeywords,
+  scoreBySimilarity,
+  sortChatHistory,
+} from "@/search/chatHistory";
+import SharedState from "@/sharedState";
+import { stringToFormattedDateTime } from "@/utils";
+
+const timestamp = stringToFormattedDateTime("2024/05/01 10:00:00");
+
+function savedChat(question: string, answer: string, modelKey?: string): string {
+  const state = new SharedState();
+  state.addMessage({ sender: USER_SENDER, message: question, isVisible: true, timestamp });
+  state.addMessage({ sender: USER_SENDER, message: "prompt", isVisible: false, timestamp });
+  state.addMessage({ sender: AI_SENDER, message: answer, isVisible: true, timestamp, modelKey });
+  return formatChatData(state.getSnapshot());
+}
+
+function entry(path: string, overrides: Partial<ChatHistoryEntry> = {}): ChatHistoryEntry {
+  return {
+    path,
+    title: path,
+    epoch: 0,
+    models: [],
+    tags: [],
+    firstQuestion: "",
+    firstAnswer: "",
+    text: "",
+    archived: false,
+    ...overrides,
+  };
+}
+
+describe("buildChatHistoryEntry", () => {
+  const file = {
+    path: "chats/Sourdough_starter@20240501_100000.md",
+    basename: "Sourdough_starter@20240501_100000",
+    ctime: 5,
+  };
+
+  it("should read the first exchange, models and tags of a saved chat", () => {
+    const content = savedChat("How do I feed a starter?", "Twice a day.", "gpt-4o|openai");
+    const result = buildChatHistoryEntry(
+      file,
+      content,
+      { epoch: 1714557600000, modelKey: "claude|anthropic", tags: ["#baking", "copilot"] },
+      false
+    );
+
+    expect(result).toMatchObject({
+      title: "Sourdough starter",
+      epoch: 1714557600000,
+      models: ["gpt-4o|openai"],
+      tags: ["baking", "copilot"],
+      firstQuestion: "How do I feed a starter?",
+      firstAnswer: "Twice a day.",
+      text: "How do I feed a starter?\n\nTwice a day.",
+    });
+  });
+
+  it("should fall back to the frontmatter model and the creation time", () => {
+    const result = buildChatHistoryEntry(
+      file,
+      savedChat("q", "a"),
+      { modelKey: "claude|anthropic", tags: "copilot" },
+      true
+    );
+
+    expect(result).toMatchObject({
+      epoch: 5,
+      models: ["claude|anthropic"],
+      tags: ["copilot"],
+      archived: true,
+    });
+  });
+});
+
+describe("chat history search", () => {
+  it("should match when every keyword appears in any case", () => {
+    const chat = entry("a", { title: "Bread", text: "Feeding a Sourdough starter" });
+    expect(matchesKeywords(chat, "sourdough bread")).toBe(true);
+    expect(matchesKeywords(chat, "sourdough pizza")).toBe(false);
+    expect(matchesKeywords(chat, "  ")).toBe(true);
+  });
+
+  it("should filter by tag, model and archive", () => {
+    const entries = [
+      entry("a", { tags: ["work"], models: ["gpt-4o|openai"] }),
+      entry("b", { tags: ["work"], models: ["claude|anthropic"] }),
+      entry("c", { tags: ["work"], models: ["gpt-4o|openai"], archived: true }),
+    ];
+    const paths = (filters: Parameters<typeof filterChatHistory>[1]) =>
+      filterChatHistory(entries, filters).map((e) => e.path);
+
+    expect(paths({ tag: "work", model: "gpt-4o|openai", showArchived: false })).toEqual(["a"]);
+    expect(paths({ tag: "", model: "gpt-4o|openai", showArchived: true })).toEqual(["a", "c"]);
+    expect(paths({ tag: "home", model: "", showArchived: true })).toEqual([]);
+  });
+
+  it("should list pinned chats first, then the most recent", () => {
+    const entries = [entry("old", { epoch: 1 }), entry("new", { epoch: 3 }), entry("pinned")];
+    expect(sortChatHistory(entries, ["pinned"]).map((e) => e.path)).toEqual([
+      "pinned",
+      "new",
+      "old",
+    ]);
+  });
+
+  it("should score only chats that were embedded", () => {
+    const scores = scoreBySimilarity(
+      [entry("a"), entry("b"), entry("c")],
+      [[1, 0], undefined, [0, 1]],
+      [1, 0]
+    );
+    expect(scores.get("a")).toBeCloseTo(1);
+    expect(scores.has("b")).toBe(false);
+    expect(scores.get("c")).toBeCloseTo(0);
+  });
+});
@@ -0,0 +1,160 @@
+import {
+  formatChatData,
+  formatChatTree,
+  getVisibleTree,
+  loadChatTree,
+  parseChatData,
+  parseChatTree,
+} from "@/chatUtils";
+import { ChainType } from "@/chainFactory";
+import { AI_SENDER, USER_SENDER } from "@/constants";
+import SharedState, { ChatMessage } from "@/sharedState";
+import { stringToFormattedDateTime } from "@/utils";
+
+function message(sender: string, text: string, isVisible = true): ChatMessage {
+  return {
+    sender,
+    message: text,
+    isVisible,
+    timestamp: stringToFormattedDateTime("2024/05/01 10:00:00"),
+  };
+}
+
+// A question with its hidden prompt and answer, like Chat adds them
+function ask(state: SharedState, question: string, answer: string) {
+  state.addMessage(message(USER_SENDER, question));
+  state.addMessage(message(USER_SENDER, `prompt: ${question}`, false));
+  state.addMessage(message(AI_SENDER, answer));
+}
+
+function texts(messages: ChatMessage[]): string[] {
+  return messages.filter((m) => m.isVisible).map((m) => m.message);
+}
+
+describe("SharedState", () => {
+  it("should keep a regenerated answer next to the previous one", () => {
+    const state = new SharedState();
+    ask(state, "q1", "a1");
+    ask(state, "q2", "a2");
+    const previousAnswer = state.getActivePath()[5];
+
+    state.branchBefore(previousAnswer.id);
+    state.addMessage(message(AI_SENDER, "a2 again"));
+
+    expect(texts(state.chatHistory)).toEqual(["q1", "a1", "q2", "a2 again"]);
+    expect(state.getBranchInfo(state.getActivePath()[5].id)).toEqual({ index: 1, count: 2 });
+
+    state.switchBranch(state.getActivePath()[5].id, -1);
+    expect(texts(state.chatHistory)).toEqual(["q1", "a1", "q2", "a2"]);
+  });
+
+  it("should follow the branch below an edited message", () => {
+    const state = new SharedState();
+    ask(state, "q1", "a1");
+    ask(state, "q2", "a2");
+
+    state.branchBefore(state.getActivePath()[0].id);
+    ask(state, "q1 edited", "b1");
+    expect(texts(state.chatHistory)).toEqual(["q1 edited", "b1"]);
+
+    state.switchBranch(state.getActivePath()[0].id, -1);
+    expect(texts(state.chatHistory)).toEqual(["q1", "a1", "q2", "a2"]);
+  });
+
+  it("should keep the replies of a deleted message", () => {
+    const state = new SharedState();
+    ask(state, "q1", "a1");
+    ask(state, "q2", "a2");
+
+    state.deleteMessage(state.getActivePath()[2].id);
+    expect(texts(state.chatHistory)).toEqual(["q1", "q2", "a2"]);
+  });
+});
+
+describe("formatChatTree and parseChatTree", () => {
+  it("should save every branch and load the active one again", () => {
+    const state = new SharedState();
+    ask(state, "q1", "a1");
+    ask(state, "q2", "a2");
+    state.branchBefore(state.getActivePath()[5].id);
+    state.addMessage(message(AI_SENDER, "a2 again"));
+    state.branchBefore(state.getActivePath()[0].id);
+    ask(state, "q1 edited", "b1");
+
+    const content = formatChatTree(
+      getVisibleTree(state.getAllNodes()),
+      state.getActivePath().map((node) => node.id)
+    );
+    expect(content).toContain("#### Alternative to message 1");
+    expect(content).toContain("#### Alternative to message 6");
+
+    const loaded = new SharedState();
+    expect(texts(loadChatTree(loaded, content))).toEqual(["q1 edited", "b1"]);
+    expect(loaded.getAllNodes()).toHaveLength(7);
+
+    loaded.switchBranch(loaded.getActivePath()[0].id, 1);
+    expect(texts(loaded.chatHistory)).toEqual(["q1", "a1", "q2", "a2 again"]);
+    expect(loaded.getBranchInfo(loaded.getActivePath()[3].id)?.count).toBe(2);
+  });
+
+  it("should read a chat saved without branches", () => {
+    const content = [
+      "**user**: hello",
+      "[Timestamp: 2024/05/01 10:00:00]",
+      "",
+      "**ai**: hi",
+      "there",
+      "[Timestamp: 2024/05/01 10:00:05]",
+    ].join("\n");
+
+    const parsed = parseChatTree(content);
+    expect(parsed.map((entry) => entry.parentNumber)).toEqual([null, 1]);
+    expect(parsed[1].message.message).toBe("hi\nthere");
+  });
+});
+
+describe("chat data block", () => {
+  function savedNote(state: SharedState): string {
+    const markdown = formatChatTree(
+      getVisibleTree(state.getAllNodes()),
+      state.getActivePath().map((node) => node.id)
+    );
+    return `---\nepoch: 0\n---\n\n${markdown}\n\n${formatChatData(state.getSnapshot())}`;
+  }
+
+  it("should load the exact tree with hidden prompts and message details", () => {
+    const state = new SharedState();
+    ask(state, "q1", "a1");
+    state.addMessage(message(USER_SENDER, "**ai**: not a reply\n```copilot-chat-data\n{}\n```"));
+    state.addMessage(message(USER_SENDER, "prompt with {activeNote} resolved", false));
+    state.addMessage({
+      ...message(AI_SENDER, "a2 [1]"),
+      modelKey: "gpt-4o|openai",
+      chainType: ChainType.VAULT_QA_CHAIN,
+      sources: [{ index: 1, title: "Note", path: "Note.md", content: "text", headings: ["H"] }],
+    });
+    state.branchBefore(state.getActivePath()[5].id);
+    state.addMessage(message(AI_SENDER, "a2 again"));
+    state.switchBranch(state.getActivePath()[5].id, -1);
+
+    const loaded = new SharedState();
+    loadChatTree(loaded, savedNote(state));
+
+    expect(loaded.getSnapshot()).toEqual(state.getSnapshot());
+    expect(loaded.chatHistory).toEqual(state.chatHistory);
+    expect(loaded.addMessage(message(USER_SENDER, "next"))).toBe("7");
+  });
+
+  it("should fall back to the markdown when the data block can't be read", () => {
+    const state = new SharedState();
+    ask(state, "q1", "a1");
+    const note = savedNote(state).replace(/\{"version".*\}/, "{broken");
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const { snapshot } = parseChatData(note);
+    const loaded = new SharedState();
+
+    expect(snapshot).toBeNull();
+    expect(texts(loadChatTree(loaded, note))).toEqual(["q1", "a1"]);
+  });
+});
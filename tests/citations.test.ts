@@ -0,0 +1,102 @@
+import {
+  formatCitationsAsMarkdown,
+  getCitationLinkText,
+  locateChunkInNote,
+  SourceCitation,
+  stripChunkHeader,
+} from "@/search/citations";
+
+const note = [
+  "# Project",
+  "Intro text.",
+  "## Decisions",
+  "```",
+  "# not a heading",
+  "```",
+  "### Budget",
+  "We agreed on 10k. ^budget-block",
+  "## Next steps",
+  "Ship it.",
+].join("\n");
+
+describe("stripChunkHeader", () => {
+  it("should remove the note title chunk header", () => {
+    expect(stripChunkHeader("[[Project]]\n\n---\n\nWe agreed on 10k.")).toEqual(
+      "We agreed on 10k."
+    );
+  });
+
+  it("should remove a chunk header with a heading path", () => {
+    expect(stripChunkHeader("[[Project]] > Decisions\n\n---\n\nWe agreed on 10k.")).toEqual(
+      "We agreed on 10k."
+    );
+  });
+});
+
+describe("locateChunkInNote", () => {
+  it("should return the line and heading path of a chunk", () => {
+    expect(locateChunkInNote(note, "We agreed on 10k. ^budget-block")).toEqual({
+      line: 7,
+      headings: ["Project", "Decisions", "Budget"],
+    });
+  });
+
+  it("should pop headings of the same or deeper level", () => {
+    expect(locateChunkInNote(note, "Ship it.")).toEqual({
+      line: 9,
+      headings: ["Project", "Next steps"],
+    });
+  });
+
+  it("should count a heading on the chunk's first line", () => {
+    expect(locateChunkInNote(note, "## Next steps\nShip it.").headings).toEqual([
+      "Project",
+      "Next steps",
+    ]);
+  });
+
+  it("should fall back to the first line when the chunk changed", () => {
+    expect(locateChunkInNote(note, "Intro text.\nSomething edited since")).toEqual({
+      line: 1,
+      headings: ["Project"],
+    });
+  });
+
+  it("should return no location when the chunk is not in the note", () => {
+    expect(locateChunkInNote(note, "Unrelated")).toEqual({ headings: [] });
+  });
+});
+
+describe("citation links", () => {
+  const citation: SourceCitation = {
+    index: 2,
+    title: "Project",
+    path: "work/Project.md",
+    content: "Ship it.",
+    headings: ["Project", "Next steps"],
+    line: 9,
+  };
+
+  it("should link to the deepest heading", () => {
+    expect(getCitationLinkText(citation)).toEqual("work/Project.md#Next steps");
+  });
+
+  it("should prefer a block id over headings", () => {
+    expect(getCitationLinkText({ ...citation, blockId: "budget-block" })).toEqual(
+      "work/Project.md#^budget-block"
+    );
+  });
+
+  it("should link to the page of a PDF source", () => {
+    expect(
+      getCitationLinkText({ ...citation, path: "papers/Report.pdf", headings: ["Page 3"], page: 3 })
+    ).toEqual("papers/Report.pdf#page=3");
+  });
+
+  it("should format numbered wiki links for saved notes", () => {
+    expect(formatCitationsAsMarkdown([citation])).toEqual(
+      "\n\n#### Sources:\n2. [[work/Project#Next steps|Project > Next steps]]"
+    );
+    expect(formatCitationsAsMarkdown([])).toEqual("");
+  });
+});
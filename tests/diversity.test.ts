@@ -0,0 +1,52 @@
+import { selectDiverse } from "@/search/diversity";
+
+// Three near-identical chunks of a long note ranked above a chunk of another note
+const candidates = [
+  { item: "long-1", path: "long.md", vector: [1, 0] },
+  { item: "long-2", path: "long.md", vector: [0.99, 0.01] },
+  { item: "long-3", path: "long.md", vector: [0.98, 0.02] },
+  { item: "other-1", path: "other.md", vector: [0, 1] },
+];
+
+describe("selectDiverse", () => {
+  it("should keep the ranking when diversification is off", () => {
+    expect(selectDiverse(candidates, 3, { mmrLambda: 1, maxChunksPerNote: 0 })).toEqual([
+      "long-1",
+      "long-2",
+      "long-3",
+    ]);
+  });
+
+  it("should prefer novel chunks over near duplicates", () => {
+    expect(selectDiverse(candidates, 2, { mmrLambda: 0.5, maxChunksPerNote: 0 })).toEqual([
+      "long-1",
+      "other-1",
+    ]);
+  });
+
+  it("should cap the chunks per note", () => {
+    expect(selectDiverse(candidates, 3, { mmrLambda: 1, maxChunksPerNote: 2 })).toEqual([
+      "long-1",
+      "long-2",
+      "other-1",
+    ]);
+    expect(selectDiverse(candidates, 4, { mmrLambda: 1, maxChunksPerNote: 1 })).toEqual([
+      "long-1",
+      "other-1",
+    ]);
+  });
+
+  it("should treat candidates without vectors as novel", () => {
+    expect(
+      selectDiverse(
+        [
+          { item: "a", path: "a.md", vector: [1, 0] },
+          { item: "b", path: "b.md", vector: [1, 0] },
+          { item: "c", path: "c.md" },
+        ],
+        2,
+        { mmrLambda: 0.5, maxChunksPerNote: 0 }
+      )
+    ).toEqual(["a", "c"]);
+  });
+});
@@ -0,0 +1,22 @@
+import DocumentPathIndex from "@/search/documentPathIndex";
+
+describe("DocumentPathIndex", () => {
+  it("should keep the chunk ids of similar paths apart", () => {
+    const index = new DocumentPathIndex();
+    index.add("notes/a.md", "1");
+    index.add("notes/a.md", "2");
+    index.add("notes/a.md", "2");
+    index.add("notes/ab.md", "3");
+
+    expect(index.getIds("notes/a.md")).toEqual(["1", "2"]);
+    expect(index.removePath("notes/a.md")).toEqual(["1", "2"]);
+    expect(index.getIds("notes/a.md")).toEqual([]);
+    expect(index.getPaths()).toEqual(["notes/ab.md"]);
+  });
+
+  it("should return no ids for unknown paths", () => {
+    const index = new DocumentPathIndex();
+    expect(index.removePath("missing.md")).toEqual([]);
+    expect(index.size).toEqual(0);
+  });
+});
@@ -0,0 +1,26 @@
+import { createEmbeddingBatches } from "@/search/embeddingBatches";
+
+describe("createEmbeddingBatches", () => {
+  it("should cap the number of texts per batch", () => {
+    expect(createEmbeddingBatches(["a", "b", "c", "d", "e"], 2, 1000)).toEqual([
+      [0, 1],
+      [2, 3],
+      [4],
+    ]);
+  });
+
+  it("should cap the estimated tokens per batch", () => {
+    // 40 chars is about 10 tokens
+    const text = "x".repeat(40);
+    expect(createEmbeddingBatches([text, text, text], 10, 25)).toEqual([[0, 1], [2]]);
+  });
+
+  it("should give a text over the token budget a batch of its own", () => {
+    const longText = "x".repeat(400);
+    expect(createEmbeddingBatches(["a", longText, "b"], 10, 50)).toEqual([[0], [1], [2]]);
+  });
+
+  it("should return no batches for no texts", () => {
+    expect(createEmbeddingBatches([], 10, 50)).toEqual([]);
+  });
+});
@@ -0,0 +1,131 @@
+import EmbeddingCache from "@/embeddingCache";
+import { App } from "obsidian";
+
+type FakeFiles = Record<string, string | ArrayBuffer>;
+
+function createFakeApp(files: FakeFiles = {}) {
+  return {
+    vault: {
+      adapter: {
+        exists: jest.fn(
+          async (path: string) =>
+            path in files || Object.keys(files).some((file) => file.startsWith(`${path}/`))
+        ),
+        list: jest.fn(async (path: string) => ({
+          files: Object.keys(files).filter((file) => file.startsWith(`${path}/`)),
+          folders: [],
+        })),
+        read: jest.fn(async (path: string) => files[path] as string),
+        readBinary: jest.fn(async (path: string) => files[path] as ArrayBuffer),
+        write: jest.fn(async (path: string, data: string) => {
+          files[path] = data;
+        }),
+        writeBinary: jest.fn(async (path: string, data: ArrayBuffer) => {
+          files[path] = data;
+        }),
+        mkdir: jest.fn(async () => {}),
+        remove: jest.fn(async (path: string) => {
+          delete files[path];
+        }),
+        rmdir: jest.fn(async (path: string) => {
+          Object.keys(files)
+            .filter((file) => file.startsWith(`${path}/`))
+            .forEach((file) => delete files[file]);
+        }),
+      },
+    },
+  } as unknown as App;
+}
+
+describe("EmbeddingCache", () => {
+  it("should key embeddings by chunk hash and model", () => {
+    const cache = new EmbeddingCache(createFakeApp(), "cache");
+    cache.set("hash", "model-a", [1, 2]);
+    expect(cache.get("hash", "model-a")).toEqual([1, 2]);
+    expect(cache.get("hash", "model-b")).toBeUndefined();
+  });
+
+  it("should evict the least recently used entry", () => {
+    const cache = new EmbeddingCache(createFakeApp(), "cache", 2);
+    cache.set("a", "model", [1]);
+    cache.set("b", "model", [2]);
+    cache.get("a", "model");
+    cache.set("c", "model", [3]);
+    expect(cache.size()).toEqual(2);
+    expect(cache.get("a", "model")).toEqual([1]);
+    expect(cache.get("b", "model")).toBeUndefined();
+  });
+
+  it("should round trip through save and load", async () => {
+    const files: FakeFiles = {};
+    const cache = new EmbeddingCache(createFakeApp(files), "cache");
+    cache.set("aa01", "model", [0.5, 0.25]);
+    cache.set("bb02", "other|model", [1, 2, 3]);
+    await cache.save();
+    expect(Object.keys(files).sort()).toEqual([
+      "cache/aa.json",
+      "cache/aa.vectors",
+      "cache/bb.json",
+      "cache/bb.vectors",
+    ]);
+
+    const reloaded = new EmbeddingCache(createFakeApp(files), "cache");
+    await reloaded.load();
+    expect(reloaded.get("aa01", "model")).toEqual([0.5, 0.25]);
+    expect(reloaded.get("bb02", "other|model")).toEqual([1, 2, 3]);
+  });
+
+  it("should only rewrite shards that changed", async () => {
+    const app = createFakeApp();
+    const cache = new EmbeddingCache(app, "cache");
+    await cache.save();
+    expect(app.vault.adapter.write).not.toHaveBeenCalled();
+
+    cache.set("aa01", "model", [1]);
+    cache.set("bb01", "model", [2]);
+    await cache.save();
+    cache.set("aa02", "model", [3]);
+    await cache.save();
+    expect((app.vault.adapter.write as jest.Mock).mock.calls.map(([path]) => path)).toEqual([
+      "cache/aa.json",
+      "cache/bb.json",
+      "cache/aa.json",
+    ]);
+  });
+
+  it("should keep the least recently used order across loads", async () => {
+    const files: FakeFiles = {};
+    let time = 0;
+    const cache = new EmbeddingCache(createFakeApp(files), "cache", 2, () => ++time);
+    cache.set("aa01", "model", [1]);
+    cache.set("bb01", "model", [2]);
+    await cache.save();
+
+    const reloaded = new EmbeddingCache(createFakeApp(files), "cache", 2, () => ++time);
+    await reloaded.load();
+    reloaded.set("cc01", "model", [3]);
+    expect(reloaded.get("aa01", "model")).toBeUndefined();
+    expect(reloaded.get("bb01", "model")).toEqual([2]);
+
+    // The shard of the evicted entry is removed once empty
+    await reloaded.save();
+    expect(files["cache/aa.json"]).toBeUndefined();
+  });
+
+  it("should save entries read since the last save as recently used", async () => {
+    const files: FakeFiles = {};
+    let time = 0;
+    const cache = new EmbeddingCache(createFakeApp(files), "cache", 2, () => ++time);
+    cache.set("aa01", "model", [1]);
+    cache.set("bb01", "model", [2]);
+    await cache.save();
+    cache.get("aa01", "model");
+    await cache.save();
+
+    const reloaded = new EmbeddingCache(createFakeApp(files), "cache", 2, () => ++time);
+    await reloaded.load();
+    reloaded.set("cc01", "model", [3]);
+    expect(reloaded.get("aa01", "model")).toEqual([1]);
+    expect(reloaded.get("bb01", "model")).toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  cosineSimilarity,
+  createLinkGraph,
+  decayScore,
+  getLinkedNotes,
+  mergeLinkedHits,
+  ResolvedLinks,
+} from "@/search/graphExpansion";
+
+// moc.md links to a.md and b.md, c.md links to a.md, b.md links to d.md
+const resolvedLinks: ResolvedLinks = {
+  "moc.md": { "a.md": 1, "b.md": 2 },
+  "c.md": { "a.md": 1 },
+  "b.md": { "d.md": 1 },
+};
+const links = createLinkGraph(resolvedLinks);
+
+describe("getLinkedNotes", () => {
+  it("should follow outgoing links and backlinks", () => {
+    expect(getLinkedNotes(links, ["a.md"], 1, 10)).toEqual(
+      new Map([
+        ["moc.md", 1],
+        ["c.md", 1],
+      ])
+    );
+  });
+
+  it("should record the hops to the nearest seed", () => {
+    expect(getLinkedNotes(links, ["a.md", "d.md"], 2, 10)).toEqual(
+      new Map([
+        ["moc.md", 1],
+        ["c.md", 1],
+        ["b.md", 1],
+      ])
+    );
+    expect(getLinkedNotes(links, ["a.md"], 2, 10).get("b.md")).toBe(2);
+  });
+
+  it("should stop at the maximum number of notes", () => {
+    expect(Array.from(getLinkedNotes(links, ["moc.md"], 2, 2).keys())).toEqual(["a.md", "b.md"]);
+  });
+
+  it("should keep the notes linked with more seeds, then with better ones, under the cap", () => {
+    // x.md only links to the second seed, moc.md is linked with both
+    const graph = createLinkGraph({ ...resolvedLinks, "x.md": { "b.md": 1 } });
+    expect(Array.from(getLinkedNotes(graph, ["b.md", "a.md"], 1, 2).keys())).toEqual([
+      "moc.md",
+      "d.md",
+    ]);
+  });
+
+  it("should use the backlinks it is given", () => {
+    const graph = createLinkGraph(resolvedLinks, (path) => (path === "d.md" ? ["e.md"] : []));
+    expect(getLinkedNotes(graph, ["d.md"], 1, 10)).toEqual(new Map([["e.md", 1]]));
+  });
+});
+
+describe("scoring", () => {
+  it("should compute the cosine similarity", () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 2])).toBeCloseTo(0);
+    expect(cosineSimilarity([1, 0], [])).toBe(0);
+  });
+
+  it("should decay the similarity per hop", () => {
+    expect(decayScore(0.8, 1, 0.5)).toBeCloseTo(0.4);
+    expect(decayScore(0.8, 2, 0.5)).toBeCloseTo(0.2);
+  });
+});
+
+describe("mergeLinkedHits", () => {
+  it("should insert linked hits before the first ranked hit they beat", () => {
+    expect(
+      mergeLinkedHits(
+        [
+          { hit: "r1", similarity: 0.9 },
+          // Ranked by keyword search, so the order is kept despite the low similarity
+          { hit: "r2", similarity: 0.3 },
+          { hit: "r3", similarity: 0.5 },
+        ],
+        [
+          { hit: "l1", score: 0.2 },
+          { hit: "l2", score: 0.6 },
+        ]
+      )
+    ).toEqual(["r1", "l2", "r2", "r3", "l1"]);
+  });
+});
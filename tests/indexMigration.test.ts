@@ -0,0 +1,47 @@
+import { CustomModel } from "@/aiParams";
+import { findEmbeddingModelKey, isIndexBuiltWith } from "@/search/indexMigration";
+
+describe("isIndexBuiltWith", () => {
+  const current = {
+    embeddingModelKey: "text-embedding-3-small|openai",
+    embeddingModel: "text-embedding-3-small",
+    vectorLength: 1536,
+  };
+
+  it("should accept an index built with the same model", () => {
+    expect(isIndexBuiltWith({ ...current, embeddingModelKey: undefined }, current)).toBe(true);
+  });
+
+  it("should reject an index built with another model or vector length", () => {
+    expect(
+      isIndexBuiltWith({ embeddingModel: "embed-english-v3.0", vectorLength: 1536 }, current)
+    ).toBe(false);
+    expect(isIndexBuiltWith({ ...current, vectorLength: 512 }, current)).toBe(false);
+  });
+
+  it("should accept an empty index with the right vector length", () => {
+    expect(isIndexBuiltWith({ vectorLength: 1536 }, current)).toBe(true);
+  });
+});
+
+describe("findEmbeddingModelKey", () => {
+  const models: CustomModel[] = [
+    { name: "text-embedding-3-small", provider: "openai", enabled: true },
+    { name: "nomic-embed-text", provider: "ollama", enabled: true },
+    { name: "embed-english-v3.0", provider: "cohereai", enabled: false },
+  ];
+
+  it("should find the key of an enabled model by name", () => {
+    expect(findEmbeddingModelKey(models, "text-embedding-3-small")).toBe(
+      "text-embedding-3-small|openai"
+    );
+    expect(findEmbeddingModelKey(models, "nomic-embed-text:latest")).toBe(
+      "nomic-embed-text|ollama"
+    );
+  });
+
+  it("should skip disabled and unknown models", () => {
+    expect(findEmbeddingModelKey(models, "embed-english-v3.0")).toBeUndefined();
+    expect(findEmbeddingModelKey(models, undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,76 @@
+import { globToRegExp, IndexRuleFile, IndexRules, parseIndexRules } from "@/search/indexRules";
+
+function file(path: string, tags: string[] = [], frontmatter?: Record<string, unknown>) {
+  const basename =
+    path
+      .split("/")
+      .pop()
+      ?.replace(/\.[^.]+$/, "") ?? path;
+  return { path, basename, tags, frontmatter } as IndexRuleFile;
+}
+
+function isIndexed(path: string, exclusions: string, inclusions = "") {
+  return IndexRules.fromText(inclusions, exclusions).isIndexed(file(path));
+}
+
+describe("globToRegExp", () => {
+  it("should keep * within a folder and let ** cross folders", () => {
+    expect(globToRegExp("docs/*.md").test("docs/a.md")).toBe(true);
+    expect(globToRegExp("docs/*.md").test("docs/sub/a.md")).toBe(false);
+    expect(globToRegExp("docs/**/*.md").test("docs/sub/deep/a.md")).toBe(true);
+    expect(globToRegExp("docs/**/*.md").test("docs/a.md")).toBe(true);
+  });
+
+  it("should match patterns without a slash against any name", () => {
+    expect(globToRegExp("*.pdf").test("papers/2024/Report.PDF")).toBe(true);
+    expect(globToRegExp("draft?.md").test("notes/draft1.md")).toBe(true);
+  });
+});
+
+describe("IndexRules", () => {
+  it("should exclude everything in a matching folder", () => {
+    expect(isIndexed("Archive/2020/old.md", "Archive/")).toBe(false);
+    expect(isIndexed("Projects/Archive/old.md", "Archive/")).toBe(false);
+    expect(isIndexed("Projects/Archive/old.md", "/Archive/")).toBe(true);
+    expect(isIndexed("Archive.md", "Archive/")).toBe(true);
+  });
+
+  it("should read the old comma separated exclusions", () => {
+    const exclusions = "folder1/folder2, *.excalidraw.md, [[Secret note]]";
+    expect(isIndexed("folder1/folder2/a.md", exclusions)).toBe(false);
+    expect(isIndexed("folder1/a.md", exclusions)).toBe(true);
+    expect(isIndexed("drawings/plan.excalidraw.md", exclusions)).toBe(false);
+    expect(isIndexed("x/Secret note.md", exclusions)).toBe(false);
+    // A plain extension is not a substring match anymore
+    expect(isIndexed("notes/pdf-tips.md", "*.pdf")).toBe(true);
+  });
+
+  it("should let a later negated rule re-include files", () => {
+    const exclusions = "Journal/\n!Journal/Highlights.md";
+    expect(isIndexed("Journal/2024-01-01.md", exclusions)).toBe(false);
+    expect(isIndexed("Journal/Highlights.md", exclusions)).toBe(true);
+  });
+
+  it("should match tags with their nested tags and frontmatter properties", () => {
+    const rules = IndexRules.fromText("", "#private\ncopilot: false");
+    expect(rules.isIndexed(file("a.md", ["private/health"]))).toBe(false);
+    expect(rules.isIndexed(file("b.md", ["privateer"]))).toBe(true);
+    expect(rules.isIndexed(file("c.md", [], { copilot: false }))).toBe(false);
+    expect(rules.isIndexed(file("d.md", [], { copilot: true }))).toBe(true);
+  });
+
+  it("should only index included files in include-only mode", () => {
+    expect(isIndexed("Projects/a.md", "", "Projects/")).toBe(true);
+    expect(isIndexed("Daily/a.md", "", "Projects/")).toBe(false);
+    expect(isIndexed("Projects/private.md", "private.md", "Projects/")).toBe(false);
+  });
+
+  it("should skip comments and blank lines, and list the matching exclusions", () => {
+    const rules = IndexRules.fromText("", "# comment\n\n*.pdf\n!keep.pdf\npapers/");
+    expect(parseIndexRules("# comment\n\n*.pdf")).toHaveLength(1);
+    expect(rules.getMatchingExclusions(file("papers/a.pdf")).map((rule) => rule.source)).toEqual([
+      "*.pdf",
+      "papers/",
+    ]);
+  });
+});
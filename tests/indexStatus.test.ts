@@ -0,0 +1,30 @@
+import { getIndexStatus, IndexStatus } from "@/search/indexStatus";
+
+describe("getIndexStatus", () => {
+  it("should mark files changed after indexing as outdated", () => {
+    expect(
+      getIndexStatus({ fileMtime: 200, indexedMtime: 100, chunkCount: 3, excluded: false })
+    ).toBe(IndexStatus.OUTDATED);
+    expect(
+      getIndexStatus({ fileMtime: 100, indexedMtime: 100, chunkCount: 3, excluded: false })
+    ).toBe(IndexStatus.UP_TO_DATE);
+  });
+
+  it("should tell unindexed files from indexes without recorded mtimes", () => {
+    expect(getIndexStatus({ fileMtime: 100, chunkCount: 0, excluded: false })).toBe(
+      IndexStatus.NOT_INDEXED
+    );
+    expect(getIndexStatus({ fileMtime: 100, chunkCount: 2, excluded: false })).toBe(
+      IndexStatus.OUTDATED
+    );
+  });
+
+  it("should report missing files before excluded ones", () => {
+    expect(getIndexStatus({ indexedMtime: 100, chunkCount: 2, excluded: true })).toBe(
+      IndexStatus.MISSING
+    );
+    expect(
+      getIndexStatus({ fileMtime: 100, indexedMtime: 100, chunkCount: 2, excluded: true })
+    ).toBe(IndexStatus.EXCLUDED);
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  chunkMarkdown,
+  chunkPlainText,
+  formatChunkHeader,
+  summarizeFrontmatter,
+} from "@/search/markdownChunker";
+
+const options = { chunkSize: 1000, chunkOverlap: 0 };
+
+describe("formatChunkHeader", () => {
+  it("should join the title and heading path", () => {
+    expect(formatChunkHeader("Note", ["Section", "Subsection"])).toEqual(
+      "[[Note]] > Section > Subsection\n\n---\n\n"
+    );
+  });
+
+  it("should drop an H1 that repeats the title", () => {
+    expect(formatChunkHeader("Note", ["Note", "Section"])).toEqual("[[Note]] > Section\n\n---\n\n");
+  });
+});
+
+describe("summarizeFrontmatter", () => {
+  it("should list scalar properties and skip nested ones", () => {
+    expect(
+      summarizeFrontmatter({ status: "active", tags: ["a", "b"], nested: { key: 1 } })
+    ).toEqual("Properties: status: active; tags: a, b");
+    expect(summarizeFrontmatter(undefined)).toEqual("");
+  });
+});
+
+describe("chunkMarkdown", () => {
+  it("should split at headings and record heading paths and line ranges", () => {
+    const note = ["Intro", "", "# Section", "Text", "", "## Subsection", "More text"].join("\n");
+    expect(chunkMarkdown("Note", note, options)).toEqual([
+      { content: "[[Note]]\n\n---\n\nIntro", headings: [], startLine: 0, endLine: 0 },
+      {
+        content: "[[Note]] > Section\n\n---\n\n# Section\nText",
+        headings: ["Section"],
+        startLine: 2,
+        endLine: 3,
+      },
+      {
+        content: "[[Note]] > Section > Subsection\n\n---\n\n## Subsection\nMore text",
+        headings: ["Section", "Subsection"],
+        startLine: 5,
+        endLine: 6,
+      },
+    ]);
+  });
+
+  it("should skip headings without content of their own", () => {
+    const note = ["# Section", "## Subsection", "Text"].join("\n");
+    const chunks = chunkMarkdown("Note", note, options);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].headings).toEqual(["Section", "Subsection"]);
+  });
+
+  it("should replace frontmatter with a summary of its properties", () => {
+    const note = ["---", "status: active", "---", "Body"].join("\n");
+    const chunks = chunkMarkdown("Note", note, options, { status: "active" });
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].content).toEqual("[[Note]]\n\n---\n\nProperties: status: active\nBody");
+    expect(chunks[0].startLine).toEqual(0);
+  });
+
+  it("should strip frontmatter when there is nothing to summarize", () => {
+    const note = ["---", "aliases: []", "---", "Body"].join("\n");
+    expect(chunkMarkdown("Note", note, options)[0].content).toEqual("[[Note]]\n\n---\n\nBody");
+  });
+
+  it("should never split code blocks or tables", () => {
+    const code = ["```js", "# not a heading", "", "const a = 1;", "```"].join("\n");
+    const table = ["| a | b |", "| - | - |", "| 1 | 2 |"].join("\n");
+    const note = ["Text", "", code, "", table].join("\n");
+    const chunks = chunkMarkdown("Note", note, { chunkSize: 10, chunkOverlap: 0 });
+
+    expect(chunks.map((chunk) => chunk.content.split("---\n\n")[1])).toEqual(["Text", code, table]);
+    expect(chunks.every((chunk) => chunk.headings.length === 0)).toBe(true);
+  });
+
+  it("should split long paragraphs by line and repeat overlap blocks", () => {
+    const note = ["aaaa", "", "bbbb", "", "cccc"].join("\n");
+    const chunks = chunkMarkdown("Note", note, { chunkSize: 10, chunkOverlap: 4 });
+    expect(chunks.map((chunk) => [chunk.startLine, chunk.endLine])).toEqual([
+      [0, 2],
+      [2, 4],
+    ]);
+    expect(chunks[1].content).toEqual("[[Note]]\n\n---\n\nbbbb\n\ncccc");
+  });
+
+  it("should return no chunks for an empty note", () => {
+    expect(chunkMarkdown("Note", "", options)).toEqual([]);
+  });
+});
+
+describe("chunkPlainText", () => {
+  it("should split by paragraphs and not treat # lines as headings", () => {
+    const code = ["# comment", "a = 1", "", "", "b = 2"].join("\n");
+    const chunks = chunkPlainText("script", code, { chunkSize: 20, chunkOverlap: 0 }, ["Page 2"]);
+    expect(chunks.map((chunk) => chunk.content)).toEqual([
+      "[[script]] > Page 2\n\n---\n\n# comment\na = 1",
+      "[[script]] > Page 2\n\n---\n\nb = 2",
+    ]);
+    expect(chunks.map((chunk) => [chunk.startLine, chunk.endLine])).toEqual([
+      [0, 1],
+      [4, 4],
+    ]);
+  });
+
+  it("should return no chunks for blank text", () => {
+    expect(chunkPlainText("file", "\n  \n", options)).toEqual([]);
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  buildOramaWhere,
+  FILTER_SCHEMA,
+  getFolderFilterValues,
+  getPropertyFilterValues,
+  getTagFilterValues,
+  parseFilterDate,
+  parseQueryFilters,
+} from "@/search/queryFilters";
+
+const now = Date.UTC(2024, 5, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("parseQueryFilters", () => {
+  it("should take all filters out of the question", () => {
+    expect(
+      parseQueryFilters(
+        "what did we decide #Project/alpha folder:Meetings after:2024-01-01 status:: active",
+        now
+      )
+    ).toEqual({
+      query: "what did we decide",
+      filters: {
+        tags: ["project/alpha"],
+        folders: ["meetings"],
+        after: new Date(2024, 0, 1).getTime(),
+        properties: ["status:active"],
+      },
+    });
+  });
+
+  it("should support quoted values and relative dates", () => {
+    const { query, filters } = parseQueryFilters(
+      'notes folder:"Team Meetings/2024" before:30d',
+      now
+    );
+    expect(query).toEqual("notes");
+    expect(filters.folders).toEqual(["team meetings/2024"]);
+    expect(filters.before).toEqual(now - 30 * DAY_MS);
+  });
+
+  it("should leave text that only looks like a filter alone", () => {
+    expect(parseQueryFilters("C# tips after:lunch page#section", now)).toEqual({
+      query: "C# tips after:lunch page#section",
+      filters: { tags: [], folders: [], properties: [] },
+    });
+  });
+
+  it("should not read issue numbers as tags", () => {
+    expect(parseQueryFilters("status of ticket #123 and #2024-review", now)).toEqual({
+      query: "status of ticket #123 and",
+      filters: { tags: ["2024-review"], folders: [], properties: [] },
+    });
+  });
+
+  it("should keep a question made of filters only", () => {
+    expect(parseQueryFilters("#meeting", now).query).toEqual("#meeting");
+  });
+
+  it("should include the named day in before and after", () => {
+    const { filters } = parseQueryFilters("notes after:2024-03-01 before:2024-03-01", now);
+    expect(filters.after).toEqual(new Date(2024, 2, 1).getTime());
+    expect(filters.before).toEqual(new Date(2024, 2, 2).getTime());
+  });
+});
+
+describe("parseFilterDate", () => {
+  it("should parse ISO dates in local time and relative dates", () => {
+    expect(parseFilterDate("2024-03", now)).toEqual({
+      start: new Date(2024, 2, 1).getTime(),
+      end: new Date(2024, 3, 1).getTime(),
+    });
+    expect(parseFilterDate("2024-12-31", now)).toEqual({
+      start: new Date(2024, 11, 31).getTime(),
+      end: new Date(2025, 0, 1).getTime(),
+    });
+    expect(parseFilterDate("2w", now)).toEqual({
+      start: now - 14 * DAY_MS,
+      end: now - 14 * DAY_MS,
+    });
+    expect(parseFilterDate("yesterday", now)).toBeUndefined();
+    expect(parseFilterDate("2024-02-30", now)).toBeUndefined();
+  });
+});
+
+describe("buildOramaWhere", () => {
+  const filters = {
+    tags: ["project"],
+    folders: ["meetings"],
+    properties: [],
+    after: 1,
+    before: 10,
+  };
+
+  it("should turn filters into where clauses", () => {
+    expect(buildOramaWhere(filters, { ...FILTER_SCHEMA, mtime: "number" })).toEqual({
+      where: {
+        filterTags: { containsAll: ["project"] },
+        folders: { containsAll: ["meetings"] },
+        mtime: { between: [1, 9] },
+      },
+      unsupported: [],
+    });
+  });
+
+  it("should skip fields missing from the schema", () => {
+    expect(buildOramaWhere(filters, { mtime: "number" })).toEqual({
+      where: { mtime: { between: [1, 9] } },
+      unsupported: ["filterTags", "folders"],
+    });
+  });
+
+  it("should leave out the end of a before filter", () => {
+    expect(buildOramaWhere({ ...filters, after: undefined }, { mtime: "number" }).where).toEqual({
+      mtime: { lt: 10 },
+    });
+  });
+});
+
+describe("filter values", () => {
+  it("should include parent folders and parent tags", () => {
+    expect(getFolderFilterValues("Meetings/2024/Weekly.md")).toEqual(["meetings", "meetings/2024"]);
+    expect(getFolderFilterValues("Note.md")).toEqual([]);
+    expect(getTagFilterValues(["#Project/alpha", "#todo"])).toEqual([
+      "project",
+      "project/alpha",
+      "todo",
+    ]);
+  });
+
+  it("should flatten scalar frontmatter properties", () => {
+    expect(
+      getPropertyFilterValues({ status: "Active", aliases: ["a", "b"], nested: { x: 1 } })
+    ).toEqual(["status:active", "aliases:a", "aliases:b"]);
+  });
+});
@@ -0,0 +1,85 @@
+import { DEFAULT_SETTINGS, QUERY_REWRITE_MODE } from "@/constants";
+import { getRewritePromptError, QueryRewriter } from "@/search/queryRewriter";
+import { AIMessage, HumanMessage } from "@langchain/core/messages";
+import { FakeListChatModel } from "@langchain/core/utils/testing";
+import { BaseChatMemory } from "langchain/memory";
+
+function fakeMemory(history: (HumanMessage | AIMessage)[]): BaseChatMemory {
+  return { loadMemoryVariables: async () => ({ history }) } as unknown as BaseChatMemory;
+}
+
+describe("QueryRewriter", () => {
+  it("should return the question as is with rewriting off", async () => {
+    const llm = new FakeListChatModel({ responses: ["rewritten"] });
+    const rewriter = new QueryRewriter(llm, QUERY_REWRITE_MODE.NONE, "");
+    expect(await rewriter.rewrite("question?")).toBe("question?");
+  });
+
+  it("should not condense a first question without chat history", async () => {
+    const llm = new FakeListChatModel({ responses: ["rewritten"] });
+    const rewriter = new QueryRewriter(
+      llm,
+      QUERY_REWRITE_MODE.STANDALONE_QUESTION,
+      "",
+      fakeMemory([])
+    );
+    expect(await rewriter.rewrite("question?")).toBe("question?");
+  });
+
+  it("should condense a follow-up question with the chat history", async () => {
+    const llm = new FakeListChatModel({ responses: ["standalone question?"] });
+    const invoke = jest.spyOn(llm, "invoke");
+    const rewriter = new QueryRewriter(
+      llm,
+      QUERY_REWRITE_MODE.STANDALONE_QUESTION,
+      "",
+      fakeMemory([new HumanMessage("first"), new AIMessage("answer")])
+    );
+    expect(await rewriter.rewrite("and then?")).toBe("standalone question?");
+    expect(JSON.stringify(invoke.mock.calls[0][0])).toContain("Human: first\\nAssistant: answer");
+  });
+
+  it("should answer a follow-up question in the context of the chat in the default mode", async () => {
+    const llm = new FakeListChatModel({ responses: ["passage"] });
+    const invoke = jest.spyOn(llm, "invoke");
+    const rewriter = new QueryRewriter(
+      llm,
+      DEFAULT_SETTINGS.queryRewriteMode,
+      DEFAULT_SETTINGS.queryRewritePrompt,
+      fakeMemory([new HumanMessage("list two recipes"), new AIMessage("bread and soup")])
+    );
+    expect(await rewriter.rewrite("what about the second one?")).toBe("passage");
+    const prompt = JSON.stringify(invoke.mock.calls[0][0]);
+    expect(prompt).toContain("Human: list two recipes\\nAssistant: bread and soup");
+    expect(prompt).toContain("what about the second one?");
+  });
+
+  it("should write a hypothetical answer with a custom prompt", async () => {
+    const llm = new FakeListChatModel({ responses: [" passage "] });
+    const invoke = jest.spyOn(llm, "invoke");
+    const rewriter = new QueryRewriter(llm, QUERY_REWRITE_MODE.HYDE, "Answer briefly: {question}");
+    expect(await rewriter.rewrite("question?")).toBe("passage");
+    expect(JSON.stringify(invoke.mock.calls[0][0])).toContain("Answer briefly: question?");
+  });
+});
+
+describe("getRewritePromptError", () => {
+  it("should accept the default and custom prompts", () => {
+    expect(getRewritePromptError("")).toBeNull();
+    expect(getRewritePromptError("Answer {question} as JSON {{ }}")).toBeNull();
+  });
+
+  it("should reject prompts that can't be formatted", () => {
+    expect(getRewritePromptError("Answer {question} as JSON {")).toContain("not a valid template");
+    expect(getRewritePromptError("Answer briefly")).toContain("{question}");
+    expect(getRewritePromptError("{question} in {language}")).toContain("{language}");
+  });
+
+  it("should fall back to the default prompt", async () => {
+    const llm = new FakeListChatModel({ responses: ["passage"] });
+    const invoke = jest.spyOn(llm, "invoke");
+    const rewriter = new QueryRewriter(llm, QUERY_REWRITE_MODE.HYDE, "Answer {question} {");
+    expect(await rewriter.rewrite("question?")).toBe("passage");
+    expect(JSON.stringify(invoke.mock.calls[0][0])).toContain("Please write a passage");
+  });
+});
@@ -0,0 +1,85 @@
+import { HYBRID_FUSION_STRATEGY } from "@/constants";
+import {
+  fuseRankedLists,
+  reciprocalRankFusion,
+  RRF_K,
+  weightedScoreFusion,
+} from "@/search/rankFusion";
+
+const vectorHits = [
+  { id: "a", score: 0.9 },
+  { id: "b", score: 0.8 },
+  { id: "c", score: 0.4 },
+];
+
+const textHits = [
+  { id: "c", score: 12 },
+  { id: "d", score: 3 },
+];
+
+describe("reciprocalRankFusion", () => {
+  it("should rank a hit found by both lists above hits found by one", () => {
+    const fused = reciprocalRankFusion([
+      { hits: vectorHits, weight: 1 },
+      { hits: textHits, weight: 1 },
+    ]);
+    expect(fused.map((hit) => hit.id)).toEqual(["c", "a", "b", "d"]);
+    expect(fused[0].score).toBeCloseTo(1 / (RRF_K + 3) + 1 / (RRF_K + 1));
+  });
+
+  it("should ignore lists with zero weight", () => {
+    const fused = reciprocalRankFusion([
+      { hits: vectorHits, weight: 1 },
+      { hits: textHits, weight: 0 },
+    ]);
+    expect(fused.map((hit) => hit.id)).toEqual(["a", "b", "c"]);
+  });
+
+  it("should let weights decide between two first-ranked hits", () => {
+    const fused = reciprocalRankFusion([
+      { hits: vectorHits, weight: 0.2 },
+      { hits: textHits, weight: 0.8 },
+    ]);
+    expect(fused[0].id).toEqual("c");
+    expect(fused[1].id).toEqual("d");
+  });
+
+  it("should keep the other fields of the hit", () => {
+    const fused = reciprocalRankFusion([
+      { hits: [{ id: "a", score: 1, document: { path: "a.md" } }], weight: 1 },
+    ]);
+    expect(fused[0].document).toEqual({ path: "a.md" });
+  });
+});
+
+describe("weightedScoreFusion", () => {
+  it("should normalize scores of each list before combining them", () => {
+    const fused = weightedScoreFusion([
+      { hits: vectorHits, weight: 0.5 },
+      { hits: textHits, weight: 0.5 },
+    ]);
+    // c: 0.5 * 0 + 0.5 * 1, a: 0.5 * 1, b: 0.5 * 0.8, d: 0
+    expect(fused.map((hit) => hit.id)).toEqual(["a", "c", "b", "d"]);
+    expect(fused[0].score).toBeCloseTo(0.5);
+    expect(fused[1].score).toBeCloseTo(0.5);
+    expect(fused[3].score).toBeCloseTo(0);
+  });
+
+  it("should give full credit when all scores in a list are equal", () => {
+    const fused = weightedScoreFusion([{ hits: [{ id: "a", score: 2 }], weight: 0.7 }]);
+    expect(fused[0].score).toBeCloseTo(0.7);
+  });
+});
+
+describe("fuseRankedLists", () => {
+  it("should default to reciprocal rank fusion", () => {
+    const lists = [
+      { hits: vectorHits, weight: 1 },
+      { hits: textHits, weight: 1 },
+    ];
+    expect(fuseRankedLists(lists, "")).toEqual(reciprocalRankFusion(lists));
+    expect(fuseRankedLists(lists, HYBRID_FUSION_STRATEGY.WEIGHTED_SCORE)).toEqual(
+      weightedScoreFusion(lists)
+    );
+  });
+});
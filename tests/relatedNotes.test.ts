@@ -0,0 +1,76 @@
+import { getMeanVector, groupRelatedChunks, RelatedChunk } from "@/search/relatedNotes";
+
+function hit(id: string, path: string, score: number): RelatedChunk {
+  return {
+    chunk: {
+      id,
+      path,
+      title: path.replace(/\.md$/, ""),
+      content: `[[${path}]] --- chunk ${id}`,
+      embeddingModel: "test-model",
+      created_at: 0,
+      ctime: 0,
+      mtime: 0,
+      tags: [],
+      extension: "md",
+      nchars: 0,
+      metadata: {},
+    },
+    score,
+  };
+}
+
+describe("groupRelatedChunks", () => {
+  const options = { maxNotes: 10, maxChunksPerNote: 10 };
+
+  it("should drop the active note and rank notes by their best chunk", () => {
+    const notes = groupRelatedChunks(
+      [hit("a1", "a.md", 0.6), hit("self", "active.md", 1), hit("b1", "b.md", 0.9)],
+      "active.md",
+      options
+    );
+    expect(notes.map((note) => [note.path, note.score])).toEqual([
+      ["b.md", 0.9],
+      ["a.md", 0.6],
+    ]);
+  });
+
+  it("should keep the best score of a chunk found for several source chunks", () => {
+    const [note] = groupRelatedChunks(
+      [hit("a1", "a.md", 0.4), hit("a2", "a.md", 0.5), hit("a1", "a.md", 0.8)],
+      "active.md",
+      options
+    );
+    expect(note.chunks.map(({ chunk, score }) => [chunk.id, score])).toEqual([
+      ["a1", 0.8],
+      ["a2", 0.5],
+    ]);
+  });
+
+  it("should limit the notes and the chunks per note", () => {
+    const notes = groupRelatedChunks(
+      [
+        hit("a1", "a.md", 0.9),
+        hit("a2", "a.md", 0.7),
+        hit("a3", "a.md", 0.8),
+        hit("b1", "b.md", 0.6),
+        hit("c1", "c.md", 0.5),
+      ],
+      "active.md",
+      { maxNotes: 2, maxChunksPerNote: 2 }
+    );
+    expect(notes.map((note) => note.path)).toEqual(["a.md", "b.md"]);
+    expect(notes[0].chunks.map(({ chunk }) => chunk.id)).toEqual(["a1", "a3"]);
+  });
+});
+
+describe("getMeanVector", () => {
+  it("should average the vectors to unit length", () => {
+    const mean = getMeanVector([
+      [1, 0],
+      [0, 1],
+    ]);
+    expect(mean[0]).toBeCloseTo(Math.SQRT1_2);
+    expect(mean[1]).toBeCloseTo(Math.SQRT1_2);
+  });
+});
@@ -0,0 +1,46 @@
+import {
+  buildListwiseRerankPrompt,
+  ChatModelReranker,
+  parseListwiseRanking,
+  sortByRerankScores,
+} from "@/search/reranker";
+import { Document } from "@langchain/core/documents";
+import { BaseLanguageModel } from "@langchain/core/language_models/base";
+
+const docs = ["alpha", "beta", "gamma"].map(
+  (content) => new Document({ pageContent: content, metadata: { path: `${content}.md` } })
+);
+
+describe("parseListwiseRanking", () => {
+  it("should score ranked passages in order and the rest 0", () => {
+    expect(parseListwiseRanking("[3, 1]", 3)).toEqual([1 - 1 / 3, 0, 1]);
+  });
+
+  it("should ignore duplicates and out of range numbers", () => {
+    expect(parseListwiseRanking("Ranking: 2, 2, 7, 0", 3)).toEqual([0, 1, 0]);
+  });
+});
+
+describe("buildListwiseRerankPrompt", () => {
+  it("should number the passages", () => {
+    const prompt = buildListwiseRerankPrompt("question?", docs);
+    expect(prompt).toContain("Question: question?");
+    expect(prompt).toContain("[1] alpha\n\n[2] beta\n\n[3] gamma");
+  });
+});
+
+describe("sortByRerankScores", () => {
+  it("should sort by score, keep ties in order and record the score", () => {
+    const sorted = sortByRerankScores(docs, [0.5, 0.9, 0.5]);
+    expect(sorted.map((doc) => doc.pageContent)).toEqual(["beta", "alpha", "gamma"]);
+    expect(sorted[0].metadata).toEqual({ path: "beta.md", rerankScore: 0.9 });
+  });
+});
+
+describe("ChatModelReranker", () => {
+  it("should score documents from the chat model ranking", async () => {
+    const llm = { invoke: jest.fn(async () => ({ content: "[2, 3]" })) };
+    const reranker = new ChatModelReranker(llm as unknown as BaseLanguageModel);
+    expect(await reranker.rerank("question?", docs)).toEqual([0, 1, 1 - 1 / 3]);
+  });
+});
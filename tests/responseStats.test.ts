@@ -0,0 +1,45 @@
+import { ResponseStatsTracker } from "@/LLMProviders/responseStats";
+
+function clock(...times: number[]): () => number {
+  return () => times.shift() ?? 0;
+}
+
+describe("ResponseStatsTracker", () => {
+  it("should time the first token and the whole answer", () => {
+    const tracker = new ResponseStatsTracker(clock(1000, 1800, 3500));
+    tracker.addChunk({ content: "" });
+    tracker.addChunk({ content: "Hel" });
+    tracker.addChunk({ content: "lo" });
+
+    expect(tracker.getStats()).toEqual({
+      promptTokens: undefined,
+      completionTokens: undefined,
+      timeToFirstToken: 800,
+      latency: 2500,
+    });
+  });
+
+  it("should add up usage reported on different chunks", () => {
+    const tracker = new ResponseStatsTracker(clock(0, 10, 20));
+    tracker.addChunk({
+      content: "Hi",
+      usage_metadata: { input_tokens: 120, output_tokens: 1, total_tokens: 121 },
+    });
+    tracker.addChunk({
+      content: "",
+      usage_metadata: { input_tokens: 0, output_tokens: 41, total_tokens: 41 },
+    });
+
+    expect(tracker.getStats()).toMatchObject({ promptTokens: 120, completionTokens: 42 });
+  });
+
+  it("should leave out the first token when nothing was streamed", () => {
+    const tracker = new ResponseStatsTracker(clock(0, 500));
+    expect(tracker.getStats()).toEqual({
+      promptTokens: undefined,
+      completionTokens: undefined,
+      timeToFirstToken: undefined,
+      latency: 500,
+    });
+  });
+});
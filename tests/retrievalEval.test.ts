@@ -0,0 +1,226 @@
+/**
+ * @jest-environment node
+ */
+// The retriever pulls in the LLM provider SDKs, which need the fetch of Node, not of jsdom
+import { HYBRID_FUSION_STRATEGY } from "@/constants";
+import { HybridRetriever } from "@/search/hybridRetriever";
+import { chunkMarkdown } from "@/search/markdownChunker";
+import {
+  evaluateQuestion,
+  formatEvalReport,
+  isEvalFile,
+  matchesExpectedSource,
+  parseExpectedSource,
+  parseGoldenSet,
+  RetrievedSource,
+  runRetrievalEval,
+} from "@/search/retrievalEval";
+import { Embeddings } from "@langchain/core/embeddings";
+import { create, insertMultiple, Orama } from "@orama/orama";
+import * as fs from "fs";
+import { Vault } from "obsidian";
+import * as path from "path";
+
+const VAULT_DIR = path.join(__dirname, "fixtures", "evalVault");
+
+function source(path: string, headings: string[] = []): RetrievedSource {
+  return { path, title: path.split("/").pop()?.replace(/\.md$/, "") ?? path, headings };
+}
+
+describe("parseGoldenSet", () => {
+  it("should read questions and nested expected sources from a note", () => {
+    const content = fs.readFileSync(path.join(VAULT_DIR, "golden.md"), "utf8");
+    expect(parseGoldenSet(content, "md")).toEqual([
+      { question: "How much was the marketing budget in Q3?", expected: ["[[Budget#Q3]]"] },
+      {
+        question: "What are the risks of the payment provider migration?",
+        expected: ["[[Projects/Apollo#Risks]]", "[[Budget#Q4]]"],
+      },
+      { question: "How do I make pancakes?", expected: ["[[Recipes]]"] },
+    ]);
+  });
+
+  it("should read a JSON golden set", () => {
+    const json = JSON.stringify([
+      { question: "Q1", expected: ["Budget.md"] },
+      { question: "Q2", expected: "Recipes" },
+      { question: "Q3", expected: [] },
+    ]);
+    expect(parseGoldenSet(json, "json")).toEqual([
+      { question: "Q1", expected: ["Budget.md"] },
+      { question: "Q2", expected: ["Recipes"] },
+    ]);
+    expect(() => parseGoldenSet("{}", "json")).toThrow("must be an array");
+  });
+});
+
+describe("matchesExpectedSource", () => {
+  it("should match notes by path or name and headings exactly", () => {
+    expect(parseExpectedSource("[[Projects/Apollo#Risks|risks]]")).toEqual({
+      note: "Projects/Apollo",
+      heading: "Risks",
+    });
+    const chunk = source("Projects/Apollo.md", ["Apollo", "Risks"]);
+    expect(matchesExpectedSource(chunk, "[[Projects/Apollo#Risks]]")).toBe(true);
+    expect(matchesExpectedSource(chunk, "Apollo")).toBe(true);
+    expect(matchesExpectedSource(chunk, "Projects/Apollo.md#risks")).toBe(true);
+    expect(matchesExpectedSource(chunk, "[[Apollo#Timeline]]")).toBe(false);
+    expect(matchesExpectedSource(chunk, "[[Budget]]")).toBe(false);
+  });
+});
+
+describe("evaluateQuestion", () => {
+  it("should compute recall@k and the reciprocal rank of the first hit", () => {
+    const result = evaluateQuestion(
+      { question: "q", expected: ["[[Budget#Q4]]", "[[Recipes]]"] },
+      [source("Apollo.md"), source("Budget.md", ["Budget", "Q4"]), source("Recipes.md")],
+      2
+    );
+    expect(result.ranks).toEqual([2, null]);
+    expect(result.recall).toBe(0.5);
+    expect(result.reciprocalRank).toBe(0.5);
+  });
+});
+
+// Word counts as vectors, so the fixture vault can be searched without an embedding model
+class WordCountEmbeddings extends Embeddings {
+  constructor(private vocabulary: string[]) {
+    super({});
+  }
+
+  private embed(text: string): number[] {
+    const words = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+    return this.vocabulary.map((term) => words.filter((word) => word === term).length);
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embed(text));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+}
+
+describe("runRetrievalEval on a fixture vault", () => {
+  // The golden set is indexed too, like in a vault, and has to be left out of the results
+  const notePaths = ["Budget.md", "Projects/Apollo.md", "Recipes.md", "golden.md"];
+  const chunks = notePaths.flatMap((notePath) => {
+    const title = path.basename(notePath, ".md");
+    const text = fs.readFileSync(path.join(VAULT_DIR, notePath), "utf8");
+    return chunkMarkdown(title, text, { chunkSize: 1000, chunkOverlap: 0 }).map((chunk, i) => ({
+      id: `${notePath}-${i}`,
+      path: notePath,
+      title,
+      content: chunk.content,
+      headings: chunk.headings,
+    }));
+  });
+  const vocabulary = Array.from(
+    new Set(chunks.flatMap((chunk) => chunk.content.toLowerCase().match(/[a-z0-9]+/g) ?? []))
+  );
+  const embeddings = new WordCountEmbeddings(vocabulary);
+
+  const schema = {
+    id: "string",
+    path: "string",
+    title: "string",
+    content: "string",
+    embedding: `vector[${vocabulary.length}]`,
+  } as const;
+  let db: Orama<typeof schema>;
+  beforeAll(async () => {
+    db = await create({ schema });
+    const vectors = await embeddings.embedDocuments(chunks.map((chunk) => chunk.content));
+    await insertMultiple(
+      db,
+      chunks.map((chunk, i) => ({ ...chunk, embedding: vectors[i] }))
+    );
+  });
+
+  // The real retriever, vector search only like the default settings
+  const createRetrieve =
+    (excludePath?: (path: string) => boolean) =>
+    async (question: string): Promise<RetrievedSource[]> => {
+      const retriever = new HybridRetriever(db, {} as Vault, embeddings, {
+        minSimilarityScore: 0.01,
+        maxK: 2,
+        excludePath,
+      });
+      return (await retriever.invoke(question)).map((doc) => ({
+        path: doc.metadata.path,
+        title: doc.metadata.title,
+        headings: doc.metadata.headings ?? [],
+      }));
+    };
+  const retrieve = createRetrieve((candidate) => isEvalFile(candidate, "golden.md"));
+
+  it("should leave the golden set and the reports out of the results", async () => {
+    const question = "How do I make pancakes?";
+    expect((await createRetrieve()(question)).map((source) => source.path)).toContain("golden.md");
+    expect((await retrieve(question)).map((source) => source.path)).not.toContain("golden.md");
+    expect(isEvalFile("copilot-retrieval-evals/golden@20240101.md", "golden.md")).toBe(true);
+    expect(isEvalFile("Recipes.md", "golden.md")).toBe(false);
+  });
+
+  it("should keep the vector and text scores next to the fused score", async () => {
+    const retriever = new HybridRetriever(db, {} as Vault, embeddings, {
+      minSimilarityScore: 0.01,
+      maxK: 3,
+      textWeight: 1,
+      vectorWeight: 1,
+      fusionStrategy: HYBRID_FUSION_STRATEGY.RECIPROCAL_RANK,
+    });
+    const [top] = await retriever.invoke("How do I make pancakes?");
+    expect(top.metadata.vectorScore).toBeGreaterThan(0.1);
+    expect(top.metadata.textScore).toBeGreaterThan(0);
+    // Weighted reciprocal rank of the first hit in both lists, 2 / (60 + 1)
+    expect(top.metadata.fusedScore).toBeCloseTo(2 / 61);
+  });
+
+  it("should score every question and write a report with the misses", async () => {
+    const goldenSet = parseGoldenSet(
+      fs.readFileSync(path.join(VAULT_DIR, "golden.md"), "utf8"),
+      "md"
+    );
+    const progress: number[] = [];
+    const { summary, results } = await runRetrievalEval(goldenSet, retrieve, 2, (done) =>
+      progress.push(done)
+    );
+
+    expect(progress).toEqual([1, 2, 3]);
+    expect(results.map((result) => result.recall)).toEqual([1, 0.5, 1]);
+    expect(results.map((result) => result.reciprocalRank)).toEqual([1, 1, 1]);
+    expect(summary).toEqual({
+      k: 2,
+      questionCount: 3,
+      recallAtK: 2.5 / 3,
+      mrr: 1,
+      missedQuestionCount: 1,
+    });
+
+    const report = formatEvalReport(summary, results, {
+      title: "Retrieval evaluation",
+      goldenSetPath: "golden.md",
+      config: { "Chunk size": 1000, k: 2 },
+    });
+    expect(report).toContain("- Recall@2: 0.833");
+    expect(report).toContain("| Chunk size | 1000 |");
+    expect(report).toContain("### What are the risks of the payment provider migration?");
+    expect(report).toContain("- Missed: [[Budget#Q4]]");
+  });
+
+  it("should count a failing question as a miss", async () => {
+    const failing = async () => {
+      throw new Error("embedding model unavailable");
+    };
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const { summary, results } = await runRetrievalEval(
+      [{ question: "q", expected: ["Budget"] }],
+      failing,
+      3
+    );
+    expect(summary.recallAtK).toBe(0);
+    expect(results[0].error).toContain("embedding model unavailable");
+  });
+});
@@ -0,0 +1,137 @@
+import ShardedIndexStore, { INDEX_FORMAT_VERSION } from "@/search/shardedIndexStore";
+import { OramaDocument } from "@/vectorDBManager";
+import { App } from "obsidian";
+
+function createFakeApp(files: Map<string, string | ArrayBuffer>) {
+  return {
+    vault: {
+      adapter: {
+        exists: async (path: string) =>
+          files.has(path) || Array.from(files.keys()).some((key) => key.startsWith(path + "/")),
+        mkdir: async () => {},
+        read: async (path: string) => files.get(path) as string,
+        write: async (path: string, data: string) => {
+          files.set(path, data);
+        },
+        readBinary: async (path: string) => files.get(path) as ArrayBuffer,
+        writeBinary: async (path: string, data: ArrayBuffer) => {
+          files.set(path, data);
+        },
+        remove: async (path: string) => {
+          files.delete(path);
+        },
+        rename: async (path: string, newPath: string) => {
+          if (files.has(newPath)) throw new Error("Destination file already exists!");
+          files.set(newPath, files.get(path) as string | ArrayBuffer);
+          files.delete(path);
+        },
+      },
+    },
+  } as unknown as App;
+}
+
+function createDoc(id: string, embedding: number[]): OramaDocument {
+  return {
+    id,
+    title: "Note",
+    content: `content ${id}`,
+    embedding,
+    path: "folder/Note.md",
+    embeddingModel: "model",
+    created_at: 1,
+    ctime: 1,
+    mtime: 1,
+    tags: [],
+    extension: "md",
+    nchars: 9,
+    metadata: {},
+  };
+}
+
+describe("ShardedIndexStore", () => {
+  it("should assign a path to the same shard every time", () => {
+    const shardId = ShardedIndexStore.getShardId("folder/Note.md");
+    expect(shardId).toHaveLength(2);
+    expect(ShardedIndexStore.getShardId("folder/Note.md")).toEqual(shardId);
+  });
+
+  it("should read the vector length from the schema", () => {
+    expect(ShardedIndexStore.getVectorLength({ embedding: "vector[1536]" })).toEqual(1536);
+    expect(ShardedIndexStore.getVectorLength({})).toEqual(0);
+  });
+
+  it("should round trip vectors through Float32 binary data", () => {
+    const docs = [createDoc("a", [0.5, 0.25]), createDoc("b", [1, -1])];
+    const buffer = ShardedIndexStore.encodeVectors(docs, 2);
+    expect(buffer.byteLength).toEqual(16);
+    expect(ShardedIndexStore.decodeVectors(buffer, 2, 2)).toEqual([
+      [0.5, 0.25],
+      [1, -1],
+    ]);
+  });
+
+  it("should reject vector data that doesn't match the documents", () => {
+    const buffer = ShardedIndexStore.encodeVectors([createDoc("a", [1, 2])], 2);
+    expect(() => ShardedIndexStore.decodeVectors(buffer, 2, 2)).toThrow();
+  });
+
+  it("should store shards without embeddings in the JSON file", async () => {
+    const files = new Map<string, string | ArrayBuffer>();
+    const store = new ShardedIndexStore(createFakeApp(files), "index");
+    await store.writeShard("ab", [createDoc("a", [0.5, 0.25])], 2);
+
+    expect(JSON.parse(files.get("index/ab.json") as string)[0].embedding).toBeUndefined();
+    expect(await store.readShard("ab", 2)).toEqual([createDoc("a", [0.5, 0.25])]);
+
+    await store.removeShard("ab");
+    expect(files.size).toEqual(0);
+  });
+
+  it("should ignore a manifest with an unknown format version", async () => {
+    const files = new Map<string, string | ArrayBuffer>();
+    const store = new ShardedIndexStore(createFakeApp(files), "index");
+    const manifest = {
+      version: INDEX_FORMAT_VERSION,
+      schema: {},
+      vectorLength: 2,
+      shards: { ab: 1 },
+      fileHashes: {},
+    };
+    await store.writeManifest(manifest);
+    expect(await store.readManifest()).toEqual(manifest);
+
+    await store.writeManifest({ ...manifest, version: INDEX_FORMAT_VERSION + 1 });
+    expect(await store.readManifest()).toBeNull();
+  });
+
+  it("should read the new manifest when a save stopped before renaming it", async () => {
+    const files = new Map<string, string | ArrayBuffer>();
+    const store = new ShardedIndexStore(createFakeApp(files), "index");
+    const manifest = {
+      version: INDEX_FORMAT_VERSION,
+      schema: {},
+      vectorLength: 2,
+      shards: { ab: 1 },
+      fileHashes: {},
+    };
+    await store.writeManifest(manifest);
+    await store.writeManifest({ ...manifest, shards: { cd: 2 } });
+    expect(files.has("index/manifest-next.json")).toBe(false);
+
+    files.set("index/manifest-next.json", files.get("index/manifest.json") as string);
+    files.delete("index/manifest.json");
+    expect((await store.readManifest())?.shards).toEqual({ cd: 2 });
+  });
+
+  it("should list the shards a save is rewriting until it is done", async () => {
+    const files = new Map<string, string | ArrayBuffer>();
+    const store = new ShardedIndexStore(createFakeApp(files), "index");
+    expect(await store.readPendingShards()).toEqual(new Set());
+
+    await store.writePendingShards(new Set(["ab", "cd"]));
+    expect(await store.readPendingShards()).toEqual(new Set(["ab", "cd"]));
+
+    await store.clearPendingShards();
+    expect(await store.readPendingShards()).toEqual(new Set());
+  });
+});
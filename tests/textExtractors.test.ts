@@ -0,0 +1,85 @@
+import {
+  extractCanvasSections,
+  getExtractedText,
+  getTextExtractor,
+  hasTextExtractor,
+  isIndexedFileType,
+  joinPdfTextItems,
+  registerTextExtractor,
+} from "@/search/textExtractors";
+import { TFile, Vault } from "obsidian";
+
+const canvas = JSON.stringify({
+  nodes: [
+    { id: "g1", type: "group", label: "Research", x: 0, y: 0, width: 1000, height: 1000 },
+    { id: "g2", type: "group", label: "Open questions", x: 0, y: 0, width: 500, height: 500 },
+    { id: "t1", type: "text", text: "Why is it slow?", x: 10, y: 10, width: 100, height: 100 },
+    { id: "t2", type: "text", text: "Outside", x: 2000, y: 0, width: 100, height: 100 },
+    { id: "t3", type: "text", text: "  ", x: 0, y: 0, width: 10, height: 10 },
+    { id: "f1", type: "file", file: "notes/Perf.md", subpath: "#Results", x: 0, y: 0 },
+    { id: "l1", type: "link", url: "https://example.com", x: 0, y: 0 },
+  ],
+  edges: [],
+});
+
+describe("extractCanvasSections", () => {
+  it("should extract text nodes under their group labels, outermost first", () => {
+    const sections = extractCanvasSections(canvas);
+    expect(sections.slice(0, 2)).toEqual([
+      {
+        text: "Why is it slow?",
+        format: "markdown",
+        headings: ["Research", "Open questions"],
+        nodeId: "t1",
+      },
+      { text: "Outside", format: "markdown", headings: [], nodeId: "t2" },
+    ]);
+  });
+
+  it("should list linked notes and web pages in one section", () => {
+    const sections = extractCanvasSections(canvas);
+    expect(sections).toHaveLength(3);
+    expect(sections[2].text).toEqual("Linked: [[notes/Perf.md#Results]], https://example.com");
+    expect(sections[2].nodeId).toBeUndefined();
+  });
+
+  it("should return no sections for an empty canvas file", () => {
+    expect(extractCanvasSections("")).toEqual([]);
+  });
+});
+
+describe("joinPdfTextItems", () => {
+  it("should join items and break lines where pdf.js marks them", () => {
+    const items = [
+      { str: "Annual", hasEOL: false },
+      { str: " ", hasEOL: false },
+      { str: "report ", hasEOL: true },
+      { str: "2024", hasEOL: true },
+    ];
+    expect(joinPdfTextItems(items)).toEqual("Annual report\n2024");
+  });
+});
+
+describe("text extractor registry", () => {
+  it("should know notes, PDFs, canvases and text files", () => {
+    expect(["md", "pdf", "canvas", "txt", "py", "PDF"].every(hasTextExtractor)).toBe(true);
+    expect(hasTextExtractor("png")).toBe(false);
+  });
+
+  it("should only index notes unless other file types are turned on", () => {
+    expect(isIndexedFileType("md", "")).toBe(true);
+    expect(isIndexedFileType("pdf", "")).toBe(false);
+    expect(isIndexedFileType("PDF", "pdf, .canvas")).toBe(true);
+    expect(isIndexedFileType("canvas", "pdf, .canvas")).toBe(true);
+    expect(isIndexedFileType("png", "png")).toBe(false);
+  });
+
+  it("should accept extractors for more file types", async () => {
+    registerTextExtractor({
+      extensions: ["ipynb"],
+      extract: async () => [{ text: "cell", format: "plain", headings: [] }],
+    });
+    const sections = await getTextExtractor("ipynb")?.extract({} as TFile, {} as Vault);
+    expect(getExtractedText(sections ?? [])).toEqual("cell");
+  });
+});
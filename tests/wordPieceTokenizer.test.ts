@@ -0,0 +1,116 @@
+import { normalizeVector, poolEmbeddings } from "@/LLMProviders/localWasmEmbeddings";
+import { WordPieceTokenizer } from "@/LLMProviders/wordPieceTokenizer";
+
+const VOCAB = [
+  "[PAD]",
+  "[UNK]",
+  "[CLS]",
+  "[SEP]",
+  "hello",
+  "world",
+  "!",
+  "un",
+  "##aff",
+  "##able",
+  "cafe",
+  "中",
+];
+
+describe("WordPieceTokenizer", () => {
+  const tokenizer = WordPieceTokenizer.fromVocabTxt(VOCAB.join("\n"));
+
+  it("should split words into the longest known pieces", () => {
+    expect(tokenizer.tokenize("Hello, unaffable world!")).toEqual([
+      "hello",
+      "[UNK]",
+      "un",
+      "##aff",
+      "##able",
+      "world",
+      "!",
+    ]);
+  });
+
+  it("should strip accents and separate CJK characters", () => {
+    expect(tokenizer.tokenize("Café中world")).toEqual(["cafe", "中", "world"]);
+  });
+
+  it("should add special tokens, truncate and pad", () => {
+    const short = WordPieceTokenizer.fromVocabTxt(VOCAB.join("\n"), { maxLength: 4 });
+    expect(short.encode("hello world hello")).toEqual([2, 4, 5, 3]);
+
+    const batch = tokenizer.encodeBatch(["hello", "hello world"]);
+    expect(batch.inputIds).toEqual([
+      [2, 4, 3, 0],
+      [2, 4, 5, 3],
+    ]);
+    expect(batch.attentionMask).toEqual([
+      [1, 1, 1, 0],
+      [1, 1, 1, 1],
+    ]);
+  });
+
+  it("should read a WordPiece tokenizer.json", () => {
+    const json = JSON.stringify({
+      normalizer: { type: "BertNormalizer", lowercase: false, strip_accents: null },
+      truncation: { max_length: 128 },
+      model: {
+        type: "WordPiece",
+        unk_token: "[UNK]",
+        continuing_subword_prefix: "##",
+        max_input_chars_per_word: 100,
+        vocab: Object.fromEntries(VOCAB.map((token, id) => [token, id])),
+      },
+    });
+    const cased = WordPieceTokenizer.fromTokenizerJson(json);
+    expect(cased.maxLength).toBe(128);
+    expect(cased.tokenize("Hello hello")).toEqual(["[UNK]", "hello"]);
+    expect(() =>
+      WordPieceTokenizer.fromTokenizerJson(JSON.stringify({ model: { type: "BPE" } }))
+    ).toThrow("Unsupported tokenizer type BPE");
+  });
+});
+
+describe("poolEmbeddings", () => {
+  // Two texts, two tokens each, two dimensions
+  const data = new Float32Array([1, 2, 3, 4, 5, 6, 7, 8]);
+
+  it("should average the tokens that are not padding", () => {
+    expect(
+      poolEmbeddings(
+        data,
+        [2, 2, 2],
+        [
+          [1, 1],
+          [1, 0],
+        ],
+        "mean"
+      )
+    ).toEqual([
+      [2, 3],
+      [5, 6],
+    ]);
+  });
+
+  it("should take the first token for CLS pooling", () => {
+    expect(
+      poolEmbeddings(
+        data,
+        [2, 2, 2],
+        [
+          [1, 1],
+          [1, 1],
+        ],
+        "cls"
+      )
+    ).toEqual([
+      [1, 2],
+      [5, 6],
+    ]);
+  });
+
+  it("should normalize to unit length", () => {
+    expect(normalizeVector([3, 4])).toEqual([0.6, 0.8]);
+    expect(normalizeVector([0, 0])).toEqual([0, 0]);
+  });
+});